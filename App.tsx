@@ -1,10 +1,48 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { Upload, Printer, Download, Sparkles, AlertTriangle, ClipboardPaste, Users, FileText, Shuffle, FileType, Trash2, Type, Eye, BrainCircuit, FileCheck } from 'lucide-react';
-import { ImageJob, JobStatus } from './types';
-import { generateHtmlFromImage, remixHtmlContent, generateSolutionFromHtml, fileToGenerativePart } from './services/geminiService';
+import { Upload, Printer, Download, Sparkles, AlertTriangle, ClipboardPaste, Users, FileText, Shuffle, FileType, Trash2, Type, Eye, BrainCircuit, FileCheck, ListOrdered, Sigma, ClipboardCheck, Smartphone, FileCode, Hash } from 'lucide-react';
+import { ImageJob, JobStatus, ExtractionMode, PaperDocument, PaperVariant, RemixSet } from './types';
+import { generateHtmlFromImage, remixHtmlContent, generateSolutionFromHtml, generateMarkingScheme, extractVerificationChecks, translateHtmlContent, fileToGenerativePart, extractDocumentFromImage, remixDocument } from './services/geminiService';
+import { getActivePromptVariant, getPromptVersion } from './services/promptLibrary';
+import { addUsage, EMPTY_USAGE, subscribeToUsage } from './services/usageLog';
+import { createJobQueue, DEFAULT_QUEUE_SETTINGS, JobQueue, QueueSettings, QueueStats } from './services/jobQueue';
+import { getAllQuestions, renderPaperDocument, renumberDocuments } from './utils/paperDocument';
+import { sanitizeHtml, cleanHtml } from './utils/sanitizeHtml';
+import { embedFiguresInDocument, embedFiguresInHtml } from './utils/figureUtils';
+import { buildDocx } from './utils/docx';
+import { buildLatex, buildMarkdown, SourceFormat } from './utils/sourceExport';
+import { createZip } from './utils/zip';
+import { renderMathInHtml } from './utils/mathUtils';
+import { runVerificationChecks } from './utils/verification';
+import { normalizeQuestionNumber, parseAnswerKey, removeSolutionBlocks, renderAnswerKeyTable, renumberAnswerKeys } from './utils/answerKey';
+import { DEFAULT_SHUFFLE_SETTINGS, deriveSetSeeds, shuffleDocument, ShuffleSettings } from './utils/shuffle';
+import { buildBilingualHtml, DEFAULT_TRANSLATION_SETTINGS, TranslationSettings } from './utils/bilingual';
+import { DEFAULT_FIDELITY_SETTINGS, FidelitySettings, queueFidelityCheck } from './utils/fidelityUtils';
 import { JobItem } from './components/JobItem';
 import { PreviewModal } from './components/PreviewModal';
 import { CropModal } from './components/CropModal';
+import { ProviderSettings } from './components/ProviderSettings';
+import { PromptLibrary } from './components/PromptLibrary';
+import { ResultCachePanel } from './components/ResultCachePanel';
+import { QueueStatus } from './components/QueueStatus';
+import { UsagePanel } from './components/UsagePanel';
+import { PdfImportModal } from './components/PdfImportModal';
+import { FidelitySettingsPanel } from './components/FidelitySettingsPanel';
+import { FidelityModal } from './components/FidelityModal';
+import { RemixSetsPanel, RemixSetSummary } from './components/RemixSetsPanel';
+import { TranslationPanel } from './components/TranslationPanel';
+import { ShuffleSetsPanel, ShuffleSummary } from './components/ShuffleSetsPanel';
+import { QuestionBankPanel } from './components/QuestionBankPanel';
+import { DuplicatesPanel } from './components/DuplicatesPanel';
+import { OmrSheetPanel, OmrSummary } from './components/OmrSheetPanel';
+import { LmsExportPanel, LmsSummary } from './components/LmsExportPanel';
+import { SaveToBankModal } from './components/SaveToBankModal';
+import { isPdfFile } from './utils/pdfUtils';
+import { AssembledPaper } from './utils/blueprint';
+import { buildQuizHtml } from './utils/quizExport';
+import { buildGift, buildMoodleXml, buildQtiPackage, collectLmsQuestions, LmsFormat } from './utils/lmsExport';
+import { parseDurationMinutes } from './utils/marksTime';
+import { DEFAULT_OMR_SETTINGS, getOmrQuestions, OmrSettings, renderOmrSheets } from './utils/omrSheet';
+import { DEFAULT_DUPLICATE_THRESHOLD, DuplicateCandidate, findDuplicateClusters } from './utils/duplicates';
 
 // Defined shape of the new fixed header
 interface HeaderConfig {
@@ -18,8 +56,12 @@ interface HeaderConfig {
   instruction1: string;
   instruction2: string;
   fontFamily: string;
+  // Per-language values of the text fields, keyed by language name; empty fields fall back to the primary value
+  translations: Record<string, Partial<Pick<HeaderConfig, HeaderTextField>>>;
 }
 
+type HeaderTextField = 'logoText' | 'logoSubText' | 'courseName' | 'seriesName' | 'marksTime' | 'subjectTitle' | 'instruction1' | 'instruction2';
+
 const DEFAULT_HEADER_CONFIG: HeaderConfig = {
   enabled: true,
   logoText: 'CA CATest',
@@ -30,7 +72,8 @@ const DEFAULT_HEADER_CONFIG: HeaderConfig = {
   subjectTitle: 'PAPER 1 : ACCOUNTING',
   instruction1: 'Question No. 1 is compulsory.',
   instruction2: 'Candidates are required to answer any four questions from the remaining five questions.',
-  fontFamily: 'Arial, sans-serif'
+  fontFamily: 'Arial, sans-serif',
+  translations: {}
 };
 
 const AVAILABLE_FONTS = [
@@ -45,6 +88,7 @@ const App: React.FC = () => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [isRemixing, setIsRemixing] = useState(false);
   const [isSolving, setIsSolving] = useState(false);
+  const [isTranslating, setIsTranslating] = useState(false);
   
   // Track specific job preview ID, OR 'GLOBAL' for the full document
   const [previewJobId, setPreviewJobId] = useState<string | null>(null);
@@ -57,12 +101,127 @@ const App: React.FC = () => {
   
   // Header Settings State (Structured)
   const [headerConfig, setHeaderConfig] = useState<HeaderConfig>(DEFAULT_HEADER_CONFIG);
+  // Language whose header values are being edited; '' edits the primary values
+  const [headerLanguage, setHeaderLanguage] = useState('');
+
+  // Conversion mode: free-form HTML replica or structured question model
+  const [extractionMode, setExtractionMode] = useState<ExtractionMode>(
+    () => (localStorage.getItem('snap2print_extraction_mode') as ExtractionMode) || 'html'
+  );
+
+  // Math mode: prompts ask for TeX, which is typeset with KaTeX in previews and exports
+  const [mathMode, setMathMode] = useState<boolean>(() => localStorage.getItem('snap2print_math_mode') === 'true');
+
+  // Generate a marking scheme (Examiner's Copy) together with each solution
+  const [includeMarkingScheme, setIncludeMarkingScheme] = useState<boolean>(() => localStorage.getItem('snap2print_marking_scheme') !== 'false');
   
   // State for Cropping
   const [croppingJobId, setCroppingJobId] = useState<string | null>(null);
+
+  // PDFs waiting for the page-range picker, handled one at a time in upload order
+  const [pendingPdfs, setPendingPdfs] = useState<File[]>([]);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Shared job queue (concurrency, retries with backoff, pause/resume)
+  const [queueSettings, setQueueSettings] = useState<QueueSettings>(() => {
+    try {
+      const saved = localStorage.getItem('snap2print_queue_settings');
+      return saved ? { ...DEFAULT_QUEUE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_QUEUE_SETTINGS;
+    } catch (e) {
+      return DEFAULT_QUEUE_SETTINGS;
+    }
+  });
+  const [queueStats, setQueueStats] = useState<QueueStats>({ queued: 0, running: 0, retrying: 0, failed: 0, done: 0 });
+  const [isQueuePaused, setIsQueuePaused] = useState(false);
+  const queueRef = useRef<JobQueue | null>(null);
+  // One controller per job, shared by everything running for it (conversion, sets, solutions, translation)
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+
+  // Visual fidelity check (rendered output vs. source image)
+  const [fidelitySettings, setFidelitySettings] = useState<FidelitySettings>(() => {
+    try {
+      const saved = localStorage.getItem('snap2print_fidelity_settings');
+      return saved ? { ...DEFAULT_FIDELITY_SETTINGS, ...JSON.parse(saved) } : DEFAULT_FIDELITY_SETTINGS;
+    } catch (e) {
+      return DEFAULT_FIDELITY_SETTINGS;
+    }
+  });
+  const [fidelityJobId, setFidelityJobId] = useState<string | null>(null);
+
+  // OMR answer sheet layout
+  const [omrSettings, setOmrSettings] = useState<OmrSettings>(() => {
+    try {
+      const saved = localStorage.getItem('snap2print_omr_settings');
+      return saved ? { ...DEFAULT_OMR_SETTINGS, ...JSON.parse(saved) } : DEFAULT_OMR_SETTINGS;
+    } catch (e) {
+      return DEFAULT_OMR_SETTINGS;
+    }
+  });
+
+  // Near-duplicate detection across structured pages
+  const [duplicateThreshold, setDuplicateThreshold] = useState<number>(() => {
+    const saved = Number(localStorage.getItem('snap2print_duplicate_threshold'));
+    return saved > 0 && saved < 1 ? saved : DEFAULT_DUPLICATE_THRESHOLD;
+  });
+
+  // Question Bank: job whose questions are being saved
+  const [bankJobId, setBankJobId] = useState<string | null>(null);
+
+  // Parallel remixed versions of the paper (Set A, B, ...)
+  const [remixSets, setRemixSets] = useState<RemixSet[]>(() => {
+    try {
+      const saved = localStorage.getItem('snap2print_remix_sets');
+      return saved ? JSON.parse(saved) : [{ label: 'A', difficulty: 'same' }];
+    } catch (e) {
+      return [{ label: 'A', difficulty: 'same' }];
+    }
+  });
+  // Recompute the numbers of every remixed page locally and flag mismatches
+  const [verifyRemix, setVerifyRemix] = useState<boolean>(() => localStorage.getItem('snap2print_verify_remix') !== 'false');
+
+  // Seat-wise sets shuffled locally from the structured pages
+  const [shuffleSettings, setShuffleSettings] = useState<ShuffleSettings>(() => {
+    try {
+      const saved = localStorage.getItem('snap2print_shuffle_settings');
+      return saved ? { ...DEFAULT_SHUFFLE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SHUFFLE_SETTINGS;
+    } catch (e) {
+      return DEFAULT_SHUFFLE_SETTINGS;
+    }
+  });
+
+  // Target language and whether exports print the original, the translation or both
+  const [translationSettings, setTranslationSettings] = useState<TranslationSettings>(() => {
+    try {
+      const saved = localStorage.getItem('snap2print_translation_settings');
+      return saved ? { ...DEFAULT_TRANSLATION_SETTINGS, ...JSON.parse(saved) } : DEFAULT_TRANSLATION_SETTINGS;
+    } catch (e) {
+      return DEFAULT_TRANSLATION_SETTINGS;
+    }
+  });
+
+  const getQueue = () => {
+    if (!queueRef.current) {
+      queueRef.current = createJobQueue(queueSettings, setQueueStats);
+    }
+    return queueRef.current;
+  };
+
+  // Every AI call made for a job adds its tokens and cost to that job, including calls for its remixed sets.
+  // The latest call per task also decides whether the job shows that task as served from the cache.
+  useEffect(() => subscribeToUsage(entry => {
+    if (!entry?.jobId) return;
+    setJobs(prev => prev.map(j => {
+      if (j.id !== entry.jobId) return j;
+      const cachedTasks = (j.cachedTasks || []).filter(t => t !== entry.task);
+      return {
+        ...j,
+        usage: addUsage(j.usage || EMPTY_USAGE, entry),
+        cachedTasks: entry.cached ? [...cachedTasks, entry.task] : cachedTasks,
+      };
+    }));
+  }), []);
+
   // Load Header Settings from LocalStorage on mount
   useEffect(() => {
     try {
@@ -75,14 +234,49 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const handleConfigChange = (key: keyof HeaderConfig, value: string | boolean) => {
-    const newConfig = { ...headerConfig, [key]: value };
+  const saveHeaderConfig = (newConfig: HeaderConfig) => {
     setHeaderConfig(newConfig);
     localStorage.setItem('snap2print_header_config', JSON.stringify(newConfig));
     // If config changes, reset global edit because the header changed
     setGlobalEditedHtml(null);
   };
 
+  const handleConfigChange = (key: keyof HeaderConfig, value: string | boolean) => {
+    saveHeaderConfig({ ...headerConfig, [key]: value });
+  };
+
+  const getHeaderText = (key: HeaderTextField) =>
+    headerLanguage ? headerConfig.translations[headerLanguage]?.[key] ?? '' : headerConfig[key];
+
+  const handleHeaderTextChange = (key: HeaderTextField, value: string) => {
+    if (!headerLanguage) {
+      handleConfigChange(key, value);
+      return;
+    }
+    saveHeaderConfig({
+      ...headerConfig,
+      translations: {
+        ...headerConfig.translations,
+        [headerLanguage]: { ...headerConfig.translations[headerLanguage], [key]: value },
+      },
+    });
+  };
+
+  const handleMathModeChange = (enabled: boolean) => {
+    setMathMode(enabled);
+    localStorage.setItem('snap2print_math_mode', String(enabled));
+  };
+
+  const handleMarkingSchemeChange = (enabled: boolean) => {
+    setIncludeMarkingScheme(enabled);
+    localStorage.setItem('snap2print_marking_scheme', String(enabled));
+  };
+
+  const handleExtractionModeChange = (mode: ExtractionMode) => {
+    setExtractionMode(mode);
+    localStorage.setItem('snap2print_extraction_mode', mode);
+  };
+
   // Visitor Counter
   useEffect(() => {
     fetch('https://api.counterapi.dev/v1/snap2print-tracker/visits/up')
@@ -110,11 +304,25 @@ const App: React.FC = () => {
     setGlobalEditedHtml(null);
   }, []);
 
+  // Images become jobs directly; PDFs go through the page picker first
+  const addFilesOrPdfs = useCallback((files: File[]) => {
+    const pdfs = files.filter(isPdfFile);
+    addFiles(files.filter(f => !isPdfFile(f)));
+    if (pdfs.length > 0) {
+      setPendingPdfs(prev => [...prev, ...pdfs]);
+    }
+  }, [addFiles]);
+
+  const handlePdfImport = (pageFiles: File[]) => {
+    addFiles(pageFiles);
+    setPendingPdfs(prev => prev.slice(1));
+  };
+
   // Handle file selection from input
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files && event.target.files.length > 0) {
       const files = Array.from(event.target.files) as File[];
-      addFiles(files);
+      addFilesOrPdfs(files);
     }
     // Reset input
     if (fileInputRef.current) {
@@ -131,7 +339,10 @@ const App: React.FC = () => {
       const pastedFiles: File[] = [];
       
       for (let i = 0; i < items.length; i++) {
-        if (items[i].type.indexOf('image') !== -1) {
+        if (items[i].type === 'application/pdf') {
+          const file = items[i].getAsFile();
+          if (file) pastedFiles.push(file);
+        } else if (items[i].type.indexOf('image') !== -1) {
           const file = items[i].getAsFile();
           if (file) {
             const timestamp = new Date().getTime();
@@ -146,7 +357,7 @@ const App: React.FC = () => {
       
       if (pastedFiles.length > 0) {
         e.preventDefault(); 
-        addFiles(pastedFiles);
+        addFilesOrPdfs(pastedFiles);
       }
     };
 
@@ -154,9 +365,11 @@ const App: React.FC = () => {
     return () => {
       window.removeEventListener('paste', handlePaste);
     };
-  }, [addFiles]);
+  }, [addFilesOrPdfs]);
 
   const handleRemoveJob = (id: string) => {
+    abortControllersRef.current.get(id)?.abort();
+    abortControllersRef.current.delete(id);
     setJobs(prev => {
       const job = prev.find(j => j.id === id);
       if (job) URL.revokeObjectURL(job.previewUrl);
@@ -183,6 +396,15 @@ const App: React.FC = () => {
           status: JobStatus.IDLE, 
           resultHtml: undefined,
           solutionHtml: undefined,
+          markingSchemeHtml: undefined,
+          translatedHtml: undefined,
+          translationLanguage: undefined,
+          document: undefined,
+          sanitizerReport: undefined,
+          fidelity: undefined,
+          promptVersion: undefined,
+          variants: undefined,
+          cachedTasks: undefined,
           error: undefined
         };
       }
@@ -192,16 +414,76 @@ const App: React.FC = () => {
     setGlobalEditedHtml(null);
   };
 
-  const processJob = async (job: ImageJob) => {
+  // Handlers take the signal once at the start, so work they chain after a cancel is rejected too
+  const getJobSignal = (jobId: string) => {
+    let controller = abortControllersRef.current.get(jobId);
+    if (!controller || controller.signal.aborted) {
+      controller = new AbortController();
+      abortControllersRef.current.set(jobId, controller);
+    }
+    return controller.signal;
+  };
+
+  const handleCancelJob = (id: string) => {
+    abortControllersRef.current.get(id)?.abort();
+    abortControllersRef.current.delete(id);
+  };
+
+  const handleCancelAll = () => {
+    abortControllersRef.current.forEach(controller => controller.abort());
+    abortControllersRef.current.clear();
+  };
+
+  // Runs a task for a job through the shared queue, keeping the job's status in sync
+  const runQueued = <T,>(jobId: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    setJobs(prev => prev.map(j => j.id === jobId ? { ...j, status: JobStatus.QUEUED, error: undefined, retryCount: undefined } : j));
+    return getQueue().add(task, {
+      onStart: () => setJobs(prev => prev.map(j => j.id === jobId ? { ...j, status: JobStatus.PROCESSING } : j)),
+      onRetry: (attempt) => setJobs(prev => prev.map(j => j.id === jobId ? { ...j, retryCount: attempt } : j)),
+      signal,
+    });
+  };
+
+  // `isFidelityRetry` marks the automatic second attempt after a low fidelity score, so it can't loop.
+  // Retries skip the result cache, which would only return the same HTML again.
+  const processJob = async (job: ImageJob, isFidelityRetry = false, bypassCache = isFidelityRetry) => {
+    // Resolved when the job is queued, so editing prompts meanwhile doesn't change what it records
+    const promptVariant = getActivePromptVariant();
+    const signal = getJobSignal(job.id);
     try {
-      setJobs(prev => prev.map(j => j.id === job.id ? { ...j, status: JobStatus.PROCESSING, error: undefined } : j));
-      const generatedHtml = await generateHtmlFromImage(job.file);
+      const { rawHtml, document } = await runQueued(job.id, async () => {
+        // Figures are cropped from the original upload (full resolution), not the compressed copy sent to the model
+        if (extractionMode === 'structured') {
+          const document = await embedFiguresInDocument(await extractDocumentFromImage(job.file, { mathMode, promptVariant, jobId: job.id, label: job.file.name, bypassCache, signal }), job.previewUrl);
+          return { rawHtml: renderPaperDocument(document), document };
+        }
+        const generatedHtml = await generateHtmlFromImage(job.file, { mathMode, promptVariant, jobId: job.id, label: job.file.name, bypassCache, signal });
+        return { rawHtml: await embedFiguresInHtml(generatedHtml, job.previewUrl), document: undefined };
+      }, signal);
+      const { html, removed } = sanitizeHtml(rawHtml);
       setJobs(prev => prev.map(j => 
         j.id === job.id 
-          ? { ...j, status: JobStatus.COMPLETED, resultHtml: generatedHtml } 
+          ? { ...j, status: JobStatus.COMPLETED, resultHtml: html, document, sanitizerReport: removed, fidelity: undefined, promptVersion: getPromptVersion(promptVariant), variants: undefined, translatedHtml: undefined, translationLanguage: undefined } 
           : j
       ));
+
+      if (fidelitySettings.enabled) {
+        try {
+          const fidelity = await queueFidelityCheck(job.previewUrl, html);
+          setJobs(prev => prev.map(j => j.id === job.id ? { ...j, fidelity } : j));
+          if (fidelitySettings.autoRetry && !isFidelityRetry && fidelity.score < fidelitySettings.threshold) {
+            await processJob(job, true);
+          }
+        } catch (e) {
+          // The score is advisory; a failed check must not fail the conversion
+          console.warn(`Fidelity check for job ${job.id} failed:`, e);
+        }
+      }
     } catch (error: any) {
+      if (signal.aborted) {
+        setJobs(prev => prev.map(j => j.id === job.id ? { ...j, status: JobStatus.CANCELLED, error: undefined, retryCount: undefined } : j));
+        return;
+      }
       console.error(`Job ${job.id} failed:`, error);
       setJobs(prev => prev.map(j => 
         j.id === job.id 
@@ -214,52 +496,108 @@ const App: React.FC = () => {
   const handleRetryJob = async (id: string) => {
     const job = jobs.find(j => j.id === id);
     if (job) {
-      await processJob(job);
+      await processJob(job, false, true);
     }
   };
 
   const handleProcessAll = async () => {
     setIsProcessing(true);
-    const jobsToProcess = jobs.filter(j => j.status === JobStatus.IDLE || j.status === JobStatus.ERROR);
+    const jobsToProcess = jobs.filter(j => j.status === JobStatus.IDLE || j.status === JobStatus.ERROR || j.status === JobStatus.CANCELLED);
 
     if (jobsToProcess.length === 0) {
       setIsProcessing(false);
       return;
     }
 
-    // Execute all jobs in parallel
+    // The queue limits how many of these actually run at once
     await Promise.all(jobsToProcess.map(job => processJob(job)));
 
     setIsProcessing(false);
     setGlobalEditedHtml(null); // Reset global edit as content changed
   };
 
+  const updateVariant = (jobId: string, label: string, changes: Partial<PaperVariant>) => {
+    setJobs(prev => prev.map(j => j.id === jobId
+      ? { ...j, variants: (j.variants || []).map(v => v.label === label ? { ...v, ...changes } : v) }
+      : j
+    ));
+  };
+
+  // Generates every configured set from the original pages. The originals are never overwritten.
   const handleRemixAll = async () => {
     setIsRemixing(true);
     const completedJobs = jobs.filter(j => j.status === JobStatus.COMPLETED && j.resultHtml);
     
-    if (completedJobs.length === 0) {
+    if (completedJobs.length === 0 || remixSets.length === 0) {
       setIsRemixing(false);
       return;
     }
 
-    await Promise.all(completedJobs.map(async (job) => {
+    const promptVariant = getActivePromptVariant();
+    const sets = remixSets;
+    setJobs(prev => prev.map(j => completedJobs.some(c => c.id === j.id)
+      ? {
+          ...j,
+          variants: sets.map(set => ({ ...set, status: JobStatus.QUEUED })),
+          sanitizerReport: (j.sanitizerReport || []).filter(r => !r.startsWith('Set ')),
+        }
+      : j
+    ));
+
+    await Promise.all(completedJobs.flatMap(job => sets.map(async (set) => {
+      const signal = getJobSignal(job.id);
+      const options = { mathMode, promptVariant, jobId: job.id, label: job.file.name, signal, setLabel: set.label, difficulty: set.difficulty, seed: set.seed };
       try {
-        setJobs(prev => prev.map(j => j.id === job.id ? { ...j, status: JobStatus.PROCESSING } : j));
-        const remixedHtml = await remixHtmlContent(job.resultHtml!);
-        setJobs(prev => prev.map(j => 
-          j.id === job.id 
-            ? { ...j, status: JobStatus.COMPLETED, resultHtml: remixedHtml, solutionHtml: undefined } 
-            : j
+        const { rawHtml, document } = await getQueue().add(async () => {
+          if (job.document) {
+            // Structured jobs are remixed question by question and re-rendered
+            const document = await remixDocument(job.document, options);
+            return { rawHtml: renderPaperDocument(document), document };
+          }
+          return { rawHtml: await remixHtmlContent(job.resultHtml!, options), document: undefined };
+        }, {
+          onStart: () => updateVariant(job.id, set.label, { status: JobStatus.PROCESSING }),
+          signal,
+        });
+        const { html, removed } = sanitizeHtml(rawHtml);
+        setJobs(prev => prev.map(j => j.id === job.id
+          ? {
+              ...j,
+              variants: (j.variants || []).map(v => v.label === set.label
+                ? { ...v, status: JobStatus.COMPLETED, resultHtml: html, document, promptVersion: getPromptVersion(promptVariant) }
+                : v
+              ),
+              sanitizerReport: [...(j.sanitizerReport || []), ...removed.map(r => `Set ${set.label}: ${r}`)],
+            }
+          : j
         ));
-      } catch (e) {
-        console.error("Remix failed for job", job.id, e);
-        setJobs(prev => prev.map(j => j.id === job.id ? { ...j, status: JobStatus.COMPLETED } : j));
+
+        if (verifyRemix) {
+          try {
+            const specs = await getQueue().add(() => extractVerificationChecks(html, { mathMode, promptVariant, jobId: job.id, label: job.file.name, signal }), { signal });
+            updateVariant(job.id, set.label, { verification: runVerificationChecks(specs) });
+          } catch (e: any) {
+            if (signal.aborted) return;
+            // An unverified set is flagged the same way as a failed check, so it is not printed unnoticed
+            updateVariant(job.id, set.label, {
+              verification: {
+                checks: [{ question: '-', description: 'Verification could not run', kind: 'expression', passed: false, detail: e.message || 'Unknown error' }],
+                failed: 1,
+              },
+            });
+          }
+        }
+      } catch (e: any) {
+        if (signal.aborted) {
+          updateVariant(job.id, set.label, { status: JobStatus.CANCELLED });
+          return;
+        }
+        console.error(`Remix of set ${set.label} failed for job`, job.id, e);
+        updateVariant(job.id, set.label, { status: JobStatus.ERROR, error: e.message || 'Remix failed' });
       }
-    }));
+    })));
 
     setIsRemixing(false);
-    setGlobalEditedHtml(null); // Reset global edit
   };
 
   const handleSolveAll = async () => {
@@ -271,16 +609,34 @@ const App: React.FC = () => {
       return;
     }
 
+    const promptVariant = getActivePromptVariant();
+
     await Promise.all(completedJobs.map(async (job) => {
+      const signal = getJobSignal(job.id);
       try {
         // If solution already exists, skip unless forced? For now, re-generate.
-        setJobs(prev => prev.map(j => j.id === job.id ? { ...j, status: JobStatus.PROCESSING } : j));
-        const solutionHtml = await generateSolutionFromHtml(job.resultHtml!);
+        const rawSolution = await runQueued(job.id, () => generateSolutionFromHtml(job.resultHtml!, { mathMode, promptVariant, jobId: job.id, label: job.file.name, signal }), signal);
+        const { html: solutionHtml, removed } = sanitizeHtml(rawSolution);
         setJobs(prev => prev.map(j => 
           j.id === job.id 
-            ? { ...j, status: JobStatus.COMPLETED, solutionHtml: solutionHtml } 
+            ? {
+                ...j,
+                status: JobStatus.COMPLETED,
+                solutionHtml: solutionHtml,
+                markingSchemeHtml: undefined,
+                sanitizerReport: [
+                  ...(j.sanitizerReport || []).filter(r => !r.startsWith('solution: ')),
+                  ...removed.map(r => `solution: ${r}`)
+                ]
+              } 
             : j
         ));
+
+        if (includeMarkingScheme) {
+          const rawScheme = await runQueued(job.id, () => generateMarkingScheme(job.resultHtml!, solutionHtml, { mathMode, promptVariant, jobId: job.id, label: job.file.name, signal }), signal);
+          const markingSchemeHtml = sanitizeHtml(rawScheme).html;
+          setJobs(prev => prev.map(j => j.id === job.id ? { ...j, status: JobStatus.COMPLETED, markingSchemeHtml } : j));
+        }
       } catch (e) {
         console.error("Solution generation failed for job", job.id, e);
         // Fallback status to COMPLETED so it doesn't stay stuck
@@ -288,12 +644,219 @@ const App: React.FC = () => {
       }
     }));
 
+    // Each remixed set gets its own answer key
+    await Promise.all(completedJobs.flatMap(job => (job.variants || [])
+      .filter(v => v.status === JobStatus.COMPLETED && v.resultHtml)
+      .map(async (variant) => {
+        const signal = getJobSignal(job.id);
+        try {
+          const rawSolution = await getQueue().add(() => generateSolutionFromHtml(variant.resultHtml!, { mathMode, promptVariant, jobId: job.id, label: job.file.name, signal }), { signal });
+          const solutionHtml = sanitizeHtml(rawSolution).html;
+          updateVariant(job.id, variant.label, { solutionHtml, markingSchemeHtml: undefined });
+
+          if (includeMarkingScheme) {
+            const rawScheme = await getQueue().add(() => generateMarkingScheme(variant.resultHtml!, solutionHtml, { mathMode, promptVariant, jobId: job.id, label: job.file.name, signal }), { signal });
+            updateVariant(job.id, variant.label, { markingSchemeHtml: sanitizeHtml(rawScheme).html });
+          }
+        } catch (e) {
+          console.error(`Solution generation failed for set ${variant.label} of job`, job.id, e);
+        }
+      })
+    ));
+
     setIsSolving(false);
   };
 
+  // Translates the original pages and every remixed set; the source HTML is kept as-is
+  const handleTranslateAll = async () => {
+    setIsTranslating(true);
+    const completedJobs = jobs.filter(j => j.status === JobStatus.COMPLETED && j.resultHtml);
+
+    if (completedJobs.length === 0) {
+      setIsTranslating(false);
+      return;
+    }
+
+    const promptVariant = getActivePromptVariant();
+    const { language } = translationSettings;
+
+    await Promise.all(completedJobs.map(async (job) => {
+      const signal = getJobSignal(job.id);
+      try {
+        const rawHtml = await runQueued(job.id, () => translateHtmlContent(job.resultHtml!, language, { mathMode, promptVariant, jobId: job.id, label: job.file.name, signal }), signal);
+        const { html, removed } = sanitizeHtml(rawHtml);
+        setJobs(prev => prev.map(j =>
+          j.id === job.id
+            ? {
+                ...j,
+                status: JobStatus.COMPLETED,
+                translatedHtml: html,
+                translationLanguage: language,
+                sanitizerReport: [
+                  ...(j.sanitizerReport || []).filter(r => !r.startsWith('translation: ')),
+                  ...removed.map(r => `translation: ${r}`)
+                ]
+              }
+            : j
+        ));
+      } catch (e) {
+        console.error("Translation failed for job", job.id, e);
+        // The original page is still usable, so the job goes back to COMPLETED
+        setJobs(prev => prev.map(j => j.id === job.id ? { ...j, status: JobStatus.COMPLETED } : j));
+      }
+    }));
+
+    await Promise.all(completedJobs.flatMap(job => (job.variants || [])
+      .filter(v => v.status === JobStatus.COMPLETED && v.resultHtml)
+      .map(async (variant) => {
+        const signal = getJobSignal(job.id);
+        try {
+          const rawHtml = await getQueue().add(() => translateHtmlContent(variant.resultHtml!, language, { mathMode, promptVariant, jobId: job.id, label: job.file.name, signal }), { signal });
+          updateVariant(job.id, variant.label, { translatedHtml: sanitizeHtml(rawHtml).html, translationLanguage: language });
+        } catch (e) {
+          console.error(`Translation failed for set ${variant.label} of job`, job.id, e);
+        }
+      })
+    ));
+
+    setIsTranslating(false);
+    setGlobalEditedHtml(null);
+  };
+
+  const handleTranslationSettingsChange = (settings: TranslationSettings) => {
+    setTranslationSettings(settings);
+    localStorage.setItem('snap2print_translation_settings', JSON.stringify(settings));
+    if (headerLanguage) setHeaderLanguage(settings.language);
+    setGlobalEditedHtml(null);
+  };
+
+  const handleShuffleSettingsChange = (settings: ShuffleSettings) => {
+    setShuffleSettings(settings);
+    localStorage.setItem('snap2print_shuffle_settings', JSON.stringify(settings));
+  };
+
+  const handleVerifyRemixChange = (enabled: boolean) => {
+    setVerifyRemix(enabled);
+    localStorage.setItem('snap2print_verify_remix', String(enabled));
+  };
+
+  const handleRemixSetsChange = (sets: RemixSet[]) => {
+    setRemixSets(sets);
+    localStorage.setItem('snap2print_remix_sets', JSON.stringify(sets));
+  };
+
+  const handleQueueSettingsChange = (settings: QueueSettings) => {
+    setQueueSettings(settings);
+    localStorage.setItem('snap2print_queue_settings', JSON.stringify(settings));
+    getQueue().updateSettings(settings);
+  };
+
+  const handleFidelitySettingsChange = (settings: FidelitySettings) => {
+    setFidelitySettings(settings);
+    localStorage.setItem('snap2print_fidelity_settings', JSON.stringify(settings));
+  };
+
+  const handleOmrSettingsChange = (settings: OmrSettings) => {
+    setOmrSettings(settings);
+    localStorage.setItem('snap2print_omr_settings', JSON.stringify(settings));
+  };
+
+  const handleDuplicateThresholdChange = (threshold: number) => {
+    setDuplicateThreshold(threshold);
+    localStorage.setItem('snap2print_duplicate_threshold', String(threshold));
+  };
+
+  const handleQueuePauseToggle = () => {
+    const queue = getQueue();
+    if (queue.isPaused()) {
+      queue.resume();
+    } else {
+      queue.pause();
+    }
+    setIsQueuePaused(queue.isPaused());
+  };
+
+  // Renumber questions 1..N across all structured pages, in page order; answer keys in the solutions follow.
+  // The examiner copy and remixed sets cite the old numbers, so they are cleared for regeneration.
+  const handleRenumberQuestions = () => {
+    const structuredJobs = jobs.filter(j => j.status === JobStatus.COMPLETED && j.document);
+    if (structuredJobs.length === 0) return;
+
+    const renumbered = renumberDocuments(structuredJobs.map(j => j.document!));
+    const byId = new Map<string, PaperDocument>(structuredJobs.map((j, i) => [j.id, renumbered[i]]));
+
+    setJobs(prev => prev.map(j => {
+      const document = byId.get(j.id);
+      if (!document || !j.document) return j;
+      const newNumbers = getAllQuestions(document).map(q => q.number);
+      const numbers = new Map(getAllQuestions(j.document).map((q, i) => [q.number, newNumbers[i]]));
+      return {
+        ...j,
+        document,
+        resultHtml: sanitizeHtml(renderPaperDocument(document)).html,
+        solutionHtml: j.solutionHtml ? renumberAnswerKeys(j.solutionHtml, numbers) : undefined,
+        markingSchemeHtml: undefined,
+        variants: undefined,
+        translatedHtml: undefined,
+        translationLanguage: undefined,
+      };
+    }));
+    setGlobalEditedHtml(null);
+  };
+
+  // Removes the dropped copies of duplicate questions from their pages, together with their solutions.
+  // The examiner copy and remixed sets were made from the old page, so they are cleared for regeneration.
+  const handleDropDuplicates = (removals: DuplicateCandidate[]) => {
+    setJobs(prev => prev.map(j => {
+      const dropIds = new Set(removals.filter(r => r.jobId === j.id).map(r => r.questionId));
+      if (!j.document || dropIds.size === 0) return j;
+
+      const questions = getAllQuestions(j.document);
+      const dropped = new Set(questions.map((q, i) => dropIds.has(q.id) ? i : -1).filter(i => i >= 0));
+      const document: PaperDocument = {
+        ...j.document,
+        sections: j.document.sections.map(section => ({ ...section, questions: section.questions.filter(q => !dropIds.has(q.id)) })),
+      };
+      return {
+        ...j,
+        document,
+        resultHtml: sanitizeHtml(renderPaperDocument(document)).html,
+        solutionHtml: j.solutionHtml ? removeSolutionBlocks(j.solutionHtml, questions.map(q => q.number), dropped) : undefined,
+        markingSchemeHtml: undefined,
+        variants: undefined,
+        translatedHtml: undefined,
+        translationLanguage: undefined,
+      };
+    }));
+    setGlobalEditedHtml(null);
+  };
+
+  // A paper assembled from the question bank becomes a completed page, ready for preview and export
+  const handleAddAssembledPaper = (paper: AssembledPaper, title: string) => {
+    // Bank questions carry model-generated HTML, so the page is sanitized like any other converted page
+    const { html: resultHtml, removed } = sanitizeHtml(renderPaperDocument(paper.document));
+    const escapedTitle = title.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+    // There is no scanned original, so the thumbnail is a small title card
+    const thumbnail = `<svg xmlns="http://www.w3.org/2000/svg" width="160" height="160"><rect width="160" height="160" fill="#eef2ff"/><text x="80" y="72" font-family="Arial" font-size="14" font-weight="bold" fill="#3730a3" text-anchor="middle">${escapedTitle.substring(0, 18)}</text><text x="80" y="96" font-family="Arial" font-size="12" fill="#6366f1" text-anchor="middle">${paper.questionIds.length} questions</text></svg>`;
+    const job: ImageJob = {
+      id: Math.random().toString(36).substring(7),
+      file: new File([resultHtml], `${title}.html`, { type: 'text/html' }),
+      previewUrl: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(thumbnail)}`,
+      status: JobStatus.COMPLETED,
+      document: paper.document,
+      resultHtml,
+      solutionHtml: paper.solutionHtml && cleanHtml(paper.solutionHtml),
+      sanitizerReport: removed,
+    };
+    setJobs(prev => [...prev, job]);
+    setGlobalEditedHtml(null);
+  };
 
   // Function to save edited HTML from Preview Modal
   const handleUpdateJobHtml = (id: string, newHtml: string) => {
+    // Edits come from a contentEditable area, where pasted content can carry scripts too
+    newHtml = cleanHtml(newHtml);
+
     if (id === 'GLOBAL') {
         setGlobalEditedHtml(newHtml);
         setPreviewJobId(null);
@@ -301,9 +864,19 @@ const App: React.FC = () => {
         return;
     }
 
+    const [jobId, setLabel] = id.split('#');
+    if (setLabel) {
+        // Edits to a remixed set never touch the original page
+        updateVariant(jobId, setLabel, { resultHtml: newHtml, solutionHtml: undefined, markingSchemeHtml: undefined, translatedHtml: undefined, document: undefined, verification: undefined });
+        setPreviewJobId(null);
+        setPreviewContent(null);
+        return;
+    }
+
     setJobs(prev => prev.map(j => 
         j.id === id 
-        ? { ...j, resultHtml: newHtml, solutionHtml: undefined } // clear solution if question changes
+        // clear solution if question changes, and drop the structured model since it no longer matches the edited HTML
+        ? { ...j, resultHtml: newHtml, solutionHtml: undefined, markingSchemeHtml: undefined, translatedHtml: undefined, document: undefined, fidelity: undefined }
         : j
     ));
     setPreviewJobId(null);
@@ -312,25 +885,37 @@ const App: React.FC = () => {
     setGlobalEditedHtml(null);
   };
 
-  const handleOpenPreview = (jobId: string) => {
+  // Remixed sets are previewed under "<jobId>#<set label>"
+  const handleOpenPreview = (jobId: string, setLabel?: string) => {
     const job = jobs.find(j => j.id === jobId);
-    if (job && job.resultHtml) {
-        setPreviewJobId(jobId);
-        setPreviewContent(job.resultHtml);
+    const page = setLabel ? job?.variants?.find(v => v.label === setLabel) : job;
+    if (page && page.resultHtml) {
+        setPreviewJobId(setLabel ? `${jobId}#${setLabel}` : jobId);
+        setPreviewContent(page.resultHtml);
     }
   };
 
   // Fixed Template Generation function
-  const generateHeaderHtml = (isWord: boolean, isSolution: boolean = false) => {
+  const generateHeaderHtml = (isWord: boolean, isSolution: boolean = false, setLabel?: string) => {
     if (!headerConfig.enabled) {
         return '';
     }
 
-    const { logoText, logoSubText, courseName, seriesName, marksTime, subjectTitle, instruction1, instruction2, fontFamily } = headerConfig;
+    // Solutions are not translated, so their header stays in the primary language
+    const { output, language } = translationSettings;
+    const text = (key: HeaderTextField) => {
+      const translated = headerConfig.translations[language]?.[key];
+      if (isSolution || output === 'original' || !translated) return headerConfig[key];
+      return output === 'translated' ? translated : `${headerConfig[key]}<br>${translated}`;
+    };
+    const [logoText, logoSubText, courseName, seriesName, marksTime, subjectTitle, instruction1, instruction2] =
+      (['logoText', 'logoSubText', 'courseName', 'seriesName', 'marksTime', 'subjectTitle', 'instruction1', 'instruction2'] as HeaderTextField[]).map(text);
+    const { fontFamily } = headerConfig;
     const style = `font-family: ${fontFamily};`;
     
-    // Append SOLUTIONS to subject title if it is a solution document
-    const finalSubjectTitle = isSolution ? `${subjectTitle} (SOLUTIONS)` : subjectTitle;
+    // Label remixed sets, and append SOLUTIONS to subject title if it is a solution document
+    const setTitle = setLabel ? `${subjectTitle} - SET ${setLabel}` : subjectTitle;
+    const finalSubjectTitle = isSolution ? `${setTitle} (SOLUTIONS)` : setTitle;
 
     return `
     <div style="${style} max-width: 900px; margin: 0 auto; background: white; padding: 20px 0;">
@@ -374,20 +959,45 @@ const App: React.FC = () => {
     `;
   };
 
-  const generateFullBodyContent = () => {
+  // The question HTML of a page in the selected print language; pages without a matching translation stay in the original
+  const localizePage = (page: { resultHtml: string; translatedHtml?: string; translationLanguage?: string }) => {
+    const { output, language } = translationSettings;
+    if (output === 'original' || !page.translatedHtml || page.translationLanguage !== language) return page.resultHtml;
+    return output === 'translated' ? page.translatedHtml : buildBilingualHtml(page.resultHtml, page.translatedHtml, output);
+  };
+
+  // Pages of the original paper, or of one remixed set. `document` is the structured model of the
+  // returned HTML; translated and bilingual pages have none, since the model is in the source language.
+  const getPaperPages = (setLabel?: string): { job: ImageJob; resultHtml: string; document?: PaperDocument; solutionHtml?: string; markingSchemeHtml?: string }[] =>
+    jobs
+      .filter(j => j.status === JobStatus.COMPLETED && j.resultHtml)
+      .flatMap(job => {
+        const page = setLabel ? job.variants?.find(v => v.label === setLabel && v.status === JobStatus.COMPLETED) : job;
+        if (!page?.resultHtml) return [];
+        const resultHtml = localizePage({ ...page, resultHtml: page.resultHtml });
+        return [{
+          job,
+          resultHtml,
+          document: resultHtml === page.resultHtml ? page.document : undefined,
+          solutionHtml: page.solutionHtml,
+          markingSchemeHtml: page.markingSchemeHtml,
+        }];
+      });
+
+  const generateFullBodyContent = (setLabel?: string) => {
     // Generates the raw HTML content (divs) without the <html> wrapper
-    const completedJobs = jobs.filter(j => j.status === JobStatus.COMPLETED && j.resultHtml);
-    if (completedJobs.length === 0) return '';
+    const pages = getPaperPages(setLabel);
+    if (pages.length === 0) return '';
 
-    const headerHtml = generateHeaderHtml(false);
+    const headerHtml = generateHeaderHtml(false, false, setLabel);
     const selectedFont = headerConfig.fontFamily;
     const isHeaderEnabled = headerConfig.enabled;
 
-    return completedJobs.map((job, index) => `
+    return pages.map((page, index) => `
     <div class="page-break-wrapper" style="break-after: page; page-break-after: always; margin-bottom: 30px;">
         ${index === 0 ? headerHtml : ''}
         <div style="${isHeaderEnabled ? `font-family: ${selectedFont};` : ''}">
-            ${job.resultHtml}
+            ${cleanHtml(page.resultHtml)}
         </div>
     </div>
     `).join('');
@@ -407,7 +1017,8 @@ const App: React.FC = () => {
     if (completedJobs.length === 0) return;
 
     // Use global override if exists, otherwise generate
-    const bodyContent = globalEditedHtml || generateFullBodyContent();
+    // MathML needs no stylesheet or fonts, so the file stays self-contained
+    const bodyContent = renderMathInHtml(globalEditedHtml ? cleanHtml(globalEditedHtml) : generateFullBodyContent(), 'mathml');
     const selectedFont = headerConfig.fontFamily;
     const isHeaderEnabled = headerConfig.enabled;
 
@@ -476,92 +1087,43 @@ const App: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
+  // Native .docx: the exam header becomes the Word header of the first page, and every converted page starts a new page
   const handleDownloadWord = () => {
-    // Note: Word export is complex with global edits because styling is tricky.
-    // We will attempt to use the bodyContent, but if it has Tailwind classes, Word might ignore them.
-    // The Gemini service tries to add inline styles, so it should be okay.
-    
-    const completedJobs = jobs.filter(j => j.status === JobStatus.COMPLETED && j.resultHtml);
-    if (completedJobs.length === 0) return;
-
-    const selectedFont = headerConfig.fontFamily;
-    const isHeaderEnabled = headerConfig.enabled;
-
-    const fontStyles = isHeaderEnabled ? `
-      body { font-family: ${selectedFont}; }
-      table { border-collapse: collapse; width: 100%; font-family: ${selectedFont}; }
-      td, th { border: 1px solid #ddd; padding: 8px; font-family: ${selectedFont}; }
-      * { font-family: ${selectedFont}; }
-    ` : `
-      body { font-family: Arial, sans-serif; }
-      table { border-collapse: collapse; width: 100%; }
-      td, th { border: 1px solid #ddd; padding: 8px; }
-    `;
-
-    // Use global edit or default generation
-    // For Word, we might need to regenerate if globalEdit used the web-specific structure, 
-    // but for simplicity we assume the user's edits are paramount.
-    let content = globalEditedHtml;
-    
-    if (!content) {
-        // Fallback to generating word-specific structure if no global edits
-        const wordPageBreak = "<br clear=all style='mso-special-character:line-break;page-break-before:always'>";
-        const headerHtml = generateHeaderHtml(true);
-        content = completedJobs.map((job, index) => `
-          <div class="WordSection" ${isHeaderEnabled ? `style="font-family: ${selectedFont};"` : ''}>
-            ${index === 0 ? headerHtml : ''}
-            <div ${isHeaderEnabled ? `style="font-family: ${selectedFont};"` : ''}>
-               ${job.resultHtml}
-            </div>
-          </div>
-          ${index < completedJobs.length - 1 ? wordPageBreak : ''}
-        `).join('');
-    }
-
-    const preHtml = `<html xmlns:o='urn:schemas-microsoft-com:office:office' xmlns:w='urn:schemas-microsoft-com:office:word' xmlns='http://www.w3.org/TR/REC-html40'><head><meta charset='utf-8'><title>Export HTML To Doc</title>
-    <style>
-      ${fontStyles}
-      .page-break { page-break-after: always; }
-    </style>
-    </head><body>`;
-    
-    const postHtml = "</body></html>";
-    const html = preHtml + content + postHtml;
-
-    const blob = new Blob(['\ufeff', html], { type: 'application/msword' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'document.doc';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    const pages = getPaperPages();
+    if (pages.length === 0) return;
+
+    // Edits from the global preview already contain the header
+    const bodyHtml = globalEditedHtml
+      ? cleanHtml(globalEditedHtml)
+      : pages.map(page => `<div style="page-break-after: always;">${cleanHtml(page.resultHtml)}</div>`).join('');
+
+    // Word turns MathML into editable equations
+    const blob = buildDocx({
+      bodyHtml: renderMathInHtml(bodyHtml, 'mathml'),
+      firstPageHeaderHtml: (!globalEditedHtml && generateHeaderHtml(true)) || undefined,
+      fontFamily: headerConfig.enabled ? headerConfig.fontFamily : undefined,
+      pageNumbers: true,
+    });
+    downloadBlob(blob, 'document.docx');
   };
 
-  const handleDownloadPdf = () => {
-    const completedJobs = jobs.filter(j => j.status === JobStatus.COMPLETED && j.resultHtml);
-    if (completedJobs.length === 0) return;
-
-    // Use global override if exists
-    const bodyContent = globalEditedHtml || generateFullBodyContent();
-    const selectedFont = headerConfig.fontFamily;
-    const isHeaderEnabled = headerConfig.enabled;
-
+  // Renders print HTML into an A4 PDF with html2pdf
+  const savePdf = (bodyContent: string, filename: string) => {
     const element = document.createElement('div');
     element.style.width = '210mm'; 
     element.style.padding = '10mm';
     element.style.backgroundColor = 'white';
-    if (isHeaderEnabled) {
-       element.style.fontFamily = selectedFont;
+    if (headerConfig.enabled) {
+       element.style.fontFamily = headerConfig.fontFamily;
     }
     
     // Inject content
-    element.innerHTML = bodyContent;
+    // html2canvas can't draw MathML; KaTeX's HTML output uses the stylesheet already loaded in the app
+    element.innerHTML = renderMathInHtml(bodyContent, 'html');
 
     const opt = {
       margin: 10,
-      filename: 'document.pdf',
+      filename,
       image: { type: 'jpeg', quality: 0.98 },
       html2canvas: { scale: 2, useCORS: true },
       jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' }
@@ -576,22 +1138,182 @@ const App: React.FC = () => {
     }
   };
 
-  const handleDownloadSolutionPdf = () => {
-    const completedJobs = jobs.filter(j => j.status === JobStatus.COMPLETED && j.solutionHtml);
-    if (completedJobs.length === 0) return;
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  // Offline quiz for phones: structured pages get clickable options, scored against the solutions' answer keys.
+  // Pages in the selected print language; translated pages are shown as they are, without clickable options.
+  const handleDownloadQuiz = () => {
+    const pages = getPaperPages();
+    if (pages.length === 0) return;
+    const html = buildQuizHtml(
+      pages.map(page => ({
+        document: page.document,
+        html: cleanHtml(page.resultHtml),
+        solutionHtml: page.solutionHtml,
+      })),
+      {
+        title: headerConfig.subjectTitle,
+        headerHtml: generateHeaderHtml(false),
+        durationMinutes: parseDurationMinutes(headerConfig.marksTime),
+      }
+    );
+    downloadBlob(new Blob([html], { type: 'text/html' }), 'quiz.html');
+  };
 
-    const headerHtml = generateHeaderHtml(false, true); // true for isSolution
+  // .tex (exam class) or Markdown source of the paper and its solutions; cropped figures come along in a zip
+  const handleExportSource = (format: SourceFormat) => {
+    const pages = getPaperPages();
+    if (pages.length === 0) return;
+    const header = headerConfig.enabled ? headerConfig : undefined;
+    const { text, figures } = (format === 'latex' ? buildLatex : buildMarkdown)(
+      pages.map(page => ({ document: page.document, html: cleanHtml(page.resultHtml), solutionHtml: page.solutionHtml })),
+      header
+    );
+    const filename = format === 'latex' ? 'paper.tex' : 'paper.md';
+    if (figures.length === 0) {
+      downloadBlob(new Blob([text], { type: format === 'latex' ? 'application/x-tex' : 'text/markdown' }), filename);
+    } else {
+      downloadBlob(createZip([{ name: filename, data: text }, ...figures]), `paper-${format}.zip`);
+    }
+  };
+
+  const getLmsPages = () =>
+    getPaperPages()
+      .filter(page => page.job.document)
+      .map(page => ({ document: page.job.document!, solutionHtml: page.solutionHtml }));
+
+  // Question-bank imports for Moodle and other LMSs; the subject title names the category
+  const handleExportLms = (format: LmsFormat) => {
+    const collection = collectLmsQuestions(getLmsPages());
+    if (collection.questions.length === 0) return;
+    const category = headerConfig.subjectTitle.trim() || 'Snap2Print';
+    if (format === 'moodle') {
+      downloadBlob(new Blob([buildMoodleXml(collection, category)], { type: 'application/xml' }), 'questions-moodle.xml');
+    } else if (format === 'qti') {
+      downloadBlob(buildQtiPackage(collection, category), 'questions-qti21.zip');
+    } else {
+      downloadBlob(new Blob([buildGift(collection, category)], { type: 'text/plain' }), 'questions-gift.txt');
+    }
+  };
+
+  // Without a set label this downloads the original paper
+  const handleDownloadPdf = (setLabel?: string) => {
+    if (getPaperPages(setLabel).length === 0) return;
+
+    if (setLabel) {
+      const failedChecks = jobs.reduce((sum, j) => sum + (j.variants?.find(v => v.label === setLabel)?.verification?.failed || 0), 0);
+      if (failedChecks > 0 && !window.confirm(`Set ${setLabel} has ${failedChecks} number check(s) that did not add up. Download it anyway?`)) {
+        return;
+      }
+    }
+
+    // Use global override if exists. It is an edit of the original paper, so it never applies to sets.
+    const bodyContent = globalEditedHtml && !setLabel ? cleanHtml(globalEditedHtml) : generateFullBodyContent(setLabel);
+    savePdf(bodyContent, setLabel ? `set-${setLabel.toLowerCase()}.pdf` : 'document.pdf');
+  };
+
+  // Seat-wise sets, shuffled locally. Every page of a set uses seeds derived from the set's own seed.
+  const getShuffledSets = () => {
+    const pages = jobs.filter(j => j.status === JobStatus.COMPLETED && j.resultHtml);
+    const { baseSeed, count, reprintSeed } = shuffleSettings;
+    const seeds = deriveSetSeeds(baseSeed, count);
+    const selected = reprintSeed !== undefined ? [reprintSeed] : seeds;
+    return selected.map(seed => {
+      // A reprinted set keeps its set number when it belongs to the current base seed; otherwise only its seed names it
+      const index = seeds.indexOf(seed);
+      const results = pages.map((job, pageIndex) => job.document
+        ? shuffleDocument(job.document, seed + pageIndex * 7919, parseAnswerKey(job.solutionHtml), shuffleSettings)
+        : undefined
+      );
+      return {
+        number: index >= 0 ? index + 1 : undefined,
+        seed,
+        // Free-form pages have no question model to shuffle and are printed as they are
+        pagesHtml: pages.map((job, i) => results[i] ? renderPaperDocument(results[i]!.document) : job.resultHtml!),
+        answerKey: results.flatMap(r => r?.answerKey || []),
+      };
+    });
+  };
+
+  const getShuffledSetName = (set: { number?: number; seed: number }) =>
+    set.number !== undefined ? `Set ${set.number} &middot; Seed ${set.seed}` : `Seed ${set.seed}`;
+
+  const handleDownloadShuffledSets = () => {
+    const sets = getShuffledSets();
+    if (sets.length === 0 || sets[0].pagesHtml.length === 0) return;
+    const fontStyle = headerConfig.enabled ? `font-family: ${headerConfig.fontFamily};` : '';
+
+    const bodyContent = sets.map(set => set.pagesHtml.map((html, index) => `
+    <div class="page-break-wrapper" style="break-after: page; page-break-after: always; margin-bottom: 30px;">
+        <div style="text-align: right; font-size: 10px; color: #4b5563;">${getShuffledSetName(set)}</div>
+        ${index === 0 ? generateHeaderHtml(false, false, `${set.number ?? ''} (SEED ${set.seed})`.trim()) : ''}
+        <div style="${fontStyle}">
+            ${cleanHtml(html)}
+        </div>
+    </div>
+    `).join('')).join('');
+
+    savePdf(bodyContent, `shuffled-sets-seed-${shuffleSettings.baseSeed}.pdf`);
+  };
+
+  const handleDownloadShuffledKeys = () => {
+    const sets = getShuffledSets();
+    if (sets.every(set => set.answerKey.length === 0)) return;
+
+    const bodyContent = `
+    ${generateHeaderHtml(false, true)}
+    <div style="text-align: center; font-weight: bold; font-size: 14px; letter-spacing: 1px; margin: 10px 0 20px 0;">SEAT-WISE ANSWER KEYS (BASE SEED ${shuffleSettings.baseSeed})</div>
+    ${sets.map(set => `
+    <div style="margin-bottom: 24px; page-break-inside: avoid;">
+        <div style="font-weight: bold; font-size: 16px; margin-bottom: 6px;">${getShuffledSetName(set)}</div>
+        ${renderAnswerKeyTable(set.answerKey)}
+    </div>
+    `).join('')}`;
+
+    savePdf(bodyContent, `shuffled-answer-keys-seed-${shuffleSettings.baseSeed}.pdf`);
+  };
+
+  const getOmrPaperQuestions = () =>
+    getOmrQuestions(jobs.filter(j => j.status === JobStatus.COMPLETED && j.document).map(j => j.document!));
+
+  // Bubble sheet matched to the MCQs of the paper, with the header's branding
+  const handleDownloadOmrSheet = () => {
+    const questions = getOmrPaperQuestions();
+    if (questions.length === 0) return;
+    const { logoText, logoSubText, courseName, seriesName, subjectTitle } = headerConfig;
+    const branding = headerConfig.enabled ? { logoText, logoSubText, courseName, seriesName, subjectTitle } : undefined;
+    savePdf(renderOmrSheets(questions, omrSettings, branding), 'omr-sheet.pdf');
+  };
+
+  // Solutions and the examiner's copy: the solution header, then every page's content under its source file
+  // name in one continuous stream, without a page break per job. `kind` names the section and block classes.
+  const saveAnswerPdf = (
+    setLabel: string | undefined,
+    sections: { job: ImageJob; html: string }[],
+    kind: 'solution' | 'marking',
+    filename: string,
+    bannerHtml: string = ''
+  ) => {
+    const headerHtml = generateHeaderHtml(false, true, setLabel); // true for isSolution
     const selectedFont = headerConfig.fontFamily;
     const isHeaderEnabled = headerConfig.enabled;
 
-    // Aggregate solutions securely into a continuous stream, avoiding page breaks per job
-    const bodyContent = completedJobs.map((job, index) => `
-    <div class="solution-section" style="margin-bottom: 30px;">
+    const bodyContent = sections.map(({ job, html }) => `
+    <div class="${kind}-section" style="margin-bottom: 30px;">
         <div style="background: #374151; color: #fff; padding: 4px 10px; font-size: 12px; font-weight: bold; margin-bottom: 15px; display: inline-block; border-radius: 4px; text-transform: uppercase; letter-spacing: 0.5px;">
            Source File: ${job.file.name}
         </div>
         <div style="${isHeaderEnabled ? `font-family: ${selectedFont};` : ''}">
-            ${job.solutionHtml}
+            ${cleanHtml(html)}
         </div>
     </div>
     `).join('');
@@ -605,21 +1327,22 @@ const App: React.FC = () => {
     }
     
     // Inject header and content
-    // We add specific styles for solution blocks to avoid breaking inside them
+    // We add specific styles for solution and marking blocks to avoid breaking inside them
     element.innerHTML = `
       <style>
-        .solution-block { page-break-inside: avoid; }
+        .${kind}-block { page-break-inside: avoid; }
         table { width: 100%; border-collapse: collapse; }
       </style>
       ${headerHtml}
+      ${bannerHtml}
       <div style="margin-top: 20px;">
-         ${bodyContent}
+         ${renderMathInHtml(bodyContent, 'html')}
       </div>
     `;
 
     const opt = {
       margin: 10,
-      filename: 'detailed-solutions.pdf',
+      filename: setLabel ? `set-${setLabel.toLowerCase()}-${filename}` : filename,
       image: { type: 'jpeg', quality: 0.98 },
       html2canvas: { scale: 2, useCORS: true },
       jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' },
@@ -635,9 +1358,81 @@ const App: React.FC = () => {
     }
   };
 
+  const handleDownloadSolutionPdf = (setLabel?: string) => {
+    const solvedPages = getPaperPages(setLabel).filter(p => p.solutionHtml);
+    if (solvedPages.length === 0) return;
+    const sections = solvedPages.map(({ job, solutionHtml }) => ({ job, html: solutionHtml! }));
+    saveAnswerPdf(setLabel, sections, 'solution', setLabel ? 'solutions.pdf' : 'detailed-solutions.pdf');
+  };
+
+  // Examiner's Copy: the solution header followed by the marking scheme of every page
+  const handleDownloadExaminerPdf = (setLabel?: string) => {
+    const markedPages = getPaperPages(setLabel).filter(p => p.markingSchemeHtml);
+    if (markedPages.length === 0) return;
+    const sections = markedPages.map(({ job, markingSchemeHtml }) => ({ job, html: markingSchemeHtml! }));
+    const banner = `
+      <div style="border: 2px solid #b45309; color: #b45309; text-align: center; padding: 6px; margin-top: 15px; font-weight: bold; letter-spacing: 2px;">
+         EXAMINER'S COPY - MARKING SCHEME - CONFIDENTIAL
+      </div>`;
+    saveAnswerPdf(setLabel, sections, 'marking', 'examiners-copy.pdf', banner);
+  };
+
   const completedCount = jobs.filter(j => j.status === JobStatus.COMPLETED).length;
+  const shuffleSummary: ShuffleSummary = jobs
+    .filter(j => j.status === JobStatus.COMPLETED && j.resultHtml)
+    .reduce((summary, job) => {
+      if (!job.document) return { ...summary, freeFormPages: summary.freeFormPages + 1 };
+      const answers = parseAnswerKey(job.solutionHtml);
+      const mcqs = job.document.sections.flatMap(s => s.questions).filter(q => (q.options?.length || 0) > 1);
+      return {
+        ...summary,
+        structuredPages: summary.structuredPages + 1,
+        mcqs: summary.mcqs + mcqs.length,
+        answered: summary.answered + mcqs.filter(q => answers.has(normalizeQuestionNumber(q.number))).length,
+      };
+    }, { structuredPages: 0, freeFormPages: 0, mcqs: 0, answered: 0 });
+  const omrQuestions = getOmrPaperQuestions();
+  const omrSummary: OmrSummary = {
+    mcqs: omrQuestions.length,
+    optionLetters: Array.from(new Set<string>(omrQuestions.flatMap(q => q.options))).sort(),
+    freeFormPages: shuffleSummary.freeFormPages,
+  };
+  const lmsCollection = collectLmsQuestions(getLmsPages());
+  const lmsSummary: LmsSummary = {
+    questions: lmsCollection.questions.length,
+    mcqs: lmsCollection.questions.filter(q => q.choices).length,
+    skipped: lmsCollection.skipped.length,
+    freeFormPages: shuffleSummary.freeFormPages,
+  };
+  const duplicateCandidates: DuplicateCandidate[] = jobs
+    .filter(j => j.status === JobStatus.COMPLETED && j.document)
+    .flatMap(j => getAllQuestions(j.document!).map(question => ({
+      jobId: j.id,
+      questionId: question.id,
+      number: question.number,
+      source: j.file.name,
+      question,
+    })));
+  const duplicateClusters = findDuplicateClusters(duplicateCandidates, duplicateThreshold);
+  const translatedCount = jobs.filter(j => j.status === JobStatus.COMPLETED && j.translatedHtml && j.translationLanguage === translationSettings.language).length;
   const solutionsCount = jobs.filter(j => j.status === JobStatus.COMPLETED && j.solutionHtml).length;
+  const markingSchemeCount = jobs.filter(j => j.status === JobStatus.COMPLETED && j.markingSchemeHtml).length;
+  const structuredCount = jobs.filter(j => j.status === JobStatus.COMPLETED && j.document).length;
   const croppingJob = jobs.find(j => j.id === croppingJobId);
+  const fidelityJob = jobs.find(j => j.id === fidelityJobId);
+  const bankJob = jobs.find(j => j.id === bankJobId);
+  const remixSetSummaries: RemixSetSummary[] = Array.from(
+    new Set<string>(jobs.flatMap(j => (j.variants || []).map(v => v.label)))
+  ).sort().map(label => {
+    const pages = getPaperPages(label);
+    return {
+      label,
+      pages: pages.length,
+      solved: pages.filter(p => p.solutionHtml).length,
+      marked: pages.filter(p => p.markingSchemeHtml).length,
+      failedChecks: jobs.reduce((sum, j) => sum + (j.variants?.find(v => v.label === label)?.verification?.failed || 0), 0),
+    };
+  }).filter(summary => summary.pages > 0);
 
   return (
     <div className="min-h-screen flex flex-col bg-slate-50 text-slate-900 font-sans">
@@ -665,14 +1460,14 @@ const App: React.FC = () => {
             </div>
             <h2 className="text-2xl font-bold text-slate-800 mb-2">Paste images or Upload</h2>
             <p className="text-slate-500 max-w-md mx-auto mb-8">
-              Press <span className="font-mono bg-slate-200 px-1 rounded">Ctrl+V</span> to paste images directly, or click below to upload.
+              Press <span className="font-mono bg-slate-200 px-1 rounded">Ctrl+V</span> to paste images directly, or click below to upload images or scanned PDFs.
             </p>
             <button 
               onClick={() => fileInputRef.current?.click()}
               className="inline-flex items-center gap-2 px-6 py-3 bg-brand-600 text-white rounded-full font-medium hover:bg-brand-700 transition-all shadow-lg shadow-brand-500/20 active:scale-95"
             >
               <Upload className="w-5 h-5" />
-              Select Images
+              Select Images or PDFs
             </button>
           </div>
         )}
@@ -699,8 +1494,13 @@ const App: React.FC = () => {
                     job={job} 
                     onRemove={handleRemoveJob} 
                     onPreview={() => handleOpenPreview(job.id)}
+                    onPreviewVariant={(label) => handleOpenPreview(job.id, label)}
                     onCrop={handleStartCrop}
                     onRetry={handleRetryJob}
+                    onCancel={handleCancelJob}
+                    onShowFidelity={setFidelityJobId}
+                    onSaveToBank={setBankJobId}
+                    fidelityThreshold={fidelitySettings.enabled ? fidelitySettings.threshold : undefined}
                   />
                 ))}
               </div>
@@ -743,12 +1543,25 @@ const App: React.FC = () => {
                             </select>
                             </div>
 
+                            <div className="grid grid-cols-2 gap-1 bg-slate-100 p-1 rounded-lg text-xs font-medium" title="Header text per language, used for translated and bilingual papers">
+                                {['', translationSettings.language].map(lang => (
+                                    <button
+                                        key={lang || 'primary'}
+                                        onClick={() => setHeaderLanguage(lang)}
+                                        className={`py-1.5 rounded-md transition-colors ${headerLanguage === lang ? 'bg-white shadow-sm text-slate-900' : 'text-slate-500 hover:text-slate-700'}`}
+                                    >
+                                        {lang || 'Primary'}
+                                    </button>
+                                ))}
+                            </div>
+
                             <div>
                                 <label className="block text-xs font-semibold text-slate-500 mb-1">Logo Text</label>
                                 <input 
                                     type="text" 
-                                    value={headerConfig.logoText}
-                                    onChange={(e) => handleConfigChange('logoText', e.target.value)}
+                                    value={getHeaderText('logoText')}
+                                    placeholder={headerLanguage ? headerConfig.logoText : undefined}
+                                    onChange={(e) => handleHeaderTextChange('logoText', e.target.value)}
                                     className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none"
                                 />
                             </div>
@@ -756,8 +1569,9 @@ const App: React.FC = () => {
                                 <label className="block text-xs font-semibold text-slate-500 mb-1">Logo Sub-Text</label>
                                 <input 
                                     type="text" 
-                                    value={headerConfig.logoSubText}
-                                    onChange={(e) => handleConfigChange('logoSubText', e.target.value)}
+                                    value={getHeaderText('logoSubText')}
+                                    placeholder={headerLanguage ? headerConfig.logoSubText : undefined}
+                                    onChange={(e) => handleHeaderTextChange('logoSubText', e.target.value)}
                                     className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none"
                                 />
                             </div>
@@ -767,8 +1581,9 @@ const App: React.FC = () => {
                                     <label className="block text-xs font-semibold text-slate-500 mb-1">Course Name</label>
                                     <input 
                                         type="text" 
-                                        value={headerConfig.courseName}
-                                        onChange={(e) => handleConfigChange('courseName', e.target.value)}
+                                        value={getHeaderText('courseName')}
+                                    placeholder={headerLanguage ? headerConfig.courseName : undefined}
+                                        onChange={(e) => handleHeaderTextChange('courseName', e.target.value)}
                                         className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none"
                                     />
                                 </div>
@@ -776,8 +1591,9 @@ const App: React.FC = () => {
                                     <label className="block text-xs font-semibold text-slate-500 mb-1">Series Info</label>
                                     <input 
                                         type="text" 
-                                        value={headerConfig.seriesName}
-                                        onChange={(e) => handleConfigChange('seriesName', e.target.value)}
+                                        value={getHeaderText('seriesName')}
+                                    placeholder={headerLanguage ? headerConfig.seriesName : undefined}
+                                        onChange={(e) => handleHeaderTextChange('seriesName', e.target.value)}
                                         className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none"
                                     />
                                 </div>
@@ -787,8 +1603,9 @@ const App: React.FC = () => {
                                 <label className="block text-xs font-semibold text-slate-500 mb-1">Marks & Time</label>
                                 <input 
                                     type="text" 
-                                    value={headerConfig.marksTime}
-                                    onChange={(e) => handleConfigChange('marksTime', e.target.value)}
+                                    value={getHeaderText('marksTime')}
+                                    placeholder={headerLanguage ? headerConfig.marksTime : undefined}
+                                    onChange={(e) => handleHeaderTextChange('marksTime', e.target.value)}
                                     className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none"
                                 />
                             </div>
@@ -797,8 +1614,9 @@ const App: React.FC = () => {
                                 <label className="block text-xs font-bold text-slate-800 mb-1">SUBJECT / PAPER TITLE</label>
                                 <input 
                                     type="text" 
-                                    value={headerConfig.subjectTitle}
-                                    onChange={(e) => handleConfigChange('subjectTitle', e.target.value)}
+                                    value={getHeaderText('subjectTitle')}
+                                    placeholder={headerLanguage ? headerConfig.subjectTitle : undefined}
+                                    onChange={(e) => handleHeaderTextChange('subjectTitle', e.target.value)}
                                     className="w-full px-2 py-2 border border-slate-300 rounded text-sm font-bold bg-slate-50 focus:border-brand-500 outline-none"
                                 />
                             </div>
@@ -807,14 +1625,16 @@ const App: React.FC = () => {
                                 <label className="block text-xs font-semibold text-slate-500 mb-1">Instruction 1</label>
                                 <input 
                                     type="text" 
-                                    value={headerConfig.instruction1}
-                                    onChange={(e) => handleConfigChange('instruction1', e.target.value)}
+                                    value={getHeaderText('instruction1')}
+                                    placeholder={headerLanguage ? headerConfig.instruction1 : undefined}
+                                    onChange={(e) => handleHeaderTextChange('instruction1', e.target.value)}
                                     className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none"
                                 />
                                 <label className="block text-xs font-semibold text-slate-500 mt-2 mb-1">Instruction 2</label>
                                 <textarea 
-                                    value={headerConfig.instruction2}
-                                    onChange={(e) => handleConfigChange('instruction2', e.target.value)}
+                                    value={getHeaderText('instruction2')}
+                                    placeholder={headerLanguage ? headerConfig.instruction2 : undefined}
+                                    onChange={(e) => handleHeaderTextChange('instruction2', e.target.value)}
                                     rows={2}
                                     className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none resize-none"
                                 />
@@ -829,11 +1649,142 @@ const App: React.FC = () => {
                     )}
                 </div>
 
+                {/* Job Queue Section */}
+                <QueueStatus
+                  stats={queueStats}
+                  paused={isQueuePaused}
+                  settings={queueSettings}
+                  onPauseToggle={handleQueuePauseToggle}
+                  onCancelAll={handleCancelAll}
+                  onSettingsChange={handleQueueSettingsChange}
+                />
+
+                {/* Usage & Cost Section */}
+                <UsagePanel fileNames={Object.fromEntries(jobs.map(j => [j.id, j.file.name]))} />
+
+                {/* Fidelity Check Section */}
+                <FidelitySettingsPanel settings={fidelitySettings} onChange={handleFidelitySettingsChange} />
+
+                {/* AI Provider Section */}
+                <ProviderSettings />
+
+                {/* Prompt Library Section */}
+                <PromptLibrary />
+
+                {/* Result Cache Section */}
+                <ResultCachePanel />
+
+                {/* Remix Sets Section */}
+                <RemixSetsPanel
+                  sets={remixSets}
+                  summaries={remixSetSummaries}
+                  disabled={isRemixing}
+                  verify={verifyRemix}
+                  onVerifyChange={handleVerifyRemixChange}
+                  onChange={handleRemixSetsChange}
+                  onDownloadPaper={(label) => handleDownloadPdf(label)}
+                  onDownloadKey={(label) => handleDownloadSolutionPdf(label)}
+                  onDownloadExaminerCopy={(label) => handleDownloadExaminerPdf(label)}
+                />
+
+                {/* Translation Section */}
+                <TranslationPanel
+                  settings={translationSettings}
+                  translatedCount={translatedCount}
+                  pageCount={completedCount}
+                  isTranslating={isTranslating}
+                  disabled={isProcessing || isRemixing || isSolving}
+                  onChange={handleTranslationSettingsChange}
+                  onTranslate={handleTranslateAll}
+                />
+
+                {/* Shuffled Seat Sets Section */}
+                <ShuffleSetsPanel
+                  settings={shuffleSettings}
+                  summary={shuffleSummary}
+                  onChange={handleShuffleSettingsChange}
+                  onDownloadSets={handleDownloadShuffledSets}
+                  onDownloadKeys={handleDownloadShuffledKeys}
+                />
+
+                {/* OMR Answer Sheet Section */}
+                <OmrSheetPanel
+                  settings={omrSettings}
+                  summary={omrSummary}
+                  onChange={handleOmrSettingsChange}
+                  onDownload={handleDownloadOmrSheet}
+                />
+
+                {/* LMS Export Section */}
+                <LmsExportPanel
+                  summary={lmsSummary}
+                  onExport={handleExportLms}
+                />
+
+                {/* Duplicate Questions Section */}
+                <DuplicatesPanel
+                  threshold={duplicateThreshold}
+                  clusters={duplicateClusters}
+                  checkedQuestions={duplicateCandidates.length}
+                  freeFormPages={shuffleSummary.freeFormPages}
+                  onThresholdChange={handleDuplicateThresholdChange}
+                  onDrop={handleDropDuplicates}
+                />
+
+                {/* Question Bank Section */}
+                <QuestionBankPanel
+                  marksTime={headerConfig.marksTime}
+                  onAssemble={handleAddAssembledPaper}
+                />
+
                 {/* Actions Section */}
                 <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
                   <h3 className="font-semibold text-slate-800 mb-4">Actions</h3>
                   
                   <div className="space-y-3">
+                    <div className="grid grid-cols-2 gap-1 bg-slate-100 p-1 rounded-lg text-xs font-medium">
+                      <button
+                        onClick={() => handleExtractionModeChange('html')}
+                        className={`py-1.5 rounded-md transition-colors ${extractionMode === 'html' ? 'bg-white shadow-sm text-slate-900' : 'text-slate-500 hover:text-slate-700'}`}
+                        title="Pixel-perfect HTML replica of the page"
+                      >
+                        Layout (HTML)
+                      </button>
+                      <button
+                        onClick={() => handleExtractionModeChange('structured')}
+                        className={`py-1.5 rounded-md transition-colors ${extractionMode === 'structured' ? 'bg-white shadow-sm text-slate-900' : 'text-slate-500 hover:text-slate-700'}`}
+                        title="Extract sections, questions, options and marks into a typed model"
+                      >
+                        Structured (Questions)
+                      </button>
+                    </div>
+
+                    <label className="flex items-center justify-between gap-2 px-1 text-xs font-medium text-slate-600 cursor-pointer" title="Ask for LaTeX math and typeset it with KaTeX">
+                      <span className="flex items-center gap-1">
+                        <Sigma className="w-3.5 h-3.5 text-brand-600" />
+                        Math Mode (LaTeX)
+                      </span>
+                      <input
+                        type="checkbox"
+                        checked={mathMode}
+                        onChange={(e) => handleMathModeChange(e.target.checked)}
+                        className="accent-brand-600"
+                      />
+                    </label>
+
+                    <label className="flex items-center justify-between gap-2 px-1 text-xs font-medium text-slate-600 cursor-pointer" title="Also generate step-wise marks and partial-credit rules when solving">
+                      <span className="flex items-center gap-1">
+                        <ClipboardCheck className="w-3.5 h-3.5 text-brand-600" />
+                        Marking Scheme with Solutions
+                      </span>
+                      <input
+                        type="checkbox"
+                        checked={includeMarkingScheme}
+                        onChange={(e) => handleMarkingSchemeChange(e.target.checked)}
+                        className="accent-brand-600"
+                      />
+                    </label>
+
                     <button
                       onClick={handleProcessAll}
                       disabled={isProcessing || isRemixing || isSolving || jobs.every(j => j.status === JobStatus.COMPLETED)}
@@ -865,7 +1816,7 @@ const App: React.FC = () => {
                       ) : (
                         <>
                           <Shuffle className="w-5 h-5" />
-                          Shuffle / Remix Questions
+                          Remix into {remixSets.length === 1 ? 'Set A' : `Sets A-${remixSets[remixSets.length - 1].label}`}
                         </>
                       )}
                     </button>
@@ -888,6 +1839,17 @@ const App: React.FC = () => {
                       )}
                     </button>
 
+                    {structuredCount > 0 && (
+                      <button
+                        onClick={handleRenumberQuestions}
+                        disabled={isProcessing || isRemixing || isSolving}
+                        className="w-full flex items-center justify-center gap-2 bg-white text-slate-700 border border-slate-300 py-2 px-4 rounded-lg text-sm font-medium hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        <ListOrdered className="w-4 h-4" />
+                        Renumber Questions Across Pages
+                      </button>
+                    )}
+
                     <button
                       onClick={handleOpenGlobalPreview}
                       disabled={completedCount === 0}
@@ -908,7 +1870,7 @@ const App: React.FC = () => {
                       </button>
 
                        <button
-                        onClick={handleDownloadPdf}
+                        onClick={() => handleDownloadPdf()}
                         disabled={completedCount === 0}
                         className="col-span-1 flex flex-col items-center justify-center gap-1 bg-red-50 text-red-700 border border-red-200 py-2 px-1 rounded-lg text-xs font-medium hover:bg-red-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors h-16 text-center"
                       >
@@ -926,13 +1888,52 @@ const App: React.FC = () => {
                       </button>
 
                       <button
-                        onClick={handleDownloadSolutionPdf}
+                        onClick={() => handleDownloadSolutionPdf()}
                         disabled={solutionsCount === 0}
                         className="col-span-1 flex flex-col items-center justify-center gap-1 bg-green-50 text-green-700 border border-green-200 py-2 px-1 rounded-lg text-xs font-medium hover:bg-green-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors h-16 text-center"
                       >
                         <FileCheck className="w-5 h-5" />
                         <span>Solution PDF</span>
                       </button>
+
+                      <button
+                        onClick={() => handleDownloadExaminerPdf()}
+                        disabled={markingSchemeCount === 0}
+                        className="col-span-2 flex items-center justify-center gap-2 bg-amber-50 text-amber-800 border border-amber-200 py-2 px-1 rounded-lg text-xs font-medium hover:bg-amber-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        <ClipboardCheck className="w-4 h-4" />
+                        <span>Examiner's Copy (PDF)</span>
+                      </button>
+
+                      <button
+                        onClick={handleDownloadQuiz}
+                        disabled={completedCount === 0}
+                        className="col-span-2 flex items-center justify-center gap-2 bg-indigo-50 text-indigo-700 border border-indigo-200 py-2 px-1 rounded-lg text-xs font-medium hover:bg-indigo-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        title="One offline HTML file with clickable MCQs, a timer from the header's marks/time and instant scoring"
+                      >
+                        <Smartphone className="w-4 h-4" />
+                        <span>Online Quiz (HTML)</span>
+                      </button>
+
+                      <button
+                        onClick={() => handleExportSource('latex')}
+                        disabled={completedCount === 0}
+                        className="col-span-1 flex items-center justify-center gap-2 bg-slate-50 text-slate-700 border border-slate-200 py-2 px-1 rounded-lg text-xs font-medium hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        title="LaTeX source for the exam document class, with solutions and figures"
+                      >
+                        <FileCode className="w-4 h-4" />
+                        <span>LaTeX (.tex)</span>
+                      </button>
+
+                      <button
+                        onClick={() => handleExportSource('markdown')}
+                        disabled={completedCount === 0}
+                        className="col-span-1 flex items-center justify-center gap-2 bg-slate-50 text-slate-700 border border-slate-200 py-2 px-1 rounded-lg text-xs font-medium hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        title="Markdown with solutions and figures"
+                      >
+                        <Hash className="w-4 h-4" />
+                        <span>Markdown</span>
+                      </button>
                     </div>
                   </div>
 
@@ -977,9 +1978,19 @@ const App: React.FC = () => {
         onChange={handleFileChange}
         className="hidden"
         multiple
-        accept="image/png, image/jpeg, image/webp, image/bmp"
+        accept="image/png, image/jpeg, image/webp, image/bmp, application/pdf"
       />
 
+      {/* PDF Page Picker */}
+      {pendingPdfs.length > 0 && (
+        <PdfImportModal
+          key={`${pendingPdfs[0].name}-${pendingPdfs[0].lastModified}-${pendingPdfs.length}`}
+          file={pendingPdfs[0]}
+          onClose={() => setPendingPdfs(prev => prev.slice(1))}
+          onImport={handlePdfImport}
+        />
+      )}
+
       {/* Preview/Editor Modal */}
       {previewJobId && previewContent && (
         <PreviewModal 
@@ -993,6 +2004,24 @@ const App: React.FC = () => {
         />
       )}
 
+      {/* Fidelity Modal */}
+      {fidelityJob && fidelityJob.fidelity && (
+        <FidelityModal
+          job={fidelityJob}
+          threshold={fidelitySettings.threshold}
+          onClose={() => setFidelityJobId(null)}
+          onRetry={handleRetryJob}
+        />
+      )}
+
+      {/* Save to Question Bank Modal */}
+      {bankJob && (
+        <SaveToBankModal
+          job={bankJob}
+          onClose={() => setBankJobId(null)}
+        />
+      )}
+
       {/* Crop Modal */}
       {croppingJob && (
         <CropModal 
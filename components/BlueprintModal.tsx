@@ -0,0 +1,263 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, LayoutList, Plus, Trash2, Dices, FilePlus, AlertTriangle, CheckCircle } from 'lucide-react';
+import { BankDifficulty, BankQuestion, IssuedPaper } from '../types';
+import { deleteIssuedPaper, DIFFICULTY_LABELS, getTagValues, listBankQuestions, listIssuedPapers, recordIssuedPaper, subscribeToBank } from '../services/questionBank';
+import { assemblePaper, AssembledPaper, Blueprint, BlueprintSection, createBlueprintSection, DEFAULT_BLUEPRINT, getBlueprintTotal } from '../utils/blueprint';
+import { parseMaxMarks } from '../utils/marksTime';
+
+interface BlueprintModalProps {
+  marksTime: string; // From the header, to check the blueprint's total against
+  onClose: () => void;
+  onAssemble: (paper: AssembledPaper, title: string) => void;
+}
+
+const STORAGE_KEY = 'snap2print_blueprint';
+
+const loadBlueprint = (): Blueprint => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_BLUEPRINT, ...JSON.parse(saved) } : DEFAULT_BLUEPRINT;
+  } catch (e) {
+    return DEFAULT_BLUEPRINT;
+  }
+};
+
+const stripTags = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+const parseOptionalInt = (value: string) => value === '' ? undefined : parseInt(value, 10);
+
+const cellClass = 'w-full text-sm border border-slate-300 rounded px-1.5 py-1 focus:ring-2 focus:ring-brand-500 outline-none bg-white';
+
+export const BlueprintModal: React.FC<BlueprintModalProps> = ({ marksTime, onClose, onAssemble }) => {
+  const [blueprint, setBlueprint] = useState<Blueprint>(loadBlueprint);
+  const [bank, setBank] = useState<BankQuestion[]>([]);
+  const [issued, setIssued] = useState<IssuedPaper[]>([]);
+  const [avoidIssued, setAvoidIssued] = useState(true);
+  const [seed, setSeed] = useState(() => Date.now());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const refresh = () => {
+      listBankQuestions().then(setBank).catch(e => setError(e.message || 'Could not read the question bank'));
+      listIssuedPapers().then(setIssued).catch(e => setError(e.message || 'Could not read the issued papers'));
+    };
+    refresh();
+    return subscribeToBank(refresh);
+  }, []);
+
+  const handleBlueprintChange = (next: Blueprint) => {
+    setBlueprint(next);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  };
+
+  const updateSection = (id: string, changes: Partial<BlueprintSection>) =>
+    handleBlueprintChange({ ...blueprint, sections: blueprint.sections.map(s => s.id === id ? { ...s, ...changes } : s) });
+
+  const issuedIds = useMemo(() => new Set(avoidIssued ? issued.flatMap(p => p.questionIds) : []), [issued, avoidIssued]);
+  const paper = useMemo(() => assemblePaper(bank, blueprint, issuedIds, seed), [bank, blueprint, issuedIds, seed]);
+
+  const total = getBlueprintTotal(blueprint);
+  const maxMarks = parseMaxMarks(marksTime);
+  const totalMatches = maxMarks === undefined || total === maxMarks;
+  const shortfalls = paper.picks.filter(p => p.questions.length < p.section.count);
+
+  const handleAssemble = async () => {
+    const title = blueprint.title.trim() || `Paper ${new Date().toLocaleDateString()}`;
+    const warnings = [
+      ...(!totalMatches ? [`The blueprint totals ${total} marks but the header says ${maxMarks}.`] : []),
+      ...shortfalls.map(p => `${p.section.title || 'A section'} has ${p.questions.length} of ${p.section.count} questions.`),
+    ];
+    if (warnings.length > 0 && !window.confirm(`${warnings.join('\n')}\n\nAdd the paper anyway?`)) return;
+    try {
+      await recordIssuedPaper(title, paper.questionIds);
+      onAssemble(paper, title);
+      onClose();
+    } catch (e: any) {
+      setError(e.message || 'Could not record the issued paper');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-slate-100 bg-slate-50">
+          <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+            <LayoutList className="w-5 h-5 text-brand-600" />
+            Assemble Paper from Blueprint
+          </h3>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && <div className="px-4 py-2 text-sm text-red-700 bg-red-50 border-b border-red-100">{error}</div>}
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Paper Title</label>
+              <input
+                value={blueprint.title}
+                onChange={(e) => handleBlueprintChange({ ...blueprint, title: e.target.value })}
+                placeholder="e.g. Unit Test 2"
+                className={cellClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Subject</label>
+              <select value={blueprint.subject} onChange={(e) => handleBlueprintChange({ ...blueprint, subject: e.target.value })} className={cellClass}>
+                <option value="">All subjects</option>
+                {getTagValues(bank, 'subject').map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50 text-slate-500 uppercase">
+              <tr>
+                <th className="text-left px-2 py-2">Section</th>
+                <th className="text-left px-2 py-2 w-16">Count</th>
+                <th className="text-left px-2 py-2 w-16">Marks</th>
+                <th className="text-left px-2 py-2">Type</th>
+                <th className="text-left px-2 py-2 w-28">Chapters</th>
+                <th className="text-left px-2 py-2">Difficulty</th>
+                <th className="text-left px-2 py-2">Picked</th>
+                <th className="px-2 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {blueprint.sections.map((section, i) => {
+                const pick = paper.picks[i];
+                const isShort = pick.questions.length < section.count;
+                return (
+                  <tr key={section.id} className="border-t border-slate-100">
+                    <td className="px-2 py-1.5">
+                      <input value={section.title} onChange={(e) => updateSection(section.id, { title: e.target.value })} className={cellClass} />
+                    </td>
+                    <td className="px-2 py-1.5">
+                      <input type="number" min={1} value={section.count} onChange={(e) => updateSection(section.id, { count: Math.max(1, parseInt(e.target.value, 10) || 1) })} className={cellClass} />
+                    </td>
+                    <td className="px-2 py-1.5">
+                      <input type="number" min={0} step={0.5} value={section.marks} onChange={(e) => updateSection(section.id, { marks: parseFloat(e.target.value) || 0 })} className={cellClass} />
+                    </td>
+                    <td className="px-2 py-1.5">
+                      <select value={section.type} onChange={(e) => updateSection(section.id, { type: e.target.value as BlueprintSection['type'] })} className={cellClass}>
+                        <option value="">Any</option>
+                        <option value="mcq">MCQ</option>
+                        <option value="descriptive">Descriptive</option>
+                      </select>
+                    </td>
+                    <td className="px-2 py-1.5">
+                      <div className="flex items-center gap-1">
+                        <input type="number" min={0} value={section.chapterFrom ?? ''} placeholder="from" onChange={(e) => updateSection(section.id, { chapterFrom: parseOptionalInt(e.target.value) })} className={cellClass} />
+                        –
+                        <input type="number" min={0} value={section.chapterTo ?? ''} placeholder="to" onChange={(e) => updateSection(section.id, { chapterTo: parseOptionalInt(e.target.value) })} className={cellClass} />
+                      </div>
+                    </td>
+                    <td className="px-2 py-1.5">
+                      <select value={section.difficulty} onChange={(e) => updateSection(section.id, { difficulty: e.target.value as BankDifficulty | '' })} className={cellClass}>
+                        <option value="">Any</option>
+                        {(Object.keys(DIFFICULTY_LABELS) as BankDifficulty[]).map(d => <option key={d} value={d}>{DIFFICULTY_LABELS[d]}</option>)}
+                      </select>
+                    </td>
+                    <td className={`px-2 py-1.5 font-medium ${isShort ? 'text-red-600' : 'text-green-700'}`} title={`${pick.available} matching question(s) in the bank${avoidIssued ? ' not used in issued papers' : ''}`}>
+                      {pick.questions.length}/{section.count}
+                    </td>
+                    <td className="px-2 py-1.5 text-right">
+                      <button
+                        onClick={() => handleBlueprintChange({ ...blueprint, sections: blueprint.sections.filter(s => s.id !== section.id) })}
+                        className="p-1 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                        title="Remove section"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <button
+              onClick={() => handleBlueprintChange({ ...blueprint, sections: [...blueprint.sections, createBlueprintSection(blueprint.sections.length)] })}
+              className="flex items-center gap-1 text-sm text-brand-600 hover:text-brand-700 font-medium"
+            >
+              <Plus className="w-4 h-4" /> Add Section
+            </button>
+            <div className={`flex items-center gap-1 text-sm font-medium ${totalMatches ? 'text-green-700' : 'text-red-600'}`}>
+              {totalMatches ? <CheckCircle className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}
+              Total {total} marks
+              {maxMarks !== undefined ? ` · header: ${maxMarks}` : ' · no maximum marks found in the header'}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center gap-2 text-slate-600 cursor-pointer">
+              <input type="checkbox" checked={avoidIssued} onChange={(e) => setAvoidIssued(e.target.checked)} className="accent-brand-600" />
+              Skip questions used in issued papers ({issued.length})
+            </label>
+            <button
+              onClick={() => setSeed(Date.now())}
+              className="flex items-center gap-1 px-2 py-1 rounded text-xs font-medium border bg-white text-slate-600 border-slate-300 hover:bg-slate-50 transition-colors"
+              title="Pick a different set of matching questions"
+            >
+              <Dices className="w-3 h-3" /> Pick Again
+            </button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2 border border-slate-200 rounded-lg divide-y divide-slate-100">
+              {paper.document.sections.map((section, i) => (
+                <div key={blueprint.sections[i].id} className="p-3">
+                  <p className="text-xs font-semibold text-slate-600 uppercase mb-1">{section.title || `Section ${i + 1}`}</p>
+                  {section.questions.length === 0 ? (
+                    <p className="text-xs text-red-600">No matching questions in the bank.</p>
+                  ) : section.questions.map(q => (
+                    <p key={q.id} className="text-xs text-slate-700 truncate"><strong>{q.number}.</strong> {stripTags(q.text)}</p>
+                  ))}
+                </div>
+              ))}
+            </div>
+            <div className="border border-slate-200 rounded-lg p-3">
+              <p className="text-xs font-semibold text-slate-600 uppercase mb-2">Issued Papers</p>
+              {issued.length === 0 ? (
+                <p className="text-xs text-slate-400">None yet. Papers added from here are recorded so their questions are not repeated.</p>
+              ) : issued.map(p => (
+                <div key={p.id} className="flex items-center justify-between gap-2 py-1 text-xs">
+                  <span className="truncate text-slate-700" title={`${p.questionIds.length} question(s)`}>
+                    {p.title} <span className="text-slate-400">· {new Date(p.issuedAt).toLocaleDateString()}</span>
+                  </span>
+                  <button
+                    onClick={() => deleteIssuedPaper(p.id)}
+                    className="p-1 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                    title="Forget this paper, so its questions can be picked again"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 bg-slate-50 border-t border-slate-200 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-slate-700 bg-white border border-slate-300 hover:bg-slate-50 rounded-lg font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleAssemble}
+            disabled={paper.questionIds.length === 0}
+            className="flex items-center gap-2 px-4 py-2 text-white bg-brand-600 hover:bg-brand-700 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FilePlus className="w-4 h-4" />
+            Add to Pages
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
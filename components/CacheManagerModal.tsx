@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { X, Database, Trash2, Eye } from 'lucide-react';
+import { CacheEntry, clearCache, deleteCacheEntry, formatBytes, listCacheEntries, subscribeToCache } from '../services/resultCache';
+import { formatTokens } from '../services/usageLog';
+
+interface CacheManagerModalProps {
+  onClose: () => void;
+}
+
+const TASK_LABELS: Record<string, string> = {
+  convert: 'Conversion',
+  remix: 'Remix',
+  solve: 'Solution',
+};
+
+export const CacheManagerModal: React.FC<CacheManagerModalProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const refresh = () => listCacheEntries().then(setEntries).catch(e => setError(e.message || 'Could not read the cache'));
+    refresh();
+    return subscribeToCache(refresh);
+  }, []);
+
+  const selected = entries.find(e => e.key === selectedKey);
+
+  const handleEvict = async (key: string) => {
+    if (key === selectedKey) setSelectedKey(null);
+    await deleteCacheEntry(key);
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(`Evict all ${entries.length} cached result(s)? The next runs will call the API again.`)) return;
+    setSelectedKey(null);
+    await clearCache();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-slate-100 bg-slate-50">
+          <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+            <Database className="w-5 h-5 text-brand-600" />
+            Result Cache
+          </h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleClear}
+              disabled={entries.length === 0}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm text-red-600 bg-white border border-red-200 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Trash2 className="w-4 h-4" /> Evict All
+            </button>
+            <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {error && <div className="px-4 py-2 text-sm text-red-700 bg-red-50 border-b border-red-100">{error}</div>}
+
+        <div className="flex-1 flex min-h-0">
+          <div className="w-1/2 overflow-y-auto border-r border-slate-100">
+            {entries.length === 0 ? (
+              <p className="p-6 text-sm text-slate-400 text-center">Nothing cached yet. Converted, remixed and solved pages are stored here.</p>
+            ) : (
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50 text-slate-500 uppercase sticky top-0">
+                  <tr>
+                    <th className="text-left px-3 py-2">Result</th>
+                    <th className="text-left px-3 py-2">Model / Prompts</th>
+                    <th className="text-right px-3 py-2">Hits</th>
+                    <th className="px-3 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map(entry => (
+                    <tr
+                      key={entry.key}
+                      onClick={() => setSelectedKey(entry.key)}
+                      className={`border-t border-slate-100 cursor-pointer ${entry.key === selectedKey ? 'bg-brand-50' : 'hover:bg-slate-50'}`}
+                    >
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-slate-800">{TASK_LABELS[entry.task] || entry.task}</div>
+                        <div className="text-slate-500 truncate max-w-[12rem]" title={entry.label}>{entry.label || '—'}</div>
+                      </td>
+                      <td className="px-3 py-2 text-slate-600">
+                        <div>{entry.model}</div>
+                        <div className="text-slate-400">{entry.promptVersion}</div>
+                      </td>
+                      <td className="px-3 py-2 text-right text-slate-700">{entry.hits}</td>
+                      <td className="px-3 py-2 text-right">
+                        <button
+                          onClick={(e) => { e.stopPropagation(); handleEvict(entry.key); }}
+                          className="p-1 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                          title="Evict. The next run for this page calls the API again."
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="w-1/2 flex flex-col min-h-0">
+            {selected ? (
+              <>
+                <div className="p-4 border-b border-slate-100 text-xs text-slate-600 space-y-1">
+                  <div><span className="font-semibold">Key:</span> <span className="font-mono break-all">{selected.key}</span></div>
+                  <div><span className="font-semibold">Created:</span> {new Date(selected.createdAt).toLocaleString()} · <span className="font-semibold">Last used:</span> {new Date(selected.lastUsedAt).toLocaleString()}</div>
+                  <div>
+                    <span className="font-semibold">Size:</span> {formatBytes(selected.size)}
+                    {selected.usage && <> · <span className="font-semibold">Saved per hit:</span> {formatTokens(selected.usage.inputTokens + selected.usage.outputTokens)} tokens</>}
+                  </div>
+                </div>
+                <pre className="flex-1 overflow-auto p-4 text-xs text-slate-700 bg-slate-50 whitespace-pre-wrap break-all">{selected.text}</pre>
+              </>
+            ) : (
+              <div className="flex-1 flex flex-col items-center justify-center text-slate-400 text-sm gap-2">
+                <Eye className="w-6 h-6" />
+                Select an entry to inspect the cached response.
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { X, CopyX, Trash2 } from 'lucide-react';
+import { DuplicateCandidate, DuplicateCluster } from '../utils/duplicates';
+
+interface DuplicatesModalProps {
+  clusters: DuplicateCluster[];
+  onClose: () => void;
+  onDrop: (removals: DuplicateCandidate[]) => void;
+}
+
+const memberKey = (m: DuplicateCandidate) => `${m.jobId}:${m.questionId}`;
+
+const stripTags = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const DuplicatesModal: React.FC<DuplicatesModalProps> = ({ clusters, onClose, onDrop }) => {
+  // Per cluster: the copy to keep, or null to leave the cluster alone (not actually duplicates)
+  const [keep, setKeep] = useState<Record<string, string | null>>(() =>
+    Object.fromEntries(clusters.map(c => [c.id, memberKey(c.members[0])]))
+  );
+
+  const removals = clusters.flatMap(c => keep[c.id] ? c.members.filter(m => memberKey(m) !== keep[c.id]) : []);
+
+  const handleDrop = () => {
+    onDrop(removals);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-slate-100 bg-slate-50">
+          <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+            <CopyX className="w-5 h-5 text-brand-600" />
+            Duplicate Questions
+          </h3>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {clusters.map((cluster, i) => (
+            <div key={cluster.id} className={`border rounded-lg ${keep[cluster.id] ? 'border-slate-200' : 'border-slate-100 opacity-60'}`}>
+              <div className="flex items-center justify-between px-3 py-2 bg-slate-50 border-b border-slate-100 text-xs">
+                <span className="font-semibold text-slate-700">Group {i + 1} · {Math.round(cluster.similarity * 100)}% similar</span>
+                <label className="flex items-center gap-1 text-slate-500 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!keep[cluster.id]}
+                    onChange={(e) => setKeep({ ...keep, [cluster.id]: e.target.checked ? null : memberKey(cluster.members[0]) })}
+                    className="accent-brand-600"
+                  />
+                  Not duplicates, keep all
+                </label>
+              </div>
+              {cluster.members.map(member => {
+                const key = memberKey(member);
+                const isKept = keep[cluster.id] === key;
+                return (
+                  <label key={key} className="flex items-start gap-3 px-3 py-2 border-t border-slate-100 first:border-t-0 cursor-pointer hover:bg-slate-50">
+                    <input
+                      type="radio"
+                      name={`keep-${cluster.id}`}
+                      checked={isKept}
+                      disabled={!keep[cluster.id]}
+                      onChange={() => setKeep({ ...keep, [cluster.id]: key })}
+                      className="mt-1 accent-brand-600"
+                    />
+                    <div className="flex-1 min-w-0 text-sm">
+                      <p className={`${keep[cluster.id] && !isKept ? 'line-through text-slate-400' : 'text-slate-800'}`}>
+                        <strong>{member.number}.</strong> {stripTags(member.question.text)}
+                      </p>
+                      {member.question.options && (
+                        <p className="text-xs text-slate-500 mt-0.5">
+                          {member.question.options.map(o => `(${o.label}) ${stripTags(o.text)}`).join('  ')}
+                        </p>
+                      )}
+                      <p className="text-xs text-slate-400 mt-0.5">{member.source}</p>
+                    </div>
+                    {keep[cluster.id] && (
+                      <span className={`text-xs font-medium ${isKept ? 'text-green-700' : 'text-red-600'}`}>{isKept ? 'Keep' : 'Drop'}</span>
+                    )}
+                  </label>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 bg-slate-50 border-t border-slate-200 flex items-center justify-between gap-3">
+          <p className="text-xs text-slate-500">Dropped questions are removed from their pages and solutions. Use Renumber Questions Across Pages afterwards to close the gaps.</p>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-slate-700 bg-white border border-slate-300 hover:bg-slate-50 rounded-lg font-medium transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleDrop}
+              disabled={removals.length === 0}
+              className="flex items-center gap-2 px-4 py-2 text-white bg-red-600 hover:bg-red-700 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Trash2 className="w-4 h-4" />
+              Drop {removals.length} Duplicate(s)
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
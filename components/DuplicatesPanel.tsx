@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { CopyX, Settings2 } from 'lucide-react';
+import { DuplicateCandidate, DuplicateCluster } from '../utils/duplicates';
+import { DuplicatesModal } from './DuplicatesModal';
+
+interface DuplicatesPanelProps {
+  threshold: number; // 0-1
+  clusters: DuplicateCluster[];
+  checkedQuestions: number;
+  freeFormPages: number; // Not checked, there are no question boundaries to compare
+  onThresholdChange: (threshold: number) => void;
+  onDrop: (removals: DuplicateCandidate[]) => void;
+}
+
+export const DuplicatesPanel: React.FC<DuplicatesPanelProps> = ({ threshold, clusters, checkedQuestions, freeFormPages, onThresholdChange, onDrop }) => {
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const extraCopies = clusters.reduce((sum, c) => sum + c.members.length - 1, 0);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+      <div className="flex items-center justify-between pb-2 border-b border-slate-100 mb-3">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <CopyX className="w-4 h-4 text-brand-600" />
+          Duplicate Questions
+        </h3>
+        <button
+          onClick={() => setIsReviewOpen(true)}
+          disabled={clusters.length === 0}
+          className="flex items-center gap-1 px-2 py-1 rounded text-xs font-medium border bg-white text-slate-600 border-slate-300 hover:bg-slate-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Choose which copy of each duplicate to keep"
+        >
+          <Settings2 className="w-3 h-3" />
+          Review
+        </button>
+      </div>
+
+      <label className="flex items-center justify-between text-xs font-medium text-slate-600 mb-1">
+        Similarity
+        <span className="text-slate-500">{Math.round(threshold * 100)}%</span>
+      </label>
+      <input
+        type="range"
+        min={30}
+        max={95}
+        step={5}
+        value={Math.round(threshold * 100)}
+        onChange={(e) => onThresholdChange(Number(e.target.value) / 100)}
+        className="w-full accent-brand-600"
+        title="Lower finds more reworded copies, higher only near-identical ones"
+      />
+      <p className={`text-xs mt-2 ${clusters.length > 0 ? 'text-amber-700 font-medium' : 'text-slate-400'}`}>
+        {clusters.length > 0
+          ? `${clusters.length} group(s) of likely duplicates, ${extraCopies} extra cop${extraCopies === 1 ? 'y' : 'ies'}`
+          : `No duplicates among ${checkedQuestions} question(s)`}
+      </p>
+      {freeFormPages > 0 && (
+        <p className="text-xs text-slate-400 mt-1">{freeFormPages} free-form page(s) not checked; convert them in structured mode.</p>
+      )}
+
+      {isReviewOpen && (
+        <DuplicatesModal
+          clusters={clusters}
+          onClose={() => setIsReviewOpen(false)}
+          onDrop={onDrop}
+        />
+      )}
+    </div>
+  );
+};
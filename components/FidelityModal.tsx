@@ -0,0 +1,69 @@
+import React from 'react';
+import { X, ScanEye } from 'lucide-react';
+import { ImageJob } from '../types';
+
+interface FidelityModalProps {
+  job: ImageJob;
+  threshold: number;
+  onClose: () => void;
+  onRetry: (id: string) => void;
+}
+
+export const FidelityModal: React.FC<FidelityModalProps> = ({ job, threshold, onClose, onRetry }) => {
+  if (!job.fidelity) return null;
+  const isLow = job.fidelity.score < threshold;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-slate-100 bg-slate-50">
+          <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+            <ScanEye className="w-5 h-5 text-brand-600" />
+            Fidelity Check: {job.file.name}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-200 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 flex items-center gap-4 border-b border-slate-100">
+          <span className={`text-3xl font-bold ${isLow ? 'text-amber-600' : 'text-green-600'}`}>{job.fidelity.score}%</span>
+          <p className="text-sm text-slate-600">
+            {isLow
+              ? `Below the review threshold (${threshold}%). Red areas show where the conversion differs most from the original.`
+              : 'The rendered page closely matches the original. Red areas show the remaining differences.'}
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-auto bg-slate-100 p-4 grid grid-cols-2 gap-4">
+          <div>
+            <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Original</p>
+            <img src={job.previewUrl} alt="Original" className="w-full bg-white shadow" />
+          </div>
+          <div>
+            <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Differences</p>
+            <img src={job.fidelity.heatmapUrl} alt="Difference heat map" className="w-full bg-white shadow" />
+          </div>
+        </div>
+
+        <div className="p-4 bg-slate-50 border-t border-slate-200 flex justify-end gap-3">
+          <button
+            onClick={() => { onRetry(job.id); onClose(); }}
+            className="px-4 py-2 text-slate-700 bg-white border border-slate-300 hover:bg-slate-50 rounded-lg font-medium transition-colors"
+          >
+            Re-convert Page
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-brand-600 text-white hover:bg-brand-700 rounded-lg font-medium transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
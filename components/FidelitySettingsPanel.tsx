@@ -0,0 +1,58 @@
+import React from 'react';
+import { ScanEye } from 'lucide-react';
+import { FidelitySettings } from '../utils/fidelityUtils';
+
+interface FidelitySettingsPanelProps {
+  settings: FidelitySettings;
+  onChange: (settings: FidelitySettings) => void;
+}
+
+export const FidelitySettingsPanel: React.FC<FidelitySettingsPanelProps> = ({ settings, onChange }) => {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+      <div className="flex items-center justify-between pb-2 border-b border-slate-100 mb-3">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <ScanEye className="w-4 h-4 text-brand-600" />
+          Fidelity Check
+        </h3>
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+          className="w-4 h-4 text-brand-600 border-slate-300 rounded focus:ring-brand-500"
+          title="Compare each converted page against its original image"
+        />
+      </div>
+
+      {settings.enabled ? (
+        <div className="space-y-3">
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1">
+              Flag pages scoring below {settings.threshold}%
+            </label>
+            <input
+              type="range"
+              min={30}
+              max={90}
+              step={5}
+              value={settings.threshold}
+              onChange={(e) => onChange({ ...settings, threshold: Number(e.target.value) })}
+              className="w-full accent-brand-600"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.autoRetry}
+              onChange={(e) => onChange({ ...settings, autoRetry: e.target.checked })}
+              className="w-4 h-4 text-brand-600 border-slate-300 rounded focus:ring-brand-500"
+            />
+            Re-convert flagged pages once
+          </label>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500">Converted pages are not compared against their originals.</p>
+      )}
+    </div>
+  );
+};
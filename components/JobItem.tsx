@@ -1,16 +1,27 @@
 import React from 'react';
 import { ImageJob, JobStatus } from '../types';
-import { Loader2, CheckCircle, AlertCircle, Eye, Trash2, Crop, RefreshCw, Pencil } from 'lucide-react';
+import { Loader2, CheckCircle, AlertCircle, Eye, Trash2, Crop, RefreshCw, Pencil, ListChecks, Clock, ShieldAlert, ScanEye, AlertTriangle, Database, Ban, XCircle, Library } from 'lucide-react';
+import { countQuestions } from '../utils/paperDocument';
+import { formatCost, formatTokens } from '../services/usageLog';
 
 interface JobItemProps {
   job: ImageJob;
   onRemove: (id: string) => void;
   onPreview: (html: string) => void;
+  onPreviewVariant: (setLabel: string) => void;
   onCrop: (id: string) => void;
   onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  onShowFidelity: (id: string) => void;
+  onSaveToBank: (id: string) => void;
+  fidelityThreshold?: number; // Undefined when the fidelity check is disabled
 }
 
-export const JobItem: React.FC<JobItemProps> = ({ job, onRemove, onPreview, onCrop, onRetry }) => {
+export const JobItem: React.FC<JobItemProps> = ({ job, onRemove, onPreview, onPreviewVariant, onCrop, onRetry, onCancel, onShowFidelity, onSaveToBank, fidelityThreshold }) => {
+  const needsReview = !!job.fidelity && fidelityThreshold !== undefined && job.fidelity.score < fidelityThreshold;
+  const isBusy = (status: JobStatus) => status === JobStatus.QUEUED || status === JobStatus.PROCESSING;
+  const canCancel = isBusy(job.status) || !!job.variants?.some(v => isBusy(v.status));
+
   return (
     <div className={`flex items-center p-4 bg-white border rounded-lg shadow-sm hover:shadow-md transition-all group ${job.status === JobStatus.ERROR ? 'border-red-200 bg-red-50/30' : 'border-slate-200'}`}>
       {/* Thumbnail */}
@@ -34,6 +45,16 @@ export const JobItem: React.FC<JobItemProps> = ({ job, onRemove, onPreview, onCr
         </p>
         <p className="text-xs text-slate-500">
           {(job.file.size / 1024).toFixed(1)} KB
+          {job.promptVersion && (
+            <span title="Prompt library variant that produced this HTML">
+              {' · '}Prompts: {job.promptVersion.name} v{job.promptVersion.version}
+            </span>
+          )}
+          {job.usage && (
+            <span title={`${job.usage.calls} AI call(s): ${job.usage.inputTokens} input + ${job.usage.outputTokens} output tokens, ${(job.usage.latencyMs / 1000).toFixed(1)} s`}>
+              {' · '}{formatTokens(job.usage.inputTokens + job.usage.outputTokens)} tokens, {formatCost(job.usage.cost)}
+            </span>
+          )}
         </p>
         
         <div className="mt-2 flex items-center gap-2 flex-wrap">
@@ -42,18 +63,104 @@ export const JobItem: React.FC<JobItemProps> = ({ job, onRemove, onPreview, onCr
               Ready
             </span>
           )}
+          {job.status === JobStatus.QUEUED && (
+            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-slate-100 text-slate-600">
+              <Clock className="w-3 h-3 mr-1" />
+              Queued
+            </span>
+          )}
           {job.status === JobStatus.PROCESSING && (
             <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800">
               <Loader2 className="w-3 h-3 mr-1 animate-spin" />
               Processing...
             </span>
           )}
+          {job.status === JobStatus.PROCESSING && !!job.retryCount && (
+            <span 
+              className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800"
+              title="The server was busy. Retrying automatically with backoff."
+            >
+              <RefreshCw className="w-3 h-3 mr-1" />
+              Retry {job.retryCount}
+            </span>
+          )}
+          {job.status === JobStatus.CANCELLED && (
+            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-slate-100 text-slate-600">
+              <Ban className="w-3 h-3 mr-1" />
+              Cancelled
+            </span>
+          )}
           {job.status === JobStatus.COMPLETED && (
             <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
               <CheckCircle className="w-3 h-3 mr-1" />
               Done
             </span>
           )}
+          {job.status === JobStatus.COMPLETED && job.document && (
+            <span 
+              className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-indigo-50 text-indigo-700"
+              title="Converted in structured mode"
+            >
+              <ListChecks className="w-3 h-3 mr-1" />
+              {countQuestions(job.document)} Questions
+            </span>
+          )}
+          {job.sanitizerReport && job.sanitizerReport.length > 0 && (
+            <span 
+              className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-orange-100 text-orange-800"
+              title={`Removed from AI output:\n${job.sanitizerReport.join('\n')}`}
+            >
+              <ShieldAlert className="w-3 h-3 mr-1" />
+              Sanitized ({job.sanitizerReport.length})
+            </span>
+          )}
+          {job.status === JobStatus.COMPLETED && job.fidelity && (
+            <button
+              onClick={() => onShowFidelity(job.id)}
+              className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium transition-colors ${needsReview ? 'bg-amber-100 text-amber-800 hover:bg-amber-200' : 'bg-teal-50 text-teal-700 hover:bg-teal-100'}`}
+              title="Similarity of the rendered page to the original. Click to see where they differ."
+            >
+              <ScanEye className="w-3 h-3 mr-1" />
+              {needsReview ? `Review (${job.fidelity.score}%)` : `Match ${job.fidelity.score}%`}
+            </button>
+          )}
+          {job.status === JobStatus.COMPLETED && !!job.cachedTasks?.length && (
+            <button
+              onClick={() => onRetry(job.id)}
+              className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-sky-50 text-sky-700 hover:bg-sky-100 transition-colors"
+              title={`Served from the local cache: ${job.cachedTasks.join(', ')}.\nClick to convert this page again with a fresh API call.`}
+            >
+              <Database className="w-3 h-3 mr-1" />
+              Cached
+            </button>
+          )}
+          {job.variants?.map(variant => (
+            <button
+              key={variant.label}
+              onClick={() => onPreviewVariant(variant.label)}
+              disabled={variant.status !== JobStatus.COMPLETED}
+              className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium transition-colors ${
+                variant.status === JobStatus.COMPLETED && variant.verification?.failed ? 'bg-amber-100 text-amber-800 hover:bg-amber-200'
+                : variant.status === JobStatus.COMPLETED ? 'bg-purple-100 text-purple-800 hover:bg-purple-200'
+                : variant.status === JobStatus.ERROR ? 'bg-red-100 text-red-800'
+                : 'bg-slate-100 text-slate-600'
+              }`}
+              title={variant.error || [
+                `Set ${variant.label} (${variant.difficulty}${variant.seed !== undefined ? `, seed ${variant.seed}` : ''})${variant.solutionHtml ? ', answer key ready' : ''}`,
+                ...(variant.verification ? [
+                  `Number checks: ${variant.verification.checks.length - variant.verification.failed}/${variant.verification.checks.length} passed`,
+                  ...variant.verification.checks.filter(c => !c.passed).map(c => `Q${c.question} ${c.description}: ${c.detail}`),
+                ] : []),
+              ].join('\n')}
+            >
+              {variant.status === JobStatus.PROCESSING && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+              {variant.status === JobStatus.QUEUED && <Clock className="w-3 h-3 mr-1" />}
+              {variant.status === JobStatus.ERROR && <AlertCircle className="w-3 h-3 mr-1" />}
+              {variant.status === JobStatus.CANCELLED && <Ban className="w-3 h-3 mr-1" />}
+              {variant.status === JobStatus.COMPLETED && !!variant.verification?.failed && <AlertTriangle className="w-3 h-3 mr-1" />}
+              Set {variant.label}{variant.solutionHtml ? ' ✓' : ''}
+            </button>
+          ))}
           {job.status === JobStatus.ERROR && (
             <span 
               className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800"
@@ -80,6 +187,27 @@ export const JobItem: React.FC<JobItemProps> = ({ job, onRemove, onPreview, onCr
           </>
         )}
 
+        {canCancel && (
+          <button
+            onClick={() => onCancel(job.id)}
+            className="p-2 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors"
+            title="Cancel. Queued work is dropped and running requests are aborted."
+          >
+            <XCircle className="w-5 h-5" />
+          </button>
+        )}
+
+        {job.status === JobStatus.CANCELLED && (
+          <button
+            onClick={() => onRetry(job.id)}
+            className="p-2 text-slate-700 hover:bg-slate-100 rounded-full transition-colors flex items-center gap-1 px-3 bg-slate-50 border border-slate-200"
+            title="Queue this file again"
+          >
+            <RefreshCw className="w-4 h-4" />
+            <span className="text-xs font-bold">Re-queue</span>
+          </button>
+        )}
+
         {job.status === JobStatus.ERROR && (
           <button
             onClick={() => onRetry(job.id)}
@@ -91,6 +219,17 @@ export const JobItem: React.FC<JobItemProps> = ({ job, onRemove, onPreview, onCr
           </button>
         )}
         
+        {job.status === JobStatus.COMPLETED && (
+          <button
+            onClick={() => onSaveToBank(job.id)}
+            disabled={!job.document}
+            className="p-2 text-slate-500 hover:text-brand-600 hover:bg-brand-50 rounded-full transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-500"
+            title={job.document ? 'Save questions to the question bank' : 'Only pages converted in structured mode can be saved to the question bank'}
+          >
+            <Library className="w-5 h-5" />
+          </button>
+        )}
+
         {job.status === JobStatus.COMPLETED && job.resultHtml && (
           <button
             onClick={() => onPreview(job.resultHtml!)}
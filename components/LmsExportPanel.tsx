@@ -0,0 +1,56 @@
+import React from 'react';
+import { GraduationCap, FileCode, Package, FileText } from 'lucide-react';
+import { LmsFormat } from '../utils/lmsExport';
+
+export interface LmsSummary {
+  questions: number;
+  mcqs: number; // MCQs with an answer marked in the solutions
+  skipped: number; // MCQs without an answer; they cannot be graded and are left out
+  freeFormPages: number; // Their questions cannot be exported
+}
+
+interface LmsExportPanelProps {
+  summary: LmsSummary;
+  onExport: (format: LmsFormat) => void;
+}
+
+const FORMATS: { format: LmsFormat; label: string; icon: React.ElementType; title: string }[] = [
+  { format: 'moodle', label: 'Moodle XML', icon: FileCode, title: 'Moodle question bank import (Question bank > Import > Moodle XML format)' },
+  { format: 'qti', label: 'QTI 2.1', icon: Package, title: 'IMS QTI 2.1 content package (.zip) for Canvas, Blackboard, TAO and others' },
+  { format: 'gift', label: 'GIFT', icon: FileText, title: 'Plain-text GIFT format; marks are noted in comments' },
+];
+
+export const LmsExportPanel: React.FC<LmsExportPanelProps> = ({ summary, onExport }) => (
+  <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+    <div className="flex items-center justify-between pb-2 border-b border-slate-100 mb-3">
+      <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+        <GraduationCap className="w-4 h-4 text-brand-600" />
+        LMS Export
+      </h3>
+      <span className="text-xs text-slate-500" title="Detected from the structured pages">
+        {summary.questions} question(s) · {summary.mcqs} MCQ
+      </span>
+    </div>
+
+    <div className="grid grid-cols-3 gap-2">
+      {FORMATS.map(({ format, label, icon: Icon, title }) => (
+        <button
+          key={format}
+          onClick={() => onExport(format)}
+          disabled={summary.questions === 0}
+          title={title}
+          className="flex items-center justify-center gap-1.5 py-2 px-2 rounded-lg text-xs font-medium border border-brand-200 text-brand-700 bg-brand-50 hover:bg-brand-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Icon className="w-3.5 h-3.5" />
+          {label}
+        </button>
+      ))}
+    </div>
+    {summary.skipped > 0 && (
+      <p className="text-xs text-amber-600 mt-2">{summary.skipped} MCQ(s) have no answer marked in the solutions and are left out. Generate solutions to include them.</p>
+    )}
+    {summary.freeFormPages > 0 && (
+      <p className="text-xs text-slate-400 mt-2">{summary.freeFormPages} free-form page(s) not included; convert them in structured mode.</p>
+    )}
+  </div>
+);
@@ -0,0 +1,71 @@
+import React from 'react';
+import { ScanLine, FileDown } from 'lucide-react';
+import { OmrSettings } from '../utils/omrSheet';
+
+export interface OmrSummary {
+  mcqs: number;
+  optionLetters: string[]; // Every bubble letter used, e.g. ["A", "B", "C", "D"]
+  freeFormPages: number; // Their MCQs cannot be counted
+}
+
+interface OmrSheetPanelProps {
+  settings: OmrSettings;
+  summary: OmrSummary;
+  onChange: (settings: OmrSettings) => void;
+  onDownload: () => void;
+}
+
+export const OmrSheetPanel: React.FC<OmrSheetPanelProps> = ({ settings, summary, onChange, onDownload }) => {
+  const update = (changes: Partial<OmrSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+      <div className="flex items-center justify-between pb-2 border-b border-slate-100 mb-3">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <ScanLine className="w-4 h-4 text-brand-600" />
+          OMR Answer Sheet
+        </h3>
+        <span className="text-xs text-slate-500" title="Detected from the structured pages">
+          {summary.mcqs} MCQ{summary.optionLetters.length > 0 ? ` · ${summary.optionLetters.join('')}` : ''}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs font-semibold text-slate-500 mb-1">Roll No. Digits</label>
+          <input
+            type="number"
+            min={1}
+            max={12}
+            value={settings.rollDigits}
+            onChange={(e) => update({ rollDigits: Math.min(12, Math.max(1, Math.floor(Number(e.target.value) || 1))) })}
+            className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-semibold text-slate-500 mb-1">Set Codes</label>
+          <input
+            type="text"
+            value={settings.setCodes.join(', ')}
+            onChange={(e) => update({ setCodes: e.target.value.split(/[,\s]+/).map(c => c.trim()).filter(Boolean).slice(0, 10) })}
+            placeholder="None"
+            className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none"
+            title="Comma-separated, e.g. A, B, C, D. Leave empty to hide the set code block."
+          />
+        </div>
+      </div>
+
+      <button
+        onClick={onDownload}
+        disabled={summary.mcqs === 0}
+        className="mt-3 w-full flex items-center justify-center gap-2 py-2 px-3 rounded-lg text-sm font-medium border border-brand-200 text-brand-700 bg-brand-50 hover:bg-brand-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <FileDown className="w-4 h-4" />
+        Download OMR Sheet (PDF)
+      </button>
+      {summary.freeFormPages > 0 && (
+        <p className="text-xs text-slate-400 mt-2">{summary.freeFormPages} free-form page(s) not included; convert them in structured mode.</p>
+      )}
+    </div>
+  );
+};
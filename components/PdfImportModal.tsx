@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { X, FileDown, Loader2, AlertCircle } from 'lucide-react';
+import { DEFAULT_PDF_DPI, DPI_OPTIONS, getPdfPageCount, parsePageRange, renderPdfPages } from '../utils/pdfUtils';
+
+interface PdfImportModalProps {
+  file: File;
+  onClose: () => void;
+  onImport: (pageFiles: File[]) => void;
+}
+
+export const PdfImportModal: React.FC<PdfImportModalProps> = ({ file, onClose, onImport }) => {
+  const [pageCount, setPageCount] = useState<number | null>(null);
+  const [pageRange, setPageRange] = useState('');
+  const [dpi, setDpi] = useState(DEFAULT_PDF_DPI);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPageCount(null);
+    setError(null);
+    getPdfPageCount(file)
+      .then(count => { if (!cancelled) setPageCount(count); })
+      .catch(err => {
+        console.error("Failed to open PDF", err);
+        if (!cancelled) setError('Could not open this PDF. It may be damaged or password protected.');
+      });
+    return () => { cancelled = true; };
+  }, [file]);
+
+  let selectedPages: number[] = [];
+  let rangeError: string | null = null;
+  if (pageCount !== null) {
+    try {
+      selectedPages = parsePageRange(pageRange, pageCount);
+    } catch (e: any) {
+      rangeError = e.message;
+    }
+  }
+
+  const handleImport = async () => {
+    if (selectedPages.length === 0) return;
+    setError(null);
+    setProgress({ done: 0, total: selectedPages.length });
+    try {
+      const pageFiles = await renderPdfPages(file, selectedPages, dpi, (done, total) => setProgress({ done, total }));
+      onImport(pageFiles);
+    } catch (e: any) {
+      console.error("Failed to render PDF pages", e);
+      setError(e.message || 'Failed to render PDF pages');
+      setProgress(null);
+    }
+  };
+
+  const isRendering = progress !== null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-slate-100 bg-slate-50">
+          <h3 className="font-semibold text-slate-800 truncate">Import PDF: {file.name}</h3>
+          <button
+            onClick={onClose}
+            disabled={isRendering}
+            className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-200 rounded-full transition-colors disabled:opacity-50"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <p className="text-sm text-slate-600">
+            {pageCount === null && !error ? 'Reading PDF...' : pageCount !== null ? `${pageCount} page${pageCount === 1 ? '' : 's'} found. Each selected page becomes a separate job.` : ''}
+          </p>
+
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1">Pages</label>
+            <input
+              type="text"
+              value={pageRange}
+              onChange={(e) => setPageRange(e.target.value)}
+              placeholder="All pages (or e.g. 1-5, 8, 10-12)"
+              disabled={pageCount === null || isRendering}
+              className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none"
+            />
+            {rangeError ? (
+              <p className="text-xs text-red-600 mt-1">{rangeError}</p>
+            ) : pageCount !== null && (
+              <p className="text-xs text-slate-400 mt-1">{selectedPages.length} page{selectedPages.length === 1 ? '' : 's'} selected</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1">Resolution (DPI)</label>
+            <select
+              value={dpi}
+              onChange={(e) => setDpi(Number(e.target.value))}
+              disabled={isRendering}
+              className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none bg-white"
+            >
+              {DPI_OPTIONS.map(d => (
+                <option key={d} value={d}>{d} DPI{d === DEFAULT_PDF_DPI ? ' (recommended)' : ''}</option>
+              ))}
+            </select>
+          </div>
+
+          {progress && (
+            <div>
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div className="h-full bg-brand-600 transition-all" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+              </div>
+              <p className="text-xs text-slate-500 mt-1">Rendering page {Math.min(progress.done + 1, progress.total)} of {progress.total}...</p>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-start gap-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded p-2">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 bg-slate-50 border-t border-slate-200 flex items-center justify-end gap-4">
+          <button
+            onClick={onClose}
+            disabled={isRendering}
+            className="px-4 py-2 text-slate-600 bg-white border border-slate-300 hover:bg-slate-50 rounded-lg font-medium transition-colors disabled:opacity-50"
+          >
+            Skip
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={isRendering || pageCount === null || !!rangeError || selectedPages.length === 0}
+            className="px-4 py-2 bg-brand-600 text-white hover:bg-brand-700 rounded-lg font-medium flex items-center gap-2 shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRendering ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
+            Import Pages
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { X, Save, AlignLeft, AlignCenter, AlignRight, Check, AlertCircle, Bold, Italic, Underline, Type } from 'lucide-react';
+import { cleanHtml } from '../utils/sanitizeHtml';
+import { renderFormula, renderMathInHtml, restoreTex } from '../utils/mathUtils';
 
 interface PreviewModalProps {
   html: string;
@@ -37,7 +39,7 @@ export const PreviewModal: React.FC<PreviewModalProps> = ({ html, jobId, onClose
   // Initialize the editable div with the HTML
   useEffect(() => {
     if (contentRef.current) {
-        contentRef.current.innerHTML = html;
+        contentRef.current.innerHTML = renderMathInHtml(cleanHtml(html), 'html');
         // Enable CSS styling for execCommand
         document.execCommand('styleWithCSS', false, 'true');
     }
@@ -46,7 +48,8 @@ export const PreviewModal: React.FC<PreviewModalProps> = ({ html, jobId, onClose
   const handleSave = () => {
     setIsSaving(true);
     if (contentRef.current) {
-        const editedContent = contentRef.current.innerHTML;
+        // Store TeX source, not KaTeX markup, so formulas stay editable and re-render in every export
+        const editedContent = restoreTex(contentRef.current.innerHTML);
         
         // Wrap the content in a div that applies the margins as inline styles
         const wrapperStyle = `padding: ${margins.top}mm ${margins.right}mm ${margins.bottom}mm ${margins.left}mm; width: 100%; box-sizing: border-box;`;
@@ -58,6 +61,15 @@ export const PreviewModal: React.FC<PreviewModalProps> = ({ html, jobId, onClose
     setTimeout(() => setIsSaving(false), 500);
   };
 
+  // Formulas are rendered read-only; double-click one to edit its TeX source
+  const handleDoubleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const formula = (e.target as HTMLElement).closest('.math-tex');
+    if (!formula) return;
+    const tex = window.prompt('Edit formula (LaTeX):', formula.getAttribute('data-tex') || '');
+    if (tex === null) return;
+    formula.outerHTML = renderFormula(tex, formula.getAttribute('data-display') === 'true', 'html');
+  };
+
   const executeCommand = (command: string, value?: string) => {
     document.execCommand(command, false, value);
   };
@@ -179,7 +191,7 @@ export const PreviewModal: React.FC<PreviewModalProps> = ({ html, jobId, onClose
             
             <div className="px-4 py-1 bg-yellow-50 text-yellow-700 text-xs flex items-center gap-2 border-b border-yellow-100">
                 <AlertCircle className="w-3 h-3" />
-                <span>Select text to change font/size. Click anywhere to type or fix spacing. <strong>Changes are saved on 'Save Changes'</strong>.</span>
+                <span>Select text to change font/size. Click anywhere to type or fix spacing. Double-click a formula to edit its LaTeX. <strong>Changes are saved on 'Save Changes'</strong>.</span>
             </div>
         </div>
         
@@ -200,6 +212,7 @@ export const PreviewModal: React.FC<PreviewModalProps> = ({ html, jobId, onClose
                <div 
                   ref={contentRef}
                   contentEditable
+                  onDoubleClick={handleDoubleClick}
                   className="outline-none min-h-full"
                   style={{ width: '100%' }}
                   spellCheck={false}
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { BookText, Settings2 } from 'lucide-react';
+import { PromptVariant, getActivePromptVariant, getPromptVariants, groupBySubject, setActivePromptVariant } from '../services/promptLibrary';
+import { PromptManagerModal } from './PromptManagerModal';
+
+export const PromptLibrary: React.FC = () => {
+  const [variants, setVariants] = useState<PromptVariant[]>(getPromptVariants());
+  const [activeId, setActiveId] = useState<string>(getActivePromptVariant().id);
+  const [isManagerOpen, setIsManagerOpen] = useState(false);
+
+  const refresh = () => {
+    setVariants(getPromptVariants());
+    setActiveId(getActivePromptVariant().id);
+  };
+
+  const handleSelect = (id: string) => {
+    setActivePromptVariant(id);
+    refresh();
+  };
+
+  const active = variants.find(v => v.id === activeId);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+      <div className="flex items-center justify-between pb-2 border-b border-slate-100 mb-3">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <BookText className="w-4 h-4 text-brand-600" />
+          Prompt Library
+        </h3>
+        <button
+          onClick={() => setIsManagerOpen(true)}
+          className="flex items-center gap-1 px-2 py-1 rounded text-xs font-medium border bg-white text-slate-600 border-slate-300 hover:bg-slate-50 transition-colors"
+          title="View, edit, import and export prompts"
+        >
+          <Settings2 className="w-3 h-3" />
+          Manage
+        </button>
+      </div>
+
+      <label className="block text-xs font-semibold text-slate-500 mb-1">Active Prompts</label>
+      <select
+        value={activeId}
+        onChange={(e) => handleSelect(e.target.value)}
+        className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none bg-white"
+      >
+        {groupBySubject(variants).map(([subject, group]) => (
+          <optgroup key={subject} label={subject}>
+            {group.map(v => <option key={v.id} value={v.id}>{v.name} (v{v.version})</option>)}
+          </optgroup>
+        ))}
+      </select>
+      {active && (
+        <p className="text-xs text-slate-400 mt-2">
+          New conversions record "{active.name} v{active.version}".
+        </p>
+      )}
+
+      {isManagerOpen && (
+        <PromptManagerModal
+          initialVariantId={activeId}
+          onChange={refresh}
+          onClose={() => { setIsManagerOpen(false); refresh(); }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,275 @@
+import React, { useRef, useState } from 'react';
+import { X, Save, Copy, Trash2, RotateCcw, Download, Upload, BookText, AlertCircle } from 'lucide-react';
+import {
+  DEFAULT_VARIANT_ID,
+  PROMPT_LABELS,
+  PromptKey,
+  PromptVariant,
+  createPromptVariant,
+  deletePromptVariant,
+  exportPromptPack,
+  getPromptVariants,
+  groupBySubject,
+  importPromptPack,
+  resetPromptVariant,
+  savePromptVariant,
+} from '../services/promptLibrary';
+
+interface PromptManagerModalProps {
+  initialVariantId: string;
+  onChange: () => void; // Called after anything in the library was saved
+  onClose: () => void;
+}
+
+export const PromptManagerModal: React.FC<PromptManagerModalProps> = ({ initialVariantId, onChange, onClose }) => {
+  const [variants, setVariants] = useState<PromptVariant[]>(getPromptVariants());
+  const [draft, setDraft] = useState<PromptVariant>(
+    () => variants.find(v => v.id === initialVariantId) || variants[0]
+  );
+  const [activeKey, setActiveKey] = useState<PromptKey>('convert');
+  const [isDirty, setIsDirty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const isBuiltIn = draft.id === DEFAULT_VARIANT_ID;
+
+  const reload = (selectId: string) => {
+    const updated = getPromptVariants();
+    setVariants(updated);
+    setDraft(updated.find(v => v.id === selectId) || updated[0]);
+    setIsDirty(false);
+    setError(null);
+    onChange();
+  };
+
+  const confirmDiscard = () => !isDirty || window.confirm("Discard unsaved prompt changes?");
+
+  const handleSelect = (id: string) => {
+    if (!confirmDiscard()) return;
+    setDraft(variants.find(v => v.id === id)!);
+    setIsDirty(false);
+    setError(null);
+  };
+
+  const updateDraft = (changes: Partial<PromptVariant>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setIsDirty(true);
+  };
+
+  const updatePrompt = (changes: { text?: string; temperature?: number }) => {
+    setDraft(prev => ({
+      ...prev,
+      prompts: { ...prev.prompts, [activeKey]: { ...prev.prompts[activeKey], ...changes } },
+    }));
+    setIsDirty(true);
+  };
+
+  const handleSave = () => {
+    reload(savePromptVariant(draft).id);
+  };
+
+  const handleDuplicate = () => {
+    if (!confirmDiscard()) return;
+    const copy = createPromptVariant(`${draft.name} (copy)`, draft.subject, draft);
+    reload(copy.id);
+  };
+
+  const handleReset = () => {
+    if (!window.confirm(`Reset every prompt in "${draft.name}" to the built-in defaults?`)) return;
+    resetPromptVariant(draft.id);
+    reload(draft.id);
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the prompt variant "${draft.name}"?`)) return;
+    deletePromptVariant(draft.id);
+    reload(DEFAULT_VARIANT_ID);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPromptPack(variants)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'snap2print-prompts.json';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !confirmDiscard()) return;
+    try {
+      const imported = importPromptPack(await file.text());
+      reload(imported[0]?.id || draft.id);
+    } catch (err: any) {
+      setError(err.message || 'Import failed');
+    }
+  };
+
+  const customCount = variants.length - 1;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-slate-100 bg-slate-50">
+          <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+            <BookText className="w-5 h-5 text-brand-600" />
+            Prompt Library
+          </h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm text-slate-700 bg-white border border-slate-300 hover:bg-slate-50 rounded-lg transition-colors"
+            >
+              <Upload className="w-4 h-4" /> Import
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={customCount === 0}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm text-slate-700 bg-white border border-slate-300 hover:bg-slate-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Download all custom variants as a JSON prompt pack"
+            >
+              <Download className="w-4 h-4" /> Export ({customCount})
+            </button>
+            <input type="file" accept="application/json,.json" ref={importInputRef} onChange={handleImport} className="hidden" />
+            <button
+              onClick={() => { if (confirmDiscard()) onClose(); }}
+              className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-200 rounded-full transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Variant list */}
+          <div className="w-56 border-r border-slate-200 overflow-y-auto bg-slate-50 p-2">
+            {groupBySubject(variants).map(([subject, group]) => (
+              <div key={subject} className="mb-3">
+                <p className="px-2 py-1 text-[10px] font-semibold text-slate-400 uppercase tracking-wider">{subject}</p>
+                {group.map(v => (
+                  <button
+                    key={v.id}
+                    onClick={() => handleSelect(v.id)}
+                    className={`w-full text-left px-2 py-1.5 rounded text-sm transition-colors ${v.id === draft.id ? 'bg-brand-100 text-brand-800 font-medium' : 'text-slate-700 hover:bg-slate-100'}`}
+                  >
+                    {v.name} <span className="text-xs text-slate-400">v{v.version}</span>
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 flex flex-col min-w-0 p-4 gap-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={draft.name}
+                  disabled={isBuiltIn}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                  className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none disabled:bg-slate-50 disabled:text-slate-400"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 mb-1">Subject</label>
+                <input
+                  type="text"
+                  value={draft.subject}
+                  disabled={isBuiltIn}
+                  placeholder="e.g. Physics, Accountancy"
+                  onChange={(e) => updateDraft({ subject: e.target.value })}
+                  className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none disabled:bg-slate-50 disabled:text-slate-400"
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-1 border-b border-slate-200">
+              {(Object.keys(PROMPT_LABELS) as PromptKey[]).map(key => (
+                <button
+                  key={key}
+                  onClick={() => setActiveKey(key)}
+                  className={`px-3 py-1.5 text-sm border-b-2 -mb-px transition-colors ${key === activeKey ? 'border-brand-600 text-brand-700 font-medium' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+                >
+                  {PROMPT_LABELS[key]}
+                </button>
+              ))}
+            </div>
+
+            <textarea
+              value={draft.prompts[activeKey].text}
+              readOnly={isBuiltIn}
+              onChange={(e) => updatePrompt({ text: e.target.value })}
+              spellCheck={false}
+              className="flex-1 min-h-0 w-full p-3 border border-slate-300 rounded text-xs font-mono leading-relaxed focus:border-brand-500 outline-none resize-none read-only:bg-slate-50 read-only:text-slate-500"
+            />
+
+            <div className="flex items-center gap-3">
+              <label className="text-xs font-semibold text-slate-500">Temperature</label>
+              <input
+                type="range"
+                min={0}
+                max={2}
+                step={0.05}
+                value={draft.prompts[activeKey].temperature}
+                disabled={isBuiltIn}
+                onChange={(e) => updatePrompt({ temperature: Number(e.target.value) })}
+                className="w-48 accent-brand-600"
+              />
+              <span className="text-sm font-mono text-slate-700 w-10">{draft.prompts[activeKey].temperature.toFixed(2)}</span>
+              {isBuiltIn && (
+                <span className="text-xs text-slate-400 italic">Built-in prompts are read-only. Duplicate them to make changes.</span>
+              )}
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600 flex items-center gap-1">
+                <AlertCircle className="w-4 h-4" /> {error}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 bg-slate-50 border-t border-slate-200 flex justify-between gap-3">
+          <div className="flex gap-2">
+            <button
+              onClick={handleDuplicate}
+              className="flex items-center gap-1 px-4 py-2 text-slate-700 bg-white border border-slate-300 hover:bg-slate-50 rounded-lg font-medium transition-colors"
+            >
+              <Copy className="w-4 h-4" /> Duplicate
+            </button>
+            {!isBuiltIn && (
+              <>
+                <button
+                  onClick={handleReset}
+                  className="flex items-center gap-1 px-4 py-2 text-slate-700 bg-white border border-slate-300 hover:bg-slate-50 rounded-lg font-medium transition-colors"
+                >
+                  <RotateCcw className="w-4 h-4" /> Reset to Defaults
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="flex items-center gap-1 px-4 py-2 text-red-600 bg-white border border-red-200 hover:bg-red-50 rounded-lg font-medium transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" /> Delete
+                </button>
+              </>
+            )}
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={isBuiltIn || !isDirty}
+            className="flex items-center gap-1 px-4 py-2 bg-brand-600 text-white hover:bg-brand-700 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="w-4 h-4" /> Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
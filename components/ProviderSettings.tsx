@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Cpu } from 'lucide-react';
+import {
+  AiProviderConfig,
+  AiProviderId,
+  DEFAULT_MODELS,
+  PROVIDER_LABELS,
+  getProviderConfig,
+  setProviderConfig,
+} from '../services/aiProvider';
+
+export const ProviderSettings: React.FC = () => {
+  const [config, setConfig] = useState<AiProviderConfig>(getProviderConfig());
+
+  const updateConfig = (changes: Partial<AiProviderConfig>) => {
+    const newConfig = { ...config, ...changes };
+    setConfig(newConfig);
+    setProviderConfig(newConfig);
+  };
+
+  const handleProviderChange = (provider: AiProviderId) => {
+    // Model names are provider specific, so reset to the new provider's default
+    updateConfig({ provider, model: DEFAULT_MODELS[provider] });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+      <div className="flex items-center justify-between pb-2 border-b border-slate-100 mb-3">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <Cpu className="w-4 h-4 text-brand-600" />
+          AI Provider
+        </h3>
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <label className="block text-xs font-semibold text-slate-500 mb-1">Provider</label>
+          <select
+            value={config.provider}
+            onChange={(e) => handleProviderChange(e.target.value as AiProviderId)}
+            className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none bg-white"
+          >
+            {(Object.keys(PROVIDER_LABELS) as AiProviderId[]).map(id => (
+              <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-xs font-semibold text-slate-500 mb-1">Model</label>
+          <input
+            type="text"
+            value={config.model}
+            placeholder={DEFAULT_MODELS[config.provider]}
+            onChange={(e) => updateConfig({ model: e.target.value })}
+            disabled={config.provider === 'mock'}
+            className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none disabled:bg-slate-50 disabled:text-slate-400"
+          />
+        </div>
+
+        {config.provider === 'openai' && (
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1">Base URL</label>
+            <input
+              type="text"
+              value={config.baseUrl}
+              placeholder="http://localhost:11434/v1"
+              onChange={(e) => updateConfig({ baseUrl: e.target.value })}
+              className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none font-mono"
+            />
+          </div>
+        )}
+
+        {config.provider !== 'mock' && (
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1">
+              API Key {config.provider === 'gemini' ? '(optional, overrides env)' : '(optional for local servers)'}
+            </label>
+            <input
+              type="password"
+              value={config.apiKey}
+              onChange={(e) => updateConfig({ apiKey: e.target.value })}
+              className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none"
+            />
+          </div>
+        )}
+
+        {config.provider === 'mock' && (
+          <p className="text-xs text-slate-400 italic">
+            Returns canned HTML instantly. No network or API key needed.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
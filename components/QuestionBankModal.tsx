@@ -0,0 +1,282 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Library, Trash2, Search, Save, Plus, Pencil } from 'lucide-react';
+import { BankDifficulty, BankQuestion, QuestionOption } from '../types';
+import { BankFilters, deleteBankQuestion, DIFFICULTY_LABELS, EMPTY_BANK_FILTERS, filterBankQuestions, getTagValues, isMcq, listBankQuestions, subscribeToBank, updateBankQuestion } from '../services/questionBank';
+import { renderQuestion } from '../utils/paperDocument';
+import { cleanHtml } from '../utils/sanitizeHtml';
+import { renderMathInHtml } from '../utils/mathUtils';
+import { normalizeOptionLabel } from '../utils/answerKey';
+
+interface QuestionBankModalProps {
+  onClose: () => void;
+}
+
+const stripTags = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+const inputClass = 'w-full text-sm border border-slate-300 rounded px-2 py-1.5 focus:ring-2 focus:ring-brand-500 outline-none';
+
+export const QuestionBankModal: React.FC<QuestionBankModalProps> = ({ onClose }) => {
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [filters, setFilters] = useState<BankFilters>(EMPTY_BANK_FILTERS);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<BankQuestion | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const refresh = () => listBankQuestions().then(setQuestions).catch(e => setError(e.message || 'Could not read the question bank'));
+    refresh();
+    return subscribeToBank(refresh);
+  }, []);
+
+  const visible = useMemo(() => filterBankQuestions(questions, filters), [questions, filters]);
+  const selected = questions.find(q => q.id === selectedId);
+  const subjects = getTagValues(questions, 'subject');
+  const chapters = getTagValues(filters.subject ? questions.filter(q => q.subject === filters.subject) : questions, 'chapter');
+  const marksValues = Array.from(new Set<number>(questions.map(q => q.question.marks).filter((m): m is number => m !== undefined))).sort((a, b) => a - b);
+
+  useEffect(() => {
+    if (previewRef.current && selected && !draft) {
+      previewRef.current.innerHTML = renderMathInHtml(cleanHtml(renderQuestion(selected.question) + (selected.solutionHtml || '')), 'html');
+    }
+  }, [selected, draft]);
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    setDraft(null);
+  };
+
+  const handleDelete = async (question: BankQuestion) => {
+    if (!window.confirm(`Delete question ${question.question.number} (${question.subject}) from the bank?`)) return;
+    if (question.id === selectedId) {
+      setSelectedId(null);
+      setDraft(null);
+    }
+    await deleteBankQuestion(question.id);
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+    try {
+      await updateBankQuestion(draft);
+      setDraft(null);
+    } catch (e: any) {
+      setError(e.message || 'Could not save the question');
+    }
+  };
+
+  const updateDraftQuestion = (changes: Partial<BankQuestion['question']>) =>
+    draft && setDraft({ ...draft, question: { ...draft.question, ...changes } });
+
+  const updateOption = (index: number, changes: Partial<QuestionOption>) =>
+    updateDraftQuestion({ options: draft!.question.options!.map((o, i) => i === index ? { ...o, ...changes } : o) });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-slate-100 bg-slate-50">
+          <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+            <Library className="w-5 h-5 text-brand-600" />
+            Question Bank
+          </h3>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-3 border-b border-slate-100 flex flex-wrap items-center gap-2 text-sm">
+          <div className="relative flex-1 min-w-[12rem]">
+            <Search className="w-4 h-4 text-slate-400 absolute left-2 top-1/2 -translate-y-1/2" />
+            <input
+              value={filters.query}
+              onChange={(e) => setFilters({ ...filters, query: e.target.value })}
+              placeholder="Search questions, options and tags"
+              className={`${inputClass} pl-8`}
+            />
+          </div>
+          <select value={filters.subject} onChange={(e) => setFilters({ ...filters, subject: e.target.value, chapter: '' })} className="border border-slate-300 rounded px-2 py-1.5 bg-white">
+            <option value="">All subjects</option>
+            {subjects.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+          <select value={filters.chapter} onChange={(e) => setFilters({ ...filters, chapter: e.target.value })} className="border border-slate-300 rounded px-2 py-1.5 bg-white">
+            <option value="">All chapters</option>
+            {chapters.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <select value={filters.difficulty} onChange={(e) => setFilters({ ...filters, difficulty: e.target.value as BankDifficulty | '' })} className="border border-slate-300 rounded px-2 py-1.5 bg-white">
+            <option value="">Any difficulty</option>
+            {(Object.keys(DIFFICULTY_LABELS) as BankDifficulty[]).map(d => <option key={d} value={d}>{DIFFICULTY_LABELS[d]}</option>)}
+          </select>
+          <select
+            value={filters.marks === undefined ? '' : String(filters.marks)}
+            onChange={(e) => setFilters({ ...filters, marks: e.target.value === '' ? undefined : Number(e.target.value) })}
+            className="border border-slate-300 rounded px-2 py-1.5 bg-white"
+          >
+            <option value="">Any marks</option>
+            {marksValues.map(m => <option key={m} value={m}>{m} mark{m === 1 ? '' : 's'}</option>)}
+          </select>
+          <select value={filters.type} onChange={(e) => setFilters({ ...filters, type: e.target.value as BankFilters['type'] })} className="border border-slate-300 rounded px-2 py-1.5 bg-white">
+            <option value="">MCQ & descriptive</option>
+            <option value="mcq">MCQ only</option>
+            <option value="descriptive">Descriptive only</option>
+          </select>
+        </div>
+
+        {error && <div className="px-4 py-2 text-sm text-red-700 bg-red-50 border-b border-red-100">{error}</div>}
+
+        <div className="flex-1 flex min-h-0">
+          <div className="w-1/2 overflow-y-auto border-r border-slate-100">
+            {visible.length === 0 ? (
+              <p className="p-6 text-sm text-slate-400 text-center">
+                {questions.length === 0
+                  ? 'The bank is empty. Save questions from completed structured pages with the bank button on each page.'
+                  : 'No questions match the search and filters.'}
+              </p>
+            ) : (
+              <ul className="divide-y divide-slate-100">
+                {visible.map(q => (
+                  <li
+                    key={q.id}
+                    onClick={() => handleSelect(q.id)}
+                    className={`px-3 py-2 cursor-pointer flex items-start gap-2 ${q.id === selectedId ? 'bg-brand-50' : 'hover:bg-slate-50'}`}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-slate-800 line-clamp-2">{stripTags(q.question.text)}</p>
+                      <p className="text-xs text-slate-400 mt-0.5">
+                        {q.subject}{q.chapter ? ` · ${q.chapter}` : ''} · {DIFFICULTY_LABELS[q.difficulty]}
+                        {q.question.marks !== undefined ? ` · ${q.question.marks} mark(s)` : ''}
+                        {isMcq(q.question) ? ` · MCQ${q.answer ? ` (${q.answer})` : ''}` : ''}
+                      </p>
+                    </div>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleDelete(q); }}
+                      className="p-1 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                      title="Delete from the bank"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="w-1/2 flex flex-col min-h-0">
+            {!selected ? (
+              <div className="flex-1 flex flex-col items-center justify-center text-slate-400 text-sm gap-2">
+                <Library className="w-6 h-6" />
+                Select a question to preview or edit it.
+              </div>
+            ) : !draft ? (
+              <>
+                <div className="p-3 border-b border-slate-100 flex items-center justify-between text-xs text-slate-500">
+                  <span>From {selected.source} · saved {new Date(selected.createdAt).toLocaleDateString()}</span>
+                  <button
+                    onClick={() => setDraft(selected)}
+                    className="flex items-center gap-1 px-2 py-1 rounded font-medium border bg-white text-slate-600 border-slate-300 hover:bg-slate-50 transition-colors"
+                  >
+                    <Pencil className="w-3 h-3" /> Edit
+                  </button>
+                </div>
+                <div ref={previewRef} className="flex-1 overflow-auto p-4 text-sm" />
+              </>
+            ) : (
+              <>
+                <div className="flex-1 overflow-y-auto p-4 space-y-3 text-sm">
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="block text-xs font-medium text-slate-500 mb-1">Subject</label>
+                      <input value={draft.subject} onChange={(e) => setDraft({ ...draft, subject: e.target.value })} className={inputClass} />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-slate-500 mb-1">Chapter</label>
+                      <input value={draft.chapter} onChange={(e) => setDraft({ ...draft, chapter: e.target.value })} className={inputClass} />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-slate-500 mb-1">Difficulty</label>
+                      <select value={draft.difficulty} onChange={(e) => setDraft({ ...draft, difficulty: e.target.value as BankDifficulty })} className={`${inputClass} bg-white`}>
+                        {(Object.keys(DIFFICULTY_LABELS) as BankDifficulty[]).map(d => <option key={d} value={d}>{DIFFICULTY_LABELS[d]}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-slate-500 mb-1">Marks</label>
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={draft.question.marks ?? ''}
+                        onChange={(e) => updateDraftQuestion({ marks: e.target.value === '' ? undefined : Number(e.target.value) })}
+                        className={inputClass}
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-slate-500 mb-1">Question (HTML)</label>
+                    <textarea
+                      value={draft.question.text}
+                      onChange={(e) => updateDraftQuestion({ text: e.target.value })}
+                      rows={5}
+                      className={`${inputClass} font-mono text-xs`}
+                    />
+                  </div>
+                  <div>
+                    <div className="flex items-center justify-between mb-1">
+                      <label className="text-xs font-medium text-slate-500">Options</label>
+                      <button
+                        onClick={() => {
+                          const options = draft.question.options || [];
+                          updateDraftQuestion({ options: [...options, { label: String.fromCharCode(97 + options.length), text: '' }] });
+                        }}
+                        className="flex items-center gap-1 text-xs text-brand-600 hover:text-brand-700"
+                      >
+                        <Plus className="w-3 h-3" /> Add option
+                      </button>
+                    </div>
+                    {(draft.question.options || []).map((option, i) => (
+                      <div key={i} className="flex items-center gap-2 mb-1">
+                        <input
+                          type="radio"
+                          name="bank-answer"
+                          checked={!!draft.answer && normalizeOptionLabel(option.label) === draft.answer}
+                          onChange={() => setDraft({ ...draft, answer: normalizeOptionLabel(option.label) })}
+                          className="accent-brand-600"
+                          title="Correct answer"
+                        />
+                        <input value={option.label} onChange={(e) => updateOption(i, { label: e.target.value })} className="w-12 text-sm border border-slate-300 rounded px-2 py-1 outline-none" />
+                        <input value={option.text} onChange={(e) => updateOption(i, { text: e.target.value })} className={inputClass} />
+                        <button
+                          onClick={() => updateDraftQuestion({ options: draft.question.options!.filter((_, j) => j !== i) })}
+                          className="p-1 text-slate-400 hover:text-red-600 rounded transition-colors"
+                          title="Remove option"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div className="p-3 bg-slate-50 border-t border-slate-200 flex justify-end gap-2">
+                  <button
+                    onClick={() => setDraft(null)}
+                    className="px-3 py-1.5 text-sm text-slate-700 bg-white border border-slate-300 hover:bg-slate-50 rounded-lg font-medium transition-colors"
+                  >
+                    Discard
+                  </button>
+                  <button
+                    onClick={handleSaveDraft}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm text-white bg-brand-600 hover:bg-brand-700 rounded-lg font-medium transition-colors"
+                  >
+                    <Save className="w-4 h-4" /> Save Changes
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="px-4 py-2 border-t border-slate-100 text-xs text-slate-400">
+          {visible.length} of {questions.length} question(s)
+        </div>
+      </div>
+    </div>
+  );
+};
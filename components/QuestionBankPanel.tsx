@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { Library, Settings2, LayoutList } from 'lucide-react';
+import { BankQuestion } from '../types';
+import { getTagValues, isMcq, listBankQuestions, subscribeToBank } from '../services/questionBank';
+import { QuestionBankModal } from './QuestionBankModal';
+import { BlueprintModal } from './BlueprintModal';
+import { AssembledPaper } from '../utils/blueprint';
+
+interface QuestionBankPanelProps {
+  marksTime: string;
+  onAssemble: (paper: AssembledPaper, title: string) => void;
+}
+
+export const QuestionBankPanel: React.FC<QuestionBankPanelProps> = ({ marksTime, onAssemble }) => {
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [isBankOpen, setIsBankOpen] = useState(false);
+  const [isBlueprintOpen, setIsBlueprintOpen] = useState(false);
+
+  useEffect(() => {
+    const refresh = () => listBankQuestions().then(setQuestions).catch(e => console.warn("Could not read the question bank", e));
+    refresh();
+    return subscribeToBank(refresh);
+  }, []);
+
+  const mcqs = questions.filter(q => isMcq(q.question)).length;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+      <div className="flex items-center justify-between pb-2 border-b border-slate-100 mb-3">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <Library className="w-4 h-4 text-brand-600" />
+          Question Bank
+        </h3>
+        <button
+          onClick={() => setIsBankOpen(true)}
+          className="flex items-center gap-1 px-2 py-1 rounded text-xs font-medium border bg-white text-slate-600 border-slate-300 hover:bg-slate-50 transition-colors"
+          title="Search, edit and delete saved questions"
+        >
+          <Settings2 className="w-3 h-3" />
+          Open
+        </button>
+      </div>
+
+      <p className="text-xs text-slate-500">
+        {questions.length} question(s) · {mcqs} MCQ · {getTagValues(questions, 'subject').length} subject(s)
+      </p>
+      <p className="text-xs text-slate-400 mt-1">
+        Save questions from completed structured pages with the bank button on each page.
+      </p>
+
+      <button
+        onClick={() => setIsBlueprintOpen(true)}
+        disabled={questions.length === 0}
+        className="mt-3 w-full flex items-center justify-center gap-2 py-2 px-3 rounded-lg text-sm font-medium border border-brand-200 text-brand-700 bg-brand-50 hover:bg-brand-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        title="Pick questions for a new paper from a blueprint of sections, marks and chapters"
+      >
+        <LayoutList className="w-4 h-4" />
+        Assemble Paper
+      </button>
+
+      {isBankOpen && <QuestionBankModal onClose={() => setIsBankOpen(false)} />}
+      {isBlueprintOpen && <BlueprintModal marksTime={marksTime} onClose={() => setIsBlueprintOpen(false)} onAssemble={onAssemble} />}
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React from 'react';
+import { Pause, Play, Layers, XCircle } from 'lucide-react';
+import { QueueSettings, QueueStats } from '../services/jobQueue';
+
+interface QueueStatusProps {
+  stats: QueueStats;
+  paused: boolean;
+  settings: QueueSettings;
+  onPauseToggle: () => void;
+  onCancelAll: () => void;
+  onSettingsChange: (settings: QueueSettings) => void;
+}
+
+const STAT_STYLES: { key: keyof QueueStats; label: string; className: string }[] = [
+  { key: 'queued', label: 'Queued', className: 'bg-slate-100 text-slate-700' },
+  { key: 'running', label: 'Running', className: 'bg-blue-100 text-blue-800' },
+  { key: 'retrying', label: 'Retrying', className: 'bg-amber-100 text-amber-800' },
+  { key: 'failed', label: 'Failed', className: 'bg-red-100 text-red-800' },
+];
+
+export const QueueStatus: React.FC<QueueStatusProps> = ({ stats, paused, settings, onPauseToggle, onCancelAll, onSettingsChange }) => {
+  const isActive = stats.queued + stats.running + stats.retrying > 0;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+      <div className="flex items-center justify-between pb-2 border-b border-slate-100 mb-3">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <Layers className="w-4 h-4 text-brand-600" />
+          Job Queue
+        </h3>
+        <div className="flex items-center gap-1">
+          {isActive && (
+            <button
+              onClick={onCancelAll}
+              className="flex items-center gap-1 px-2 py-1 rounded text-xs font-medium border bg-white text-red-600 border-red-200 hover:bg-red-50 transition-colors"
+              title="Drop all queued work and abort running requests"
+            >
+              <XCircle className="w-3 h-3" />
+              Cancel All
+            </button>
+          )}
+          <button
+            onClick={onPauseToggle}
+            className={`flex items-center gap-1 px-2 py-1 rounded text-xs font-medium border transition-colors ${paused ? 'bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'}`}
+            title={paused ? 'Resume starting queued jobs' : 'Pause after running jobs finish'}
+          >
+            {paused ? <Play className="w-3 h-3" /> : <Pause className="w-3 h-3" />}
+            {paused ? 'Resume' : 'Pause'}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 gap-1 text-center">
+        {STAT_STYLES.map(s => (
+          <div key={s.key} className={`rounded px-1 py-1.5 ${s.className}`}>
+            <div className="text-sm font-bold">{stats[s.key]}</div>
+            <div className="text-[10px] uppercase tracking-wide">{s.label}</div>
+          </div>
+        ))}
+      </div>
+
+      {paused && isActive && (
+        <p className="text-xs text-amber-700 mt-2">Paused. Running jobs will finish; queued jobs wait.</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-2 mt-3">
+        <div>
+          <label className="block text-xs font-semibold text-slate-500 mb-1">Parallel Jobs</label>
+          <select
+            value={settings.concurrency}
+            onChange={(e) => onSettingsChange({ ...settings, concurrency: Number(e.target.value) })}
+            className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none bg-white"
+          >
+            {[1, 2, 3, 4, 6, 8].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-semibold text-slate-500 mb-1">Auto Retries</label>
+          <select
+            value={settings.maxRetries}
+            onChange={(e) => onSettingsChange({ ...settings, maxRetries: Number(e.target.value) })}
+            className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none bg-white"
+          >
+            {[0, 1, 2, 3, 4, 6].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+};
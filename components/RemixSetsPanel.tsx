@@ -0,0 +1,140 @@
+import React from 'react';
+import { Copy, FileDown, FileCheck, ClipboardCheck, Calculator, AlertTriangle } from 'lucide-react';
+import { RemixDifficulty, RemixSet } from '../types';
+
+export interface RemixSetSummary {
+  label: string;
+  pages: number; // Pages remixed successfully
+  solved: number; // Pages with an answer key
+  marked: number; // Pages with a marking scheme
+  failedChecks: number; // Number checks that did not add up across all pages
+}
+
+interface RemixSetsPanelProps {
+  sets: RemixSet[];
+  summaries: RemixSetSummary[];
+  disabled: boolean;
+  verify: boolean;
+  onVerifyChange: (enabled: boolean) => void;
+  onChange: (sets: RemixSet[]) => void;
+  onDownloadPaper: (label: string) => void;
+  onDownloadKey: (label: string) => void;
+  onDownloadExaminerCopy: (label: string) => void;
+}
+
+const SET_LABELS = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+const DIFFICULTY_LABELS: Record<RemixDifficulty, string> = {
+  easier: 'Easier',
+  same: 'Same',
+  harder: 'Harder',
+};
+
+export const RemixSetsPanel: React.FC<RemixSetsPanelProps> = ({ sets, summaries, disabled, verify, onVerifyChange, onChange, onDownloadPaper, onDownloadKey, onDownloadExaminerCopy }) => {
+  const handleCountChange = (count: number) => {
+    onChange(SET_LABELS.slice(0, count).map(label => sets.find(s => s.label === label) || { label, difficulty: 'same' }));
+  };
+
+  const updateSet = (label: string, changes: Partial<RemixSet>) => {
+    onChange(sets.map(s => s.label === label ? { ...s, ...changes } : s));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+      <div className="flex items-center justify-between pb-2 border-b border-slate-100 mb-3">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <Copy className="w-4 h-4 text-brand-600" />
+          Remix Sets
+        </h3>
+        <select
+          value={sets.length}
+          onChange={(e) => handleCountChange(Number(e.target.value))}
+          disabled={disabled}
+          className="px-2 py-1 border border-slate-300 rounded text-xs focus:border-brand-500 outline-none bg-white"
+          title="Number of parallel versions to generate"
+        >
+          {SET_LABELS.map((_, i) => <option key={i} value={i + 1}>{i + 1} {i === 0 ? 'set' : 'sets'}</option>)}
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        {sets.map(set => (
+          <div key={set.label} className="grid grid-cols-[3.5rem_1fr_1fr] gap-2 items-center">
+            <span className="text-sm font-bold text-slate-700">Set {set.label}</span>
+            <select
+              value={set.difficulty}
+              onChange={(e) => updateSet(set.label, { difficulty: e.target.value as RemixDifficulty })}
+              disabled={disabled}
+              className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none bg-white"
+            >
+              {(Object.keys(DIFFICULTY_LABELS) as RemixDifficulty[]).map(d => (
+                <option key={d} value={d}>{DIFFICULTY_LABELS[d]}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              value={set.seed ?? ''}
+              placeholder="Seed"
+              onChange={(e) => updateSet(set.label, { seed: e.target.value === '' ? undefined : Math.floor(Number(e.target.value)) })}
+              disabled={disabled}
+              className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none"
+              title="Optional. The same seed reproduces the same set where the provider supports it."
+            />
+          </div>
+        ))}
+      </div>
+
+      <label className="flex items-center justify-between gap-2 mt-3 text-xs font-medium text-slate-600 cursor-pointer" title="Recompute calculations and ledger totals of every remixed page and flag mismatches">
+        <span className="flex items-center gap-1">
+          <Calculator className="w-3.5 h-3.5 text-brand-600" />
+          Verify numbers after remix
+        </span>
+        <input
+          type="checkbox"
+          checked={verify}
+          onChange={(e) => onVerifyChange(e.target.checked)}
+          disabled={disabled}
+          className="accent-brand-600"
+        />
+      </label>
+
+      {summaries.length > 0 && (
+        <div className="mt-4 pt-3 border-t border-slate-100 space-y-2">
+          {summaries.map(summary => (
+            <div key={summary.label} className="flex items-center gap-2">
+              <span className="text-sm font-bold text-slate-700 w-14 flex items-center gap-1">
+                Set {summary.label}
+                {summary.failedChecks > 0 && (
+                  <AlertTriangle className="w-3.5 h-3.5 text-amber-500" title={`${summary.failedChecks} number check(s) did not add up`} />
+                )}
+              </span>
+              <button
+                onClick={() => onDownloadPaper(summary.label)}
+                className="flex-1 flex items-center justify-center gap-1 py-1.5 px-2 bg-white border border-slate-300 text-slate-700 rounded text-xs font-medium hover:bg-slate-50 transition-colors"
+                title={`${summary.pages} page(s)`}
+              >
+                <FileDown className="w-3 h-3" /> Paper
+              </button>
+              <button
+                onClick={() => onDownloadKey(summary.label)}
+                disabled={summary.solved === 0}
+                className="flex-1 flex items-center justify-center gap-1 py-1.5 px-2 bg-teal-50 border border-teal-200 text-teal-700 rounded text-xs font-medium hover:bg-teal-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title={summary.solved === 0 ? 'Generate solutions first' : `${summary.solved} page(s) solved`}
+              >
+                <FileCheck className="w-3 h-3" /> Answer Key
+              </button>
+              <button
+                onClick={() => onDownloadExaminerCopy(summary.label)}
+                disabled={summary.marked === 0}
+                className="flex items-center justify-center py-1.5 px-2 bg-amber-50 border border-amber-200 text-amber-800 rounded text-xs font-medium hover:bg-amber-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title={summary.marked === 0 ? 'Generate solutions with the marking scheme first' : "Examiner's Copy"}
+              >
+                <ClipboardCheck className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
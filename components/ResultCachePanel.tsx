@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import { Database, Settings2 } from 'lucide-react';
+import { CacheEntry, formatBytes, isCacheEnabled, listCacheEntries, setCacheEnabled, subscribeToCache } from '../services/resultCache';
+import { CacheManagerModal } from './CacheManagerModal';
+
+export const ResultCachePanel: React.FC = () => {
+  const [enabled, setEnabled] = useState(isCacheEnabled());
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [isManagerOpen, setIsManagerOpen] = useState(false);
+
+  useEffect(() => {
+    const refresh = () => {
+      setEnabled(isCacheEnabled());
+      listCacheEntries().then(setEntries).catch(e => console.warn("Could not read the result cache", e));
+    };
+    refresh();
+    return subscribeToCache(refresh);
+  }, []);
+
+  const hits = entries.reduce((sum, e) => sum + e.hits, 0);
+  const size = entries.reduce((sum, e) => sum + e.size, 0);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+      <div className="flex items-center justify-between pb-2 border-b border-slate-100 mb-3">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <Database className="w-4 h-4 text-brand-600" />
+          Result Cache
+        </h3>
+        <button
+          onClick={() => setIsManagerOpen(true)}
+          className="flex items-center gap-1 px-2 py-1 rounded text-xs font-medium border bg-white text-slate-600 border-slate-300 hover:bg-slate-50 transition-colors"
+          title="Inspect and evict cached results"
+        >
+          <Settings2 className="w-3 h-3" />
+          Manage
+        </button>
+      </div>
+
+      <label className="flex items-center justify-between gap-2 text-xs font-medium text-slate-600 cursor-pointer" title="Reuse earlier results for the same page, prompts and model instead of calling the API again">
+        Reuse cached results
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setCacheEnabled(e.target.checked)}
+          className="accent-brand-600"
+        />
+      </label>
+      <p className="text-xs text-slate-400 mt-2">
+        {entries.length} result(s), {formatBytes(size)} · {hits} hit(s)
+        {!enabled && ' · Every run calls the API and refreshes the cache.'}
+      </p>
+
+      {isManagerOpen && <CacheManagerModal onClose={() => setIsManagerOpen(false)} />}
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Library, Save } from 'lucide-react';
+import { BankDifficulty, BankQuestion, ImageJob } from '../types';
+import { addBankQuestions, BankTags, DIFFICULTY_LABELS, getLastBankTags, getTagValues, isMcq, listBankQuestions, saveLastBankTags } from '../services/questionBank';
+import { getAllQuestions } from '../utils/paperDocument';
+import { matchSolutionBlocks, parseAnswerKey, normalizeQuestionNumber } from '../utils/answerKey';
+
+interface SaveToBankModalProps {
+  job: ImageJob;
+  onClose: () => void;
+}
+
+const stripTags = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const SaveToBankModal: React.FC<SaveToBankModalProps> = ({ job, onClose }) => {
+  const questions = useMemo(() => job.document ? getAllQuestions(job.document) : [], [job.document]);
+  const [tags, setTags] = useState<BankTags>(getLastBankTags);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(questions.map(q => q.id)));
+  const [marks, setMarks] = useState<Record<string, string>>(() =>
+    Object.fromEntries(questions.map(q => [q.id, q.marks === undefined ? '' : String(q.marks)]))
+  );
+  const [existing, setExisting] = useState<BankQuestion[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listBankQuestions().then(setExisting).catch(e => console.warn("Could not read the question bank", e));
+  }, []);
+
+  const answers = useMemo(() => parseAnswerKey(job.solutionHtml), [job.solutionHtml]);
+  const solutions = useMemo(() => matchSolutionBlocks(job.solutionHtml, questions.map(q => q.number)), [job.solutionHtml, questions]);
+
+  const toggle = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  });
+
+  const handleSave = async () => {
+    const subject = tags.subject.trim();
+    if (!subject) {
+      setError('Enter a subject, so the questions can be found again.');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const cleanTags = { ...tags, subject, chapter: tags.chapter.trim() };
+      await addBankQuestions(questions
+        .map((question, i) => ({ question, solutionHtml: solutions[i] }))
+        .filter(({ question }) => selected.has(question.id))
+        .map(({ question, solutionHtml }) => {
+          const parsedMarks = parseFloat(marks[question.id]);
+          return {
+            question: { ...question, marks: isNaN(parsedMarks) ? undefined : parsedMarks },
+            ...cleanTags,
+            answer: answers.get(normalizeQuestionNumber(question.number)),
+            solutionHtml,
+            source: job.file.name,
+          };
+        }));
+      saveLastBankTags(cleanTags);
+      onClose();
+    } catch (e: any) {
+      setError(e.message || 'Could not save to the question bank');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-slate-100 bg-slate-50">
+          <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+            <Library className="w-5 h-5 text-brand-600" />
+            Save to Question Bank: {job.file.name}
+          </h3>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-slate-100 grid grid-cols-3 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Subject</label>
+            <input
+              list="bank-subjects"
+              value={tags.subject}
+              onChange={(e) => setTags({ ...tags, subject: e.target.value })}
+              placeholder="e.g. Accounting"
+              className="w-full text-sm border border-slate-300 rounded px-2 py-1.5 focus:ring-2 focus:ring-brand-500 outline-none"
+            />
+            <datalist id="bank-subjects">
+              {getTagValues(existing, 'subject').map(s => <option key={s} value={s} />)}
+            </datalist>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Chapter</label>
+            <input
+              list="bank-chapters"
+              value={tags.chapter}
+              onChange={(e) => setTags({ ...tags, chapter: e.target.value })}
+              placeholder="e.g. 3 or Ch 3 Depreciation"
+              className="w-full text-sm border border-slate-300 rounded px-2 py-1.5 focus:ring-2 focus:ring-brand-500 outline-none"
+            />
+            <datalist id="bank-chapters">
+              {getTagValues(existing.filter(q => q.subject === tags.subject), 'chapter').map(c => <option key={c} value={c} />)}
+            </datalist>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Difficulty</label>
+            <select
+              value={tags.difficulty}
+              onChange={(e) => setTags({ ...tags, difficulty: e.target.value as BankDifficulty })}
+              className="w-full text-sm border border-slate-300 rounded px-2 py-1.5 focus:ring-2 focus:ring-brand-500 outline-none bg-white"
+            >
+              {(Object.keys(DIFFICULTY_LABELS) as BankDifficulty[]).map(d => <option key={d} value={d}>{DIFFICULTY_LABELS[d]}</option>)}
+            </select>
+          </div>
+        </div>
+
+        {error && <div className="px-4 py-2 text-sm text-red-700 bg-red-50 border-b border-red-100">{error}</div>}
+
+        <div className="flex-1 overflow-y-auto divide-y divide-slate-100">
+          {questions.map((question, i) => (
+            <div key={question.id} className="flex items-start gap-3 px-4 py-2 hover:bg-slate-50">
+              <label className="flex-1 min-w-0 flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.has(question.id)}
+                  onChange={() => toggle(question.id)}
+                  className="mt-1 accent-brand-600"
+                />
+                <div className="flex-1 min-w-0 text-sm">
+                  <p className="text-slate-800 line-clamp-2">
+                    <strong>{question.number}.</strong> {stripTags(question.text)}
+                  </p>
+                  <p className="text-xs text-slate-400 mt-0.5">
+                    {isMcq(question) ? `MCQ, ${question.options!.length} options` : 'Descriptive'}
+                    {isMcq(question) && (answers.has(normalizeQuestionNumber(question.number))
+                      ? ` · Answer (${answers.get(normalizeQuestionNumber(question.number))})`
+                      : ' · No answer key')}
+                    {solutions[i] ? ' · Solution attached' : ''}
+                  </p>
+                </div>
+              </label>
+              <div className="flex items-center gap-1 text-xs text-slate-500">
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={marks[question.id]}
+                  onChange={(e) => setMarks({ ...marks, [question.id]: e.target.value })}
+                  className="w-14 text-sm border border-slate-300 rounded px-1.5 py-1 focus:ring-2 focus:ring-brand-500 outline-none"
+                />
+                marks
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 bg-slate-50 border-t border-slate-200 flex items-center justify-between gap-3">
+          <p className="text-xs text-slate-500">
+            {selected.size} of {questions.length} question(s) selected
+            {!job.solutionHtml && ' · Generate solutions first to store answers with the questions.'}
+          </p>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-slate-700 bg-white border border-slate-300 hover:bg-slate-50 rounded-lg font-medium transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={selected.size === 0 || isSaving}
+              className="flex items-center gap-2 px-4 py-2 text-white bg-brand-600 hover:bg-brand-700 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="w-4 h-4" />
+              Save {selected.size} Question(s)
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React from 'react';
+import { Dices, FileDown, FileCheck, AlertTriangle } from 'lucide-react';
+import { ShuffleSettings } from '../utils/shuffle';
+
+export interface ShuffleSummary {
+  structuredPages: number;
+  freeFormPages: number; // Printed unshuffled
+  mcqs: number;
+  answered: number; // MCQs with an answer-key marker in their solution
+}
+
+interface ShuffleSetsPanelProps {
+  settings: ShuffleSettings;
+  summary: ShuffleSummary;
+  onChange: (settings: ShuffleSettings) => void;
+  onDownloadSets: () => void;
+  onDownloadKeys: () => void;
+}
+
+export const ShuffleSetsPanel: React.FC<ShuffleSetsPanelProps> = ({ settings, summary, onChange, onDownloadSets, onDownloadKeys }) => {
+  const update = (changes: Partial<ShuffleSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+      <div className="flex items-center justify-between pb-2 border-b border-slate-100 mb-3">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <Dices className="w-4 h-4 text-brand-600" />
+          Shuffled Seat Sets
+        </h3>
+        <span className="text-xs text-slate-500" title="Runs locally, without the API">Offline</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs font-semibold text-slate-500 mb-1">Sets</label>
+          <input
+            type="number"
+            min={1}
+            max={100}
+            value={settings.count}
+            onChange={(e) => update({ count: Math.min(100, Math.max(1, Math.floor(Number(e.target.value) || 1))) })}
+            className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-semibold text-slate-500 mb-1">Base Seed</label>
+          <div className="flex gap-1">
+            <input
+              type="number"
+              value={settings.baseSeed}
+              onChange={(e) => update({ baseSeed: Math.floor(Number(e.target.value) || 0) })}
+              className="w-full min-w-0 px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none"
+              title="The same base seed and number of sets always give the same sets"
+            />
+            <button
+              onClick={() => update({ baseSeed: Math.floor(Math.random() * 1000000) })}
+              className="px-2 border border-slate-300 rounded text-slate-600 hover:bg-slate-50 transition-colors"
+              title="New random seed"
+            >
+              <Dices className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-2">
+        <label className="block text-xs font-semibold text-slate-500 mb-1">Reprint One Set (optional)</label>
+        <input
+          type="number"
+          value={settings.reprintSeed ?? ''}
+          placeholder="Seed printed on the set"
+          onChange={(e) => update({ reprintSeed: e.target.value === '' ? undefined : Math.floor(Number(e.target.value)) })}
+          className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none"
+          title="Reproduces a single set from the seed printed on it"
+        />
+      </div>
+
+      <div className="flex items-center gap-4 mt-3 text-xs font-medium text-slate-600">
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={settings.questions} onChange={(e) => update({ questions: e.target.checked })} className="accent-brand-600" />
+          Question order
+        </label>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={settings.options} onChange={(e) => update({ options: e.target.checked })} className="accent-brand-600" />
+          MCQ options
+        </label>
+      </div>
+
+      <p className="text-xs text-slate-500 mt-2">
+        {summary.mcqs} MCQ(s) on {summary.structuredPages} structured page(s), {summary.answered} with a known answer.
+      </p>
+      {summary.freeFormPages > 0 && (
+        <p className="text-xs text-amber-700 mt-1 flex items-start gap-1">
+          <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 mt-px" />
+          {summary.freeFormPages} page(s) were not converted in structured mode and are printed unshuffled.
+        </p>
+      )}
+      {summary.mcqs > summary.answered && (
+        <p className="text-xs text-slate-400 mt-1">Generate solutions to fill in the answer keys.</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-2 mt-3">
+        <button
+          onClick={onDownloadSets}
+          disabled={summary.structuredPages === 0}
+          className="flex items-center justify-center gap-1 py-1.5 px-2 bg-white border border-slate-300 text-slate-700 rounded text-xs font-medium hover:bg-slate-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <FileDown className="w-3 h-3" /> Sets (PDF)
+        </button>
+        <button
+          onClick={onDownloadKeys}
+          disabled={summary.mcqs === 0}
+          className="flex items-center justify-center gap-1 py-1.5 px-2 bg-teal-50 border border-teal-200 text-teal-700 rounded text-xs font-medium hover:bg-teal-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <FileCheck className="w-3 h-3" /> Answer Keys
+        </button>
+      </div>
+    </div>
+  );
+};
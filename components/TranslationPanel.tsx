@@ -0,0 +1,77 @@
+import React from 'react';
+import { Languages, Loader2 } from 'lucide-react';
+import { PaperLanguageOutput, TRANSLATION_LANGUAGES, TranslationSettings } from '../utils/bilingual';
+
+interface TranslationPanelProps {
+  settings: TranslationSettings;
+  translatedCount: number; // Pages translated into the selected language
+  pageCount: number;
+  isTranslating: boolean;
+  disabled: boolean;
+  onChange: (settings: TranslationSettings) => void;
+  onTranslate: () => void;
+}
+
+const OUTPUT_LABELS: Record<PaperLanguageOutput, string> = {
+  original: 'Original only',
+  translated: 'Translated only',
+  interleave: 'Bilingual (interleaved)',
+  columns: 'Bilingual (two columns)',
+};
+
+export const TranslationPanel: React.FC<TranslationPanelProps> = ({ settings, translatedCount, pageCount, isTranslating, disabled, onChange, onTranslate }) => {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+      <div className="flex items-center justify-between pb-2 border-b border-slate-100 mb-3">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <Languages className="w-4 h-4 text-brand-600" />
+          Translation
+        </h3>
+        {pageCount > 0 && (
+          <span className="text-xs text-slate-500">{translatedCount} / {pageCount} translated</span>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1">Language</label>
+            <select
+              value={settings.language}
+              onChange={(e) => onChange({ ...settings, language: e.target.value })}
+              disabled={isTranslating}
+              className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none bg-white"
+            >
+              {TRANSLATION_LANGUAGES.map(l => <option key={l} value={l}>{l}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1">Print As</label>
+            <select
+              value={settings.output}
+              onChange={(e) => onChange({ ...settings, output: e.target.value as PaperLanguageOutput })}
+              className="w-full px-2 py-1.5 border border-slate-300 rounded text-sm focus:border-brand-500 outline-none bg-white"
+            >
+              {(Object.keys(OUTPUT_LABELS) as PaperLanguageOutput[]).map(o => (
+                <option key={o} value={o}>{OUTPUT_LABELS[o]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <button
+          onClick={onTranslate}
+          disabled={disabled || isTranslating || pageCount === 0}
+          className="w-full flex items-center justify-center gap-2 bg-white text-slate-700 border border-slate-300 py-2 px-4 rounded-lg text-sm font-medium hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isTranslating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Languages className="w-4 h-4" />}
+          {isTranslating ? 'Translating...' : `Translate to ${settings.language}`}
+        </button>
+
+        {settings.output !== 'original' && translatedCount < pageCount && (
+          <p className="text-xs text-amber-700">Pages without a {settings.language} translation are printed in the original language only.</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Coins, Download, Trash2 } from 'lucide-react';
+import {
+  SESSION_STARTED_AT,
+  UsageEntry,
+  clearUsageLog,
+  exportUsageCsv,
+  formatCost,
+  formatTokens,
+  getUsageLog,
+  subscribeToUsage,
+  summarizeUsage,
+} from '../services/usageLog';
+
+interface UsagePanelProps {
+  fileNames: Record<string, string>; // Job id -> uploaded file name, for the CSV export
+}
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ fileNames }) => {
+  const [log, setLog] = useState<UsageEntry[]>(getUsageLog());
+
+  useEffect(() => subscribeToUsage(() => setLog(getUsageLog())), []);
+
+  const sessionEntries = log.filter(e => e.timestamp >= SESSION_STARTED_AT);
+  const session = summarizeUsage(sessionEntries);
+  const unpriced = sessionEntries.filter(e => e.cost === undefined).length;
+
+  // Per-model totals for the session, most expensive first
+  const byModel = Array.from(new Set<string>(sessionEntries.map(e => e.model)))
+    .map(model => ({ model, ...summarizeUsage(sessionEntries.filter(e => e.model === model)) }))
+    .sort((a, b) => b.cost - a.cost);
+
+  const handleExport = () => {
+    const blob = new Blob([exportUsageCsv(log, fileNames)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `ai-usage-${new Date().toISOString().slice(0, 10)}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClear = () => {
+    if (window.confirm(`Delete all ${log.length} logged call(s)? Export the CSV first if you still need it.`)) {
+      clearUsageLog();
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+      <div className="flex items-center justify-between pb-2 border-b border-slate-100 mb-3">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <Coins className="w-4 h-4 text-brand-600" />
+          Usage & Cost
+        </h3>
+        <span className="text-xs text-slate-500">This session</span>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 text-center">
+        <div>
+          <div className="text-sm font-bold text-slate-800">{session.calls}</div>
+          <div className="text-[10px] uppercase text-slate-500">Calls</div>
+        </div>
+        <div>
+          <div className="text-sm font-bold text-slate-800">{formatTokens(session.inputTokens)}</div>
+          <div className="text-[10px] uppercase text-slate-500">Input</div>
+        </div>
+        <div>
+          <div className="text-sm font-bold text-slate-800">{formatTokens(session.outputTokens)}</div>
+          <div className="text-[10px] uppercase text-slate-500">Output</div>
+        </div>
+        <div>
+          <div className="text-sm font-bold text-slate-800">{formatCost(session.cost)}</div>
+          <div className="text-[10px] uppercase text-slate-500">Cost</div>
+        </div>
+      </div>
+
+      {byModel.length > 1 && (
+        <div className="mt-3 space-y-1">
+          {byModel.map(m => (
+            <div key={m.model} className="flex justify-between text-xs text-slate-600">
+              <span className="truncate" title={m.model}>{m.model}</span>
+              <span>{m.calls} · {formatCost(m.cost)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {session.calls > 0 && (
+        <p className="mt-2 text-xs text-slate-500">
+          Avg. latency {(session.latencyMs / session.calls / 1000).toFixed(1)} s
+          {unpriced > 0 && ` · ${unpriced} call(s) without a known price`}
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-2 mt-3">
+        <button
+          onClick={handleExport}
+          disabled={log.length === 0}
+          className="flex items-center justify-center gap-1 py-1.5 px-2 bg-white border border-slate-300 text-slate-700 rounded text-xs font-medium hover:bg-slate-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title={`All ${log.length} logged call(s), including earlier sessions`}
+        >
+          <Download className="w-3 h-3" /> Export CSV
+        </button>
+        <button
+          onClick={handleClear}
+          disabled={log.length === 0}
+          className="flex items-center justify-center gap-1 py-1.5 px-2 bg-white border border-slate-300 text-slate-700 rounded text-xs font-medium hover:bg-red-50 hover:text-red-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Trash2 className="w-3 h-3" /> Clear Log
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiProvider } from './openAiProvider';
+import { createMockProvider } from './mockProvider';
+
+export type AiProviderId = 'gemini' | 'openai' | 'mock';
+
+/**
+ * What the request is for. Real providers ignore it; the mock provider uses it
+ * to pick which canned response to return.
+ */
+export type AiTask = 'convert' | 'remix' | 'solve' | 'mark' | 'verify' | 'translate';
+
+export interface AiRequest {
+  task: AiTask;
+  systemInstruction: string;
+  prompt: string;
+  image?: { mimeType: string; data: string };
+  temperature: number;
+  // JSON Schema for structured output. When set, the provider must reply with JSON only.
+  responseSchema?: object;
+  // Best-effort reproducibility. Providers that don't support seeding ignore it.
+  seed?: number;
+  // Cancels the HTTP request when the job is cancelled
+  signal?: AbortSignal;
+}
+
+export interface AiUsage {
+  inputTokens: number;
+  outputTokens: number; // Includes reasoning ("thinking") tokens, which are billed as output
+}
+
+export interface AiResponse {
+  text: string;
+  // Token counts as reported by the provider. Missing when the server does not report usage.
+  usage?: AiUsage;
+  // Served from the local result cache; no tokens were used
+  cached?: boolean;
+}
+
+export interface AiProvider {
+  id: AiProviderId;
+  model: string;
+  generate: (request: AiRequest) => Promise<AiResponse>;
+}
+
+export interface AiProviderConfig {
+  provider: AiProviderId;
+  model: string;
+  // Only used by the OpenAI-compatible provider (e.g. http://localhost:11434/v1 for Ollama)
+  baseUrl: string;
+  // Optional override. When empty, the Gemini provider falls back to the environment key.
+  apiKey: string;
+}
+
+export const DEFAULT_MODELS: Record<AiProviderId, string> = {
+  gemini: 'gemini-3-flash-preview',
+  openai: 'gpt-4o-mini',
+  mock: 'mock-canned-v1',
+};
+
+export const PROVIDER_LABELS: Record<AiProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible (OpenAI, Ollama, llama.cpp)',
+  mock: 'Offline Mock (canned HTML)',
+};
+
+const STORAGE_KEY = 'snap2print_provider_config';
+
+const getDefaultProviderId = (): AiProviderId => {
+  try {
+    // @ts-ignore
+    const fromEnv = typeof import.meta !== 'undefined' && import.meta.env ? import.meta.env.VITE_AI_PROVIDER : undefined;
+    if (fromEnv === 'gemini' || fromEnv === 'openai' || fromEnv === 'mock') return fromEnv;
+  } catch (e) {}
+  return 'gemini';
+};
+
+export const DEFAULT_PROVIDER_CONFIG: AiProviderConfig = {
+  provider: getDefaultProviderId(),
+  model: DEFAULT_MODELS[getDefaultProviderId()],
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+};
+
+const loadProviderConfig = (): AiProviderConfig => {
+  try {
+    const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    if (saved) {
+      return { ...DEFAULT_PROVIDER_CONFIG, ...JSON.parse(saved) };
+    }
+  } catch (e) {
+    console.error("Failed to load provider config", e);
+  }
+  return DEFAULT_PROVIDER_CONFIG;
+};
+
+let activeConfig: AiProviderConfig = loadProviderConfig();
+
+export const getProviderConfig = (): AiProviderConfig => activeConfig;
+
+export const setProviderConfig = (config: AiProviderConfig) => {
+  activeConfig = config;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
+
+export const createProvider = (config: AiProviderConfig): AiProvider => {
+  const model = config.model.trim() || DEFAULT_MODELS[config.provider];
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAiProvider({ model, baseUrl: config.baseUrl, apiKey: config.apiKey });
+    case 'mock':
+      return createMockProvider({ model });
+    case 'gemini':
+    default:
+      return createGeminiProvider({ model, apiKey: config.apiKey });
+  }
+};
+
+/**
+ * Returns a provider for the currently selected settings. A new instance is built per call
+ * so that settings changes take effect immediately without reloading the page.
+ */
+export const getActiveProvider = (): AiProvider => createProvider(activeConfig);
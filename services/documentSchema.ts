@@ -0,0 +1,161 @@
+import { PaperDocument, PaperQuestion, QuestionOption, QuestionSubPart, QuestionTable } from '../types';
+
+const OPTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    label: { type: 'string', description: 'Option label without brackets, e.g. "a", "b", "A".' },
+    text: { type: 'string' }
+  },
+  required: ['label', 'text']
+};
+
+const TABLE_SCHEMA = {
+  type: 'object',
+  properties: {
+    caption: { type: 'string' },
+    headers: { type: 'array', items: { type: 'string' } },
+    rows: { type: 'array', items: { type: 'array', items: { type: 'string' } } }
+  },
+  required: ['headers', 'rows']
+};
+
+const FIGURE_SCHEMA = {
+  type: 'object',
+  properties: {
+    description: { type: 'string', description: 'Short description of the diagram, chart or image.' },
+    box: {
+      type: 'array',
+      items: { type: 'number' },
+      minItems: 4,
+      maxItems: 4,
+      description: 'Bounding box of the figure on the page as [ymin, xmin, ymax, xmax], normalised to 0-1000.'
+    }
+  },
+  required: ['description']
+};
+
+/**
+ * JSON Schema for the typed document model (see `PaperDocument` in types.ts).
+ * Ids are not part of the schema; they are assigned locally in `parsePaperDocument`.
+ */
+export const PAPER_DOCUMENT_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    instructions: { type: 'array', items: { type: 'string' } },
+    sections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          instructions: { type: 'string' },
+          questions: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                number: { type: 'string', description: 'Question number exactly as printed, e.g. "1", "Q5", "2(a)".' },
+                text: { type: 'string', description: 'Question stem. Inline <b>, <i>, <u>, <sup>, <sub> and <br> are allowed.' },
+                marks: { type: 'number' },
+                options: { type: 'array', items: OPTION_SCHEMA },
+                subParts: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      label: { type: 'string' },
+                      text: { type: 'string' },
+                      marks: { type: 'number' },
+                      options: { type: 'array', items: OPTION_SCHEMA }
+                    },
+                    required: ['label', 'text']
+                  }
+                },
+                tables: { type: 'array', items: TABLE_SCHEMA },
+                figures: { type: 'array', items: FIGURE_SCHEMA }
+              },
+              required: ['number', 'text']
+            }
+          }
+        },
+        required: ['questions']
+      }
+    }
+  },
+  required: ['sections']
+};
+
+const asString = (value: any): string => (typeof value === 'string' ? value : value == null ? '' : String(value));
+
+const asMarks = (value: any): number | undefined => {
+  const n = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+const normalizeOptions = (raw: any): QuestionOption[] | undefined => {
+  if (!Array.isArray(raw) || raw.length === 0) return undefined;
+  return raw.map((o: any, i: number) => ({
+    label: asString(o?.label).replace(/[()\[\].\s]/g, '') || String.fromCharCode(97 + i),
+    text: asString(o?.text),
+  }));
+};
+
+const normalizeTables = (raw: any): QuestionTable[] | undefined => {
+  if (!Array.isArray(raw) || raw.length === 0) return undefined;
+  return raw.map((t: any) => ({
+    caption: t?.caption ? asString(t.caption) : undefined,
+    headers: Array.isArray(t?.headers) ? t.headers.map(asString) : [],
+    rows: Array.isArray(t?.rows) ? t.rows.map((r: any) => (Array.isArray(r) ? r.map(asString) : [asString(r)])) : [],
+  }));
+};
+
+const normalizeSubParts = (raw: any): QuestionSubPart[] | undefined => {
+  if (!Array.isArray(raw) || raw.length === 0) return undefined;
+  return raw.map((p: any) => ({
+    label: asString(p?.label),
+    text: asString(p?.text),
+    marks: asMarks(p?.marks),
+    options: normalizeOptions(p?.options),
+  }));
+};
+
+/**
+ * Parses the model's JSON reply into a `PaperDocument`, tolerating missing optional fields
+ * and stray markdown fences, and assigns stable ids to every question.
+ */
+export const parsePaperDocument = (text: string): PaperDocument => {
+  const cleaned = text.replace(/```json/g, '').replace(/```/g, '').trim();
+  let raw: any;
+  try {
+    raw = JSON.parse(cleaned);
+  } catch (e) {
+    throw new Error("The AI returned invalid JSON for the structured document. Please Retry.");
+  }
+
+  const sections = Array.isArray(raw?.sections) ? raw.sections : [];
+
+  return {
+    title: raw?.title ? asString(raw.title) : undefined,
+    instructions: Array.isArray(raw?.instructions) ? raw.instructions.map(asString) : undefined,
+    sections: sections.map((section: any, sIndex: number) => ({
+      title: section?.title ? asString(section.title) : undefined,
+      instructions: section?.instructions ? asString(section.instructions) : undefined,
+      questions: (Array.isArray(section?.questions) ? section.questions : []).map((q: any, qIndex: number): PaperQuestion => ({
+        id: `s${sIndex + 1}q${qIndex + 1}-${Math.random().toString(36).substring(2, 7)}`,
+        number: asString(q?.number) || String(qIndex + 1),
+        text: asString(q?.text),
+        marks: asMarks(q?.marks),
+        options: normalizeOptions(q?.options),
+        subParts: normalizeSubParts(q?.subParts),
+        tables: normalizeTables(q?.tables),
+        figures: Array.isArray(q?.figures) && q.figures.length > 0
+          ? q.figures.map((f: any) => ({
+              description: asString(f?.description),
+              box: Array.isArray(f?.box) && f.box.length === 4 ? f.box.map(Number) : undefined,
+            }))
+          : undefined,
+      })),
+    })),
+  };
+};
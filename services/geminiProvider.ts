@@ -0,0 +1,78 @@
+import { GoogleGenAI } from "@google/genai";
+import type { AiProvider, AiRequest, AiResponse } from './aiProvider';
+
+const getApiKey = (): string => {
+  const isValid = (key: any) => typeof key === 'string' && key.length > 0;
+
+  if (typeof process !== 'undefined' && process.env) {
+    if (isValid(process.env.API_KEY)) return process.env.API_KEY!;
+    if (isValid(process.env.VITE_API_KEY)) return process.env.VITE_API_KEY!;
+    if (isValid(process.env.REACT_APP_API_KEY)) return process.env.REACT_APP_API_KEY!;
+    if (isValid(process.env.NEXT_PUBLIC_API_KEY)) return process.env.NEXT_PUBLIC_API_KEY!;
+  }
+
+  try {
+    // @ts-ignore
+    if (typeof import.meta !== 'undefined' && import.meta.env) {
+      // @ts-ignore
+      if (isValid(import.meta.env.API_KEY)) return import.meta.env.API_KEY;
+      // @ts-ignore
+      if (isValid(import.meta.env.VITE_API_KEY)) return import.meta.env.VITE_API_KEY;
+      // @ts-ignore
+      if (isValid(import.meta.env.NEXT_PUBLIC_API_KEY)) return import.meta.env.NEXT_PUBLIC_API_KEY;
+    }
+  } catch (e) {}
+
+  throw new Error("API Key Missing. In Vercel Settings, try naming your variable 'VITE_API_KEY' (or 'REACT_APP_API_KEY') and then REDEPLOY the project.");
+};
+
+interface GeminiProviderOptions {
+  model: string;
+  apiKey?: string;
+}
+
+export const createGeminiProvider = ({ model, apiKey }: GeminiProviderOptions): AiProvider => ({
+  id: 'gemini',
+  model,
+  generate: async (request: AiRequest): Promise<AiResponse> => {
+    const ai = new GoogleGenAI({ apiKey: apiKey || getApiKey() });
+
+    const parts: any[] = [];
+    if (request.image) {
+      parts.push({
+        inlineData: {
+          mimeType: request.image.mimeType,
+          data: request.image.data
+        }
+      });
+    }
+    parts.push({ text: request.prompt });
+
+    const response = await ai.models.generateContent({
+      model,
+      contents: {
+        role: 'user',
+        parts
+      },
+      config: {
+        systemInstruction: request.systemInstruction,
+        temperature: request.temperature,
+        ...(request.seed !== undefined ? { seed: request.seed } : {}),
+        ...(request.signal ? { abortSignal: request.signal } : {}),
+        ...(request.responseSchema ? {
+          responseMimeType: 'application/json',
+          responseJsonSchema: request.responseSchema,
+        } : {}),
+      }
+    });
+
+    const usage = response.usageMetadata;
+    return {
+      text: response.text || "",
+      usage: usage ? {
+        inputTokens: usage.promptTokenCount || 0,
+        outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+      } : undefined,
+    };
+  }
+});
@@ -1,77 +1,80 @@
-import { GoogleGenAI } from "@google/genai";
-
-const SYSTEM_PROMPT = `
-You are an expert Frontend Engineer and UI Designer.
-Your task is to convert an image of a document or web page into a PIXEL-PERFECT HTML/Tailwind CSS replica.
-
-**Instructions:**
-1. **Analyze**: Look at the layout, typography, colors, and spacing of the image.
-2. **Replicate**: Create an HTML structure that looks EXACTLY like the image.
-   - Use **Tailwind CSS** for the main styling.
-   - **CRITICAL FOR WORD COMPATIBILITY**: You MUST ALSO use **inline \`style="..."\` attributes** for critical layout properties (width, background-color, font-size, borders, padding). 
-     - *Reason*: The user will export this to MS Word, which ignores Tailwind classes. Inline styles ensure the design stays intact in Word.
-   - Match fonts (use standard web safe fonts like Arial, Times New Roman, Roboto).
-   - If there are tables, recreate them using HTML <table> with inline borders.
-3. **Content**: Extract all text accurately.
-4. **Images**: If there are sub-images, use a placeholder or ignore, focus on Text and Layout.
-5. **Watermark Removal (CRITICAL)**: 
-   - **IGNORE** any watermarks, stamps, or overlay text (e.g., "Sample", "Copyright", "Confidential", Website URLs, or diagonal text) that obscures the content.
-   - **DO NOT** transcribe the watermark text into the HTML.
-   - **DO NOT** create visual elements (like faded divs) for the watermark. 
-   - Pretend the watermark does not exist and reconstruct the text/tables underneath it cleanly.
-
-**Output Rules:**
-* Return ONLY the HTML code for the content container.
-* Do NOT include <html>, <head>, or <body> tags.
-* Do NOT use markdown code blocks.
-* Ensure the code is responsive but optimized for print and MS Word export.
+import { getActiveProvider } from "./aiProvider";
+import { withUsageTracking } from "./usageLog";
+import { withResultCache } from "./resultCache";
+import { PAPER_DOCUMENT_SCHEMA, parsePaperDocument } from "./documentSchema";
+import { VERIFICATION_SCHEMA, VerificationCheckSpec, parseVerificationChecks } from "./verificationSchema";
+import { getActivePromptVariant, getPromptVersion, PromptKey, PromptTemplate, PromptVariant } from "./promptLibrary";
+import { PaperDocument, RemixDifficulty } from "../types";
+import { stripFigureData, restoreFigureData } from "../utils/figureUtils";
+
+const MATH_INSTRUCTIONS = `
+
+**Math Typesetting (Math Mode is ON):**
+* Write EVERY mathematical expression (fractions, powers, roots, integrals, matrices, equations) in LaTeX.
+* Use \\( ... \\) for inline math and \\[ ... \\] for displayed equations. Do NOT use $ delimiters.
+* Inside LaTeX, write \\lt and \\gt instead of < and > so the HTML stays valid.
+* Keep plain numbers and currency amounts in running text as normal text (e.g. Rs. 25,000).
 `;
 
-const REMIX_PROMPT = `
-You are an expert Exam Setter and Teacher.
-I will provide you with HTML code representing an exam paper or worksheet.
-Your task is to **CREATE A NEW VERSION** of this test paper by changing the questions, while keeping the **EXACT SAME LAYOUT AND STYLING**.
-
-**Instructions:**
-1. **Analyze Context**: Identify the subject (Math, Science, History, etc.) and the topic of the questions.
-2. **Modify Questions**:
-   - **Mathematics/Physics**: Change the numbers/values in the problems. Keep the logic and formula required the same. (e.g., if 2x + 4 = 10, change to 3x + 6 = 15).
-   - **Theory (History/Bio/English)**: Replace the question with a DIFFERENT valid question from the SAME TOPIC/CHAPTER. (e.g., If asking about Newton's 1st Law, ask about Newton's 2nd Law or an example of the 1st Law).
-   - **Multiple Choice**: Change the question and the options. Ensure there is still one correct answer.
-3. **Preserve Structure**:
-   - **DO NOT CHANGE** the HTML structure, classes, or inline styles. The visual look must be identical.
-   - **DO NOT CHANGE** static headers like "School Name", "Time Allowed", "Instructions", "Student Name", "Roll No". Only change the actual content of the questions.
-4. **Clean Up**: If any watermark text accidentally remained in the source HTML, remove it in this version.
-
-**Output Rules:**
-* Return ONLY the HTML code.
-* Do NOT include markdown formatting.
-`;
+const DIFFICULTY_INSTRUCTIONS: Record<RemixDifficulty, string> = {
+  easier: `
 
-const SOLUTION_PROMPT = `
-You are an expert Professor and Tutor.
-I will provide you with HTML code containing exam questions.
-Your task is to generate a **Professional Solution Key** for these questions suitable for printing.
-
-**Instructions:**
-1. **Parse**: Read the questions from the provided HTML. **Ignore any text that looks like a watermark or artifact.**
-2. **Format**: For EACH question found, create a distinct "Solution Block".
-   - **Container**: Wrap the Question-Answer pair in a <div class="solution-block" style="margin-bottom: 25px; page-break-inside: avoid; border-bottom: 1px dashed #e5e7eb; padding-bottom: 20px;">.
-   - **Question Section**: 
-     - Use a light gray background box for the question text so it stands out.
-     - Style: <div style="background-color: #f3f4f6; padding: 12px; border-radius: 6px; font-weight: bold; color: #111827; margin-bottom: 12px; font-size: 16px; border-left: 4px solid #4b5563;">Q: [Insert Question Text]</div>
-   - **Answer Section**: 
-     - Provide a clear, detailed step-by-step solution.
-     - Style: <div style="padding-left: 8px; color: #374151; line-height: 1.6; font-size: 15px;">[Insert Detailed Solution]</div>
-   - **Math**: If it is a math problem, show steps clearly using standard text representation or simple HTML.
-   - **Code**: If it asks for code, use a <pre> block with a border.
-
-**Output Rules:**
-* Return ONLY the HTML code for the solution body.
-* Do NOT return markdown.
-* Use inline styles for maximum compatibility with PDF generators.
-* Do not include the main header (Subject, Time, etc), just the list of questions and answers.
-`;
+**Difficulty: EASIER than the original.**
+* Use simpler numbers, fewer steps and more direct wording. Keep the same topics and marks.
+`,
+  same: '',
+  harder: `
+
+**Difficulty: HARDER than the original.**
+* Use less convenient numbers, add a reasoning step or combine two ideas from the same chapter. Keep the same topics and marks.
+`,
+};
+
+export interface GenerationOptions {
+  // Ask the model to write math as TeX so it can be typeset with KaTeX and exported as MathML
+  mathMode?: boolean;
+  // Prompt set to use. Defaults to the active variant of the prompt library.
+  promptVariant?: PromptVariant;
+  // Remix only: which set is being written, how hard it should be and an optional seed
+  setLabel?: string;
+  difficulty?: RemixDifficulty;
+  seed?: number; // Sampling seed passed to the provider, so a set can be written again the same way (best effort)
+  // Job the call is made for, so its token usage and cost are attributed to it
+  jobId?: string;
+  // Shown next to the cached result in the cache manager, e.g. the uploaded file name
+  label?: string;
+  // Ignore a cached result and replace it with a fresh one
+  bypassCache?: boolean;
+  // Aborts the provider request when the job is cancelled
+  signal?: AbortSignal;
+}
+
+// Cached results are served first; usage is recorded either way, with no tokens for a cache hit
+const getProvider = (options: GenerationOptions) => withUsageTracking(
+  withResultCache(getActiveProvider(), {
+    promptVersion: getPromptVersion(options.promptVariant || getActivePromptVariant()),
+    label: options.label,
+    bypassCache: options.bypassCache,
+  }),
+  options.jobId
+);
+
+// Rethrown errors keep the provider's HTTP status, which decides whether the queue retries
+const providerError = (message: string, cause: any): Error =>
+  Object.assign(new Error(message), { status: cause?.status });
+
+const getPrompt = (key: PromptKey, options: GenerationOptions): PromptTemplate => {
+  const { text, temperature } = (options.promptVariant || getActivePromptVariant()).prompts[key];
+  let systemInstruction = options.mathMode ? text + MATH_INSTRUCTIONS : text;
+  if (key === 'remix' || key === 'structuredRemix') {
+    systemInstruction += DIFFICULTY_INSTRUCTIONS[options.difficulty || 'same'];
+    if (options.setLabel) {
+      // Without this, parallel sets at the same difficulty tend to come out near-identical
+      systemInstruction += `\n\nYou are writing **Set ${options.setLabel}** of several parallel versions of this paper. Make its questions and values distinct from the other sets.\n`;
+    }
+  }
+  return { text: systemInstruction, temperature };
+};
 
 /**
  * Resizes and compresses an image file to reduce payload size and speed up API processing.
@@ -156,153 +159,247 @@ export const fileToGenerativePart = async (file: File): Promise<{ mimeType: stri
   }
 };
 
-const getApiKey = (): string => {
-  const isValid = (key: any) => typeof key === 'string' && key.length > 0;
+const stripCodeFences = (text: string): string =>
+  text.replace(/```html/g, '').replace(/```/g, '').trim();
 
-  if (typeof process !== 'undefined' && process.env) {
-    if (isValid(process.env.API_KEY)) return process.env.API_KEY!;
-    if (isValid(process.env.VITE_API_KEY)) return process.env.VITE_API_KEY!;
-    if (isValid(process.env.REACT_APP_API_KEY)) return process.env.REACT_APP_API_KEY!;
-    if (isValid(process.env.NEXT_PUBLIC_API_KEY)) return process.env.NEXT_PUBLIC_API_KEY!;
-  }
+export const generateHtmlFromImage = async (file: File, options: GenerationOptions = {}): Promise<string> => {
+  const provider = getProvider(options);
+  const template = getPrompt('convert', options);
 
   try {
-    // @ts-ignore
-    if (typeof import.meta !== 'undefined' && import.meta.env) {
-      // @ts-ignore
-      if (isValid(import.meta.env.API_KEY)) return import.meta.env.API_KEY;
-      // @ts-ignore
-      if (isValid(import.meta.env.VITE_API_KEY)) return import.meta.env.VITE_API_KEY;
-      // @ts-ignore
-      if (isValid(import.meta.env.NEXT_PUBLIC_API_KEY)) return import.meta.env.NEXT_PUBLIC_API_KEY;
+    const image = await fileToGenerativePart(file);
+
+    const response = await provider.generate({
+      task: 'convert',
+      systemInstruction: template.text,
+      prompt: "Create a pixel-perfect HTML/Tailwind replica of this image.",
+      image,
+      temperature: template.temperature,
+      signal: options.signal,
+    });
+
+    return stripCodeFences(response.text);
+  } catch (error: any) {
+    console.error("AI Provider Error:", error);
+    const message = error.message || String(error);
+    if (message.includes("API key") || message.includes("403")) {
+      throw providerError("Invalid API Key. Please check your Vercel Environment Variables or the AI Provider settings.", error);
+    }
+    if (message.includes("429")) {
+        throw providerError("Too many requests (429). Please Retry.", error);
     }
-  } catch (e) {}
-  
-  throw new Error("API Key Missing. In Vercel Settings, try naming your variable 'VITE_API_KEY' (or 'REACT_APP_API_KEY') and then REDEPLOY the project.");
+    throw providerError(message, error);
+  }
 };
 
-export const generateHtmlFromImage = async (file: File): Promise<string> => {
-  let apiKey: string;
+export const remixHtmlContent = async (html: string, options: GenerationOptions = {}): Promise<string> => {
+  const provider = getProvider(options);
+  const template = getPrompt('remix', options);
+
   try {
-    apiKey = getApiKey();
-  } catch (e: any) {
-    throw new Error(e.message);
+    const { html: strippedHtml, figures } = stripFigureData(html);
+    const response = await provider.generate({
+      task: 'remix',
+      systemInstruction: template.text,
+      prompt: `Here is the HTML code:\n\n${strippedHtml}`,
+      temperature: template.temperature,
+      signal: options.signal,
+      seed: options.seed,
+    });
+
+    return restoreFigureData(stripCodeFences(response.text), figures);
+  } catch (error: any) {
+    console.error("AI Provider Error (Remix):", error);
+    const message = error.message || String(error);
+    if (message.includes("429")) {
+        throw providerError("Too many requests (429). Please wait a moment and retry.", error);
+    }
+    throw providerError(message, error);
   }
+};
+
+export const translateHtmlContent = async (html: string, language: string, options: GenerationOptions = {}): Promise<string> => {
+  const provider = getProvider(options);
+  const template = getPrompt('translate', options);
 
-  const ai = new GoogleGenAI({ apiKey });
-  
   try {
-    const { mimeType, data } = await fileToGenerativePart(file);
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview', 
-      contents: {
-        role: 'user',
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: data
-            }
-          },
-          {
-            text: "Create a pixel-perfect HTML/Tailwind replica of this image."
-          }
-        ]
-      },
-      config: {
-        systemInstruction: SYSTEM_PROMPT,
-        temperature: 0.1,
-      }
+    const { html: strippedHtml, figures } = stripFigureData(html);
+    const response = await provider.generate({
+      task: 'translate',
+      systemInstruction: `${template.text}\n\n**Target language: ${language}**\n`,
+      prompt: `Here is the HTML code:\n\n${strippedHtml}`,
+      temperature: template.temperature,
+      signal: options.signal,
     });
 
-    let text = response.text || "";
-    text = text.replace(/```html/g, '').replace(/```/g, '').trim();
-    
-    return text;
+    return restoreFigureData(stripCodeFences(response.text), figures);
   } catch (error: any) {
-    console.error("Gemini API Error:", error);
+    console.error("AI Provider Error (Translate):", error);
     const message = error.message || String(error);
-    if (message.includes("API key") || message.includes("403")) {
-      throw new Error("Invalid API Key. Please check your Vercel Environment Variables.");
-    }
     if (message.includes("429")) {
-        throw new Error("Too many requests (429). Please Retry.");
+        throw providerError("Too many requests (429). Please wait a moment and retry.", error);
     }
-    throw new Error(message);
+    throw providerError(message, error);
   }
 };
 
-export const remixHtmlContent = async (html: string): Promise<string> => {
-  let apiKey: string;
+export const generateSolutionFromHtml = async (html: string, options: GenerationOptions = {}): Promise<string> => {
+  const provider = getProvider(options);
+  const template = getPrompt('solve', options);
+
   try {
-    apiKey = getApiKey();
-  } catch (e: any) {
-    throw new Error(e.message);
+    const response = await provider.generate({
+      task: 'solve',
+      systemInstruction: template.text,
+      prompt: `Here is the questions HTML:\n\n${stripFigureData(html).html}`,
+      temperature: template.temperature,
+      signal: options.signal,
+    });
+
+    return stripCodeFences(response.text);
+  } catch (error: any) {
+    console.error("AI Provider Error (Solution):", error);
+    const message = error.message || String(error);
+    if (message.includes("429")) {
+        throw providerError("Too many requests (429). Please wait a moment and retry.", error);
+    }
+    throw providerError(message, error);
   }
+};
 
-  const ai = new GoogleGenAI({ apiKey });
+export const generateMarkingScheme = async (html: string, solutionHtml: string | undefined, options: GenerationOptions = {}): Promise<string> => {
+  const provider = getProvider(options);
+  const template = getPrompt('markingScheme', options);
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: {
-        role: 'user',
-        parts: [{ text: `Here is the HTML code:\n\n${html}` }]
-      },
-      config: {
-        systemInstruction: REMIX_PROMPT,
-        temperature: 0.7, // Higher temperature for creativity in new questions
-      }
+    const questions = stripFigureData(html).html;
+    const response = await provider.generate({
+      task: 'mark',
+      systemInstruction: template.text,
+      prompt: solutionHtml
+        ? `Here is the questions HTML:\n\n${questions}\n\nHere are the worked solutions:\n\n${stripFigureData(solutionHtml).html}`
+        : `Here is the questions HTML:\n\n${questions}`,
+      temperature: template.temperature,
+      signal: options.signal,
     });
 
-    let text = response.text || "";
-    text = text.replace(/```html/g, '').replace(/```/g, '').trim();
-
-    return text;
+    return stripCodeFences(response.text);
   } catch (error: any) {
-    console.error("Gemini API Error (Remix):", error);
+    console.error("AI Provider Error (Marking Scheme):", error);
     const message = error.message || String(error);
     if (message.includes("429")) {
-        throw new Error("Too many requests (429). Please wait a moment and retry.");
+        throw providerError("Too many requests (429). Please wait a moment and retry.", error);
     }
-    throw new Error(message);
+    throw providerError(message, error);
   }
 };
 
-export const generateSolutionFromHtml = async (html: string): Promise<string> => {
-  let apiKey: string;
+/**
+ * Asks the model for machine-checkable claims about the numbers in a (remixed) paper.
+ * The claims are recomputed locally by `runVerificationChecks`; the model's own arithmetic is never trusted.
+ */
+export const extractVerificationChecks = async (html: string, options: GenerationOptions = {}): Promise<VerificationCheckSpec[]> => {
+  const provider = getProvider(options);
+  const template = getPrompt('verify', options);
+
   try {
-    apiKey = getApiKey();
-  } catch (e: any) {
-    throw new Error(e.message);
+    const response = await provider.generate({
+      task: 'verify',
+      systemInstruction: template.text,
+      prompt: `Here is the questions HTML:\n\n${stripFigureData(html).html}`,
+      temperature: template.temperature,
+      signal: options.signal,
+      responseSchema: VERIFICATION_SCHEMA,
+    });
+
+    return parseVerificationChecks(response.text);
+  } catch (error: any) {
+    console.error("AI Provider Error (Verification):", error);
+    const message = error.message || String(error);
+    if (message.includes("429")) {
+        throw providerError("Too many requests (429). Please wait a moment and retry.", error);
+    }
+    throw providerError(message, error);
   }
+};
 
-  const ai = new GoogleGenAI({ apiKey });
+export const extractDocumentFromImage = async (file: File, options: GenerationOptions = {}): Promise<PaperDocument> => {
+  const provider = getProvider(options);
+  const template = getPrompt('structured', options);
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: {
-        role: 'user',
-        parts: [{ text: `Here is the questions HTML:\n\n${html}` }]
-      },
-      config: {
-        systemInstruction: SOLUTION_PROMPT,
-        temperature: 0.4, // Balanced for factual accuracy and good explanation
-      }
+    const image = await fileToGenerativePart(file);
+
+    const response = await provider.generate({
+      task: 'convert',
+      systemInstruction: template.text,
+      prompt: "Extract the questions on this page into the JSON document model.",
+      image,
+      temperature: template.temperature,
+      signal: options.signal,
+      responseSchema: PAPER_DOCUMENT_SCHEMA,
     });
 
-    let text = response.text || "";
-    text = text.replace(/```html/g, '').replace(/```/g, '').trim();
+    return parsePaperDocument(response.text);
+  } catch (error: any) {
+    console.error("AI Provider Error (Structured):", error);
+    const message = error.message || String(error);
+    if (message.includes("API key") || message.includes("403")) {
+      throw providerError("Invalid API Key. Please check your Vercel Environment Variables or the AI Provider settings.", error);
+    }
+    if (message.includes("429")) {
+        throw providerError("Too many requests (429). Please Retry.", error);
+    }
+    throw providerError(message, error);
+  }
+};
 
-    return text;
+export const remixDocument = async (doc: PaperDocument, options: GenerationOptions = {}): Promise<PaperDocument> => {
+  const provider = getProvider(options);
+  const template = getPrompt('structuredRemix', options);
+
+  try {
+    // Ids and cropped figure images are local bookkeeping, the model does not need to see them
+    const { sections, ...rest } = doc;
+    const payload = {
+      ...rest,
+      sections: sections.map(section => ({
+        ...section,
+        questions: section.questions.map(({ id, figures, ...question }) => ({
+          ...question,
+          ...(figures ? { figures: figures.map(f => ({ description: f.description })) } : {}),
+        })),
+      })),
+    };
+
+    const response = await provider.generate({
+      task: 'remix',
+      systemInstruction: template.text,
+      prompt: `Here is the JSON document:\n\n${JSON.stringify(payload)}`,
+      temperature: template.temperature,
+      signal: options.signal,
+      responseSchema: PAPER_DOCUMENT_SCHEMA,
+      seed: options.seed,
+    });
+
+    // The remix keeps the same shape, so figures are carried over by position
+    const remixed = parsePaperDocument(response.text);
+    return {
+      ...remixed,
+      sections: remixed.sections.map((section, sIndex) => ({
+        ...section,
+        questions: section.questions.map((question, qIndex) => {
+          const original = doc.sections[sIndex]?.questions[qIndex];
+          return original?.figures ? { ...question, figures: original.figures } : question;
+        }),
+      })),
+    };
   } catch (error: any) {
-    console.error("Gemini API Error (Solution):", error);
+    console.error("AI Provider Error (Structured Remix):", error);
     const message = error.message || String(error);
     if (message.includes("429")) {
-        throw new Error("Too many requests (429). Please wait a moment and retry.");
+        throw providerError("Too many requests (429). Please wait a moment and retry.", error);
     }
-    throw new Error(message);
+    throw providerError(message, error);
   }
-};
\ No newline at end of file
+};
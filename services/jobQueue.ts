@@ -0,0 +1,192 @@
+export interface QueueStats {
+  queued: number;
+  running: number;
+  retrying: number; // Waiting out a backoff delay before the next attempt
+  failed: number;
+  done: number;
+}
+
+export interface QueueSettings {
+  concurrency: number;
+  maxRetries: number;
+  baseDelayMs: number;
+}
+
+export const DEFAULT_QUEUE_SETTINGS: QueueSettings = {
+  concurrency: 3,
+  maxRetries: 4,
+  baseDelayMs: 2000,
+};
+
+// Upper bound for a single backoff wait, however many attempts have been made
+const MAX_DELAY_MS = 60000;
+
+interface TaskHandlers {
+  onStart?: () => void;
+  onRetry?: (attempt: number, delayMs: number, error: any) => void;
+  // Aborting drops the task from the queue, cancels a pending retry and rejects a running task at once
+  signal?: AbortSignal;
+}
+
+interface QueuedTask {
+  run: () => Promise<any>;
+  handlers: TaskHandlers;
+  attempt: number;
+  resolve: (value: any) => void;
+  reject: (error: any) => void;
+  settled: boolean;
+  retryTimer?: ReturnType<typeof setTimeout>;
+  onAbort?: () => void; // The signal's abort listener, removed once the task settles
+}
+
+export interface JobQueue {
+  add: <T>(task: () => Promise<T>, handlers?: TaskHandlers) => Promise<T>;
+  pause: () => void;
+  resume: () => void;
+  isPaused: () => boolean;
+  updateSettings: (settings: QueueSettings) => void;
+  getStats: () => QueueStats;
+}
+
+export const createAbortError = () => new DOMException('Cancelled', 'AbortError');
+
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+/**
+ * Rate limits (429) and transient server errors (5xx) are worth retrying.
+ * Anything else (bad key, invalid JSON, ...) will fail the same way again.
+ * Providers put the HTTP status on the error's numeric `status` field; without one, the message decides.
+ */
+export const isRetryableError = (error: any): boolean => {
+  if (typeof error?.status === 'number') return error.status === 429 || error.status >= 500;
+  const message = error?.message || String(error);
+  return /RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded/i.test(message);
+};
+
+export const getBackoffDelay = (attempt: number, baseDelayMs: number): number => {
+  const exponential = baseDelayMs * Math.pow(2, attempt - 1);
+  // Jitter spreads out retries so parallel jobs don't hit the API in lock-step
+  const jitter = Math.random() * baseDelayMs;
+  return Math.min(exponential + jitter, MAX_DELAY_MS);
+};
+
+/**
+ * A promise queue with bounded concurrency, automatic retries with exponential backoff
+ * and pause/resume. Shared by convert, remix and solve so they respect a single rate limit.
+ */
+export const createJobQueue = (
+  initialSettings: QueueSettings,
+  onStatsChange?: (stats: QueueStats) => void
+): JobQueue => {
+  let settings = initialSettings;
+  let paused = false;
+  const pending: QueuedTask[] = [];
+  let running = 0;
+  let retrying = 0;
+  let failed = 0;
+  let done = 0;
+
+  const getStats = (): QueueStats => ({ queued: pending.length, running, retrying, failed, done });
+
+  const notify = () => onStatsChange?.(getStats());
+
+  const pump = () => {
+    while (!paused && running < settings.concurrency && pending.length > 0) {
+      const task = pending.shift()!;
+      running++;
+      execute(task);
+    }
+    notify();
+  };
+
+  const settle = (task: QueuedTask, settleWith: () => void) => {
+    if (task.settled) return;
+    task.settled = true;
+    if (task.onAbort) task.handlers.signal?.removeEventListener('abort', task.onAbort);
+    settleWith();
+  };
+
+  const execute = async (task: QueuedTask) => {
+    task.attempt++;
+    task.handlers.onStart?.();
+    try {
+      const result = await task.run();
+      running--;
+      if (!task.settled) done++;
+      settle(task, () => task.resolve(result));
+    } catch (error) {
+      running--;
+      if (task.handlers.signal?.aborted || task.settled) {
+        // Already rejected by the abort listener; a provider that ignores the signal ends up here later
+        settle(task, () => task.reject(createAbortError()));
+      } else if (isRetryableError(error) && task.attempt <= settings.maxRetries) {
+        const delay = getBackoffDelay(task.attempt, settings.baseDelayMs);
+        retrying++;
+        task.handlers.onRetry?.(task.attempt, delay, error);
+        task.retryTimer = setTimeout(() => {
+          task.retryTimer = undefined;
+          retrying--;
+          // Retries go to the front so a job isn't starved behind newly added work
+          pending.unshift(task);
+          pump();
+        }, delay);
+      } else {
+        failed++;
+        settle(task, () => task.reject(error));
+      }
+    }
+    pump();
+  };
+
+  const abort = (task: QueuedTask) => {
+    const index = pending.indexOf(task);
+    if (index >= 0) {
+      pending.splice(index, 1);
+    } else if (task.retryTimer) {
+      clearTimeout(task.retryTimer);
+      task.retryTimer = undefined;
+      retrying--;
+    }
+    // A running task keeps its slot until the request actually ends, so the concurrency limit holds
+    settle(task, () => task.reject(createAbortError()));
+    pump();
+  };
+
+  return {
+    add: <T>(run: () => Promise<T>, handlers: TaskHandlers = {}) => {
+      // Start a fresh progress summary when a new batch begins on an idle queue
+      if (pending.length === 0 && running === 0 && retrying === 0) {
+        failed = 0;
+        done = 0;
+      }
+      return new Promise<T>((resolve, reject) => {
+        const { signal } = handlers;
+        if (signal?.aborted) {
+          reject(createAbortError());
+          return;
+        }
+        const task: QueuedTask = { run, handlers, attempt: 0, resolve, reject, settled: false };
+        if (signal) {
+          task.onAbort = () => abort(task);
+          signal.addEventListener('abort', task.onAbort, { once: true });
+        }
+        pending.push(task);
+        pump();
+      });
+    },
+    pause: () => {
+      paused = true;
+      notify();
+    },
+    resume: () => {
+      paused = false;
+      pump();
+    },
+    isPaused: () => paused,
+    updateSettings: (newSettings: QueueSettings) => {
+      settings = newSettings;
+      pump();
+    },
+    getStats,
+  };
+};
@@ -0,0 +1,297 @@
+import type { AiProvider, AiRequest, AiResponse, AiTask, AiUsage } from './aiProvider';
+
+const MOCK_PAGE_HTML = `
+<div style="font-family: Arial, sans-serif; padding: 16px; color: #111827;">
+  <p style="font-weight: bold; font-size: 16px; margin-bottom: 12px;">Section A: Multiple Choice Questions (1 mark each)</p>
+  <div style="margin-bottom: 12px;">
+    <p style="margin: 0 0 6px 0;"><strong>Q1.</strong> Which of the following is a nominal account?</p>
+    <table style="width: 100%; border-collapse: collapse;">
+      <tr>
+        <td style="padding: 2px 8px;">(a) Cash Account</td>
+        <td style="padding: 2px 8px;">(b) Rent Account</td>
+      </tr>
+      <tr>
+        <td style="padding: 2px 8px;">(c) Building Account</td>
+        <td style="padding: 2px 8px;">(d) Debtors Account</td>
+      </tr>
+    </table>
+  </div>
+  <div style="margin-bottom: 12px;">
+    <p style="margin: 0 0 6px 0;"><strong>Q2.</strong> Goods costing Rs. 20,000 were sold at a profit of 25% on cost. The sale price is:</p>
+    <table style="width: 100%; border-collapse: collapse;">
+      <tr>
+        <td style="padding: 2px 8px;">(a) Rs. 24,000</td>
+        <td style="padding: 2px 8px;">(b) Rs. 25,000</td>
+      </tr>
+      <tr>
+        <td style="padding: 2px 8px;">(c) Rs. 26,000</td>
+        <td style="padding: 2px 8px;">(d) Rs. 26,667</td>
+      </tr>
+    </table>
+  </div>
+  <p style="font-weight: bold; font-size: 16px; margin: 16px 0 12px 0;">Section B: Descriptive Questions (5 marks each)</p>
+  <div style="margin-bottom: 12px;">
+    <p style="margin: 0;"><strong>Q3.</strong> Pass journal entries for the following transactions: (i) Started business with cash Rs. 50,000; (ii) Purchased furniture for Rs. 8,000 in cash.</p>
+  </div>
+</div>
+`;
+
+const MOCK_TRANSLATED_HTML = `
+<div style="font-family: Arial, sans-serif; padding: 16px; color: #111827;">
+  <p style="font-weight: bold; font-size: 16px; margin-bottom: 12px;">खंड अ: बहुविकल्पीय प्रश्न (प्रत्येक 1 अंक)</p>
+  <div style="margin-bottom: 12px;">
+    <p style="margin: 0 0 6px 0;"><strong>Q1.</strong> निम्नलिखित में से कौन सा नाममात्र खाता (Nominal Account) है?</p>
+    <table style="width: 100%; border-collapse: collapse;">
+      <tr>
+        <td style="padding: 2px 8px;">(a) रोकड़ खाता</td>
+        <td style="padding: 2px 8px;">(b) किराया खाता</td>
+      </tr>
+      <tr>
+        <td style="padding: 2px 8px;">(c) भवन खाता</td>
+        <td style="padding: 2px 8px;">(d) देनदार खाता</td>
+      </tr>
+    </table>
+  </div>
+  <div style="margin-bottom: 12px;">
+    <p style="margin: 0 0 6px 0;"><strong>Q2.</strong> Rs. 20,000 लागत का माल लागत पर 25% लाभ पर बेचा गया। विक्रय मूल्य है:</p>
+    <table style="width: 100%; border-collapse: collapse;">
+      <tr>
+        <td style="padding: 2px 8px;">(a) Rs. 24,000</td>
+        <td style="padding: 2px 8px;">(b) Rs. 25,000</td>
+      </tr>
+      <tr>
+        <td style="padding: 2px 8px;">(c) Rs. 26,000</td>
+        <td style="padding: 2px 8px;">(d) Rs. 26,667</td>
+      </tr>
+    </table>
+  </div>
+  <p style="font-weight: bold; font-size: 16px; margin: 16px 0 12px 0;">खंड ब: वर्णनात्मक प्रश्न (प्रत्येक 5 अंक)</p>
+  <div style="margin-bottom: 12px;">
+    <p style="margin: 0;"><strong>Q3.</strong> निम्नलिखित लेनदेनों की रोजनामचा प्रविष्टियाँ कीजिए: (i) Rs. 50,000 नकद से व्यापार आरंभ किया; (ii) Rs. 8,000 का फर्नीचर नकद खरीदा।</p>
+  </div>
+</div>
+`;
+
+const MOCK_REMIX_HTML = `
+<div style="font-family: Arial, sans-serif; padding: 16px; color: #111827;">
+  <p style="font-weight: bold; font-size: 16px; margin-bottom: 12px;">Section A: Multiple Choice Questions (1 mark each)</p>
+  <div style="margin-bottom: 12px;">
+    <p style="margin: 0 0 6px 0;"><strong>Q1.</strong> Which of the following is a real account?</p>
+    <table style="width: 100%; border-collapse: collapse;">
+      <tr>
+        <td style="padding: 2px 8px;">(a) Salary Account</td>
+        <td style="padding: 2px 8px;">(b) Commission Account</td>
+      </tr>
+      <tr>
+        <td style="padding: 2px 8px;">(c) Machinery Account</td>
+        <td style="padding: 2px 8px;">(d) Capital Account</td>
+      </tr>
+    </table>
+  </div>
+  <div style="margin-bottom: 12px;">
+    <p style="margin: 0 0 6px 0;"><strong>Q2.</strong> Goods costing Rs. 30,000 were sold at a profit of 20% on cost. The sale price is:</p>
+    <table style="width: 100%; border-collapse: collapse;">
+      <tr>
+        <td style="padding: 2px 8px;">(a) Rs. 33,000</td>
+        <td style="padding: 2px 8px;">(b) Rs. 36,000</td>
+      </tr>
+      <tr>
+        <td style="padding: 2px 8px;">(c) Rs. 37,500</td>
+        <td style="padding: 2px 8px;">(d) Rs. 38,000</td>
+      </tr>
+    </table>
+  </div>
+  <p style="font-weight: bold; font-size: 16px; margin: 16px 0 12px 0;">Section B: Descriptive Questions (5 marks each)</p>
+  <div style="margin-bottom: 12px;">
+    <p style="margin: 0;"><strong>Q3.</strong> Pass journal entries for the following transactions: (i) Started business with cash Rs. 75,000; (ii) Purchased machinery for Rs. 12,000 in cash.</p>
+  </div>
+</div>
+`;
+
+const MOCK_SOLUTION_HTML = `
+<div class="solution-block" style="margin-bottom: 25px; page-break-inside: avoid; border-bottom: 1px dashed #e5e7eb; padding-bottom: 20px;">
+  <div style="background-color: #f3f4f6; padding: 12px; border-radius: 6px; font-weight: bold; color: #111827; margin-bottom: 12px; font-size: 16px; border-left: 4px solid #4b5563;">Q: Which of the following is a nominal account?</div>
+  <div style="padding-left: 8px; color: #374151; line-height: 1.6; font-size: 15px;">Nominal accounts record expenses, losses, incomes and gains. Rent is an expense, so the answer is <strong>(b) Rent Account</strong>.<p class="answer-key" data-question="1" data-answer="b"><strong>Answer: (b)</strong></p></div>
+</div>
+<div class="solution-block" style="margin-bottom: 25px; page-break-inside: avoid; border-bottom: 1px dashed #e5e7eb; padding-bottom: 20px;">
+  <div style="background-color: #f3f4f6; padding: 12px; border-radius: 6px; font-weight: bold; color: #111827; margin-bottom: 12px; font-size: 16px; border-left: 4px solid #4b5563;">Q: Goods costing Rs. 20,000 were sold at a profit of 25% on cost. The sale price is:</div>
+  <div style="padding-left: 8px; color: #374151; line-height: 1.6; font-size: 15px;">Profit = 25% of 20,000 = 5,000. Sale price = 20,000 + 5,000 = <strong>(b) Rs. 25,000</strong>.<p class="answer-key" data-question="2" data-answer="b"><strong>Answer: (b)</strong></p></div>
+</div>
+<div class="solution-block" style="margin-bottom: 25px; page-break-inside: avoid; border-bottom: 1px dashed #e5e7eb; padding-bottom: 20px;">
+  <div style="background-color: #f3f4f6; padding: 12px; border-radius: 6px; font-weight: bold; color: #111827; margin-bottom: 12px; font-size: 16px; border-left: 4px solid #4b5563;">Q: Pass journal entries for the given transactions.</div>
+  <div style="padding-left: 8px; color: #374151; line-height: 1.6; font-size: 15px;">(i) Cash A/c Dr. 50,000 To Capital A/c 50,000<br>(ii) Furniture A/c Dr. 8,000 To Cash A/c 8,000</div>
+</div>
+`;
+
+const MOCK_MARKING_SCHEME_HTML = `
+<div class="marking-block" style="margin-bottom: 25px; page-break-inside: avoid; border-bottom: 1px dashed #e5e7eb; padding-bottom: 20px;">
+  <div style="background-color: #fef3c7; padding: 10px 12px; border-radius: 6px; font-weight: bold; color: #111827; margin-bottom: 10px; font-size: 15px; border-left: 4px solid #d97706;">Q1. [1 mark]</div>
+  <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+    <tr><th style="border: 1px solid #d1d5db; padding: 6px; text-align: left;">Step / Point</th><th style="border: 1px solid #d1d5db; padding: 6px; width: 80px;">Marks</th></tr>
+    <tr><td style="border: 1px solid #d1d5db; padding: 6px;">Correct option (b) Rent Account</td><td style="border: 1px solid #d1d5db; padding: 6px; text-align: center;">1</td></tr>
+  </table>
+  <p style="margin: 8px 0 0 0; font-size: 14px;"><strong>Partial credit:</strong> None. No negative marking.</p>
+</div>
+<div class="marking-block" style="margin-bottom: 25px; page-break-inside: avoid; border-bottom: 1px dashed #e5e7eb; padding-bottom: 20px;">
+  <div style="background-color: #fef3c7; padding: 10px 12px; border-radius: 6px; font-weight: bold; color: #111827; margin-bottom: 10px; font-size: 15px; border-left: 4px solid #d97706;">Q3. [5 marks]</div>
+  <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+    <tr><th style="border: 1px solid #d1d5db; padding: 6px; text-align: left;">Step / Point</th><th style="border: 1px solid #d1d5db; padding: 6px; width: 80px;">Marks</th></tr>
+    <tr><td style="border: 1px solid #d1d5db; padding: 6px;">(i) Cash A/c Dr. / To Capital A/c with correct amount</td><td style="border: 1px solid #d1d5db; padding: 6px; text-align: center;">2</td></tr>
+    <tr><td style="border: 1px solid #d1d5db; padding: 6px;">(ii) Furniture A/c Dr. / To Cash A/c with correct amount</td><td style="border: 1px solid #d1d5db; padding: 6px; text-align: center;">2</td></tr>
+    <tr><td style="border: 1px solid #d1d5db; padding: 6px;">Narrations</td><td style="border: 1px solid #d1d5db; padding: 6px; text-align: center;">1</td></tr>
+  </table>
+  <p style="margin: 8px 0 0 0; font-size: 14px;"><strong>Partial credit:</strong> Correct accounts with a wrong amount get 1 of 2 marks per entry.</p>
+</div>
+`;
+
+const MOCK_PAGE_DOCUMENT = {
+  sections: [
+    {
+      title: 'Section A: Multiple Choice Questions (1 mark each)',
+      questions: [
+        {
+          number: '1',
+          text: 'Which of the following is a nominal account?',
+          marks: 1,
+          options: [
+            { label: 'a', text: 'Cash Account' },
+            { label: 'b', text: 'Rent Account' },
+            { label: 'c', text: 'Building Account' },
+            { label: 'd', text: 'Debtors Account' }
+          ]
+        },
+        {
+          number: '2',
+          text: 'Goods costing Rs. 20,000 were sold at a profit of 25% on cost. The sale price is:',
+          marks: 1,
+          options: [
+            { label: 'a', text: 'Rs. 24,000' },
+            { label: 'b', text: 'Rs. 25,000' },
+            { label: 'c', text: 'Rs. 26,000' },
+            { label: 'd', text: 'Rs. 26,667' }
+          ]
+        }
+      ]
+    },
+    {
+      title: 'Section B: Descriptive Questions (5 marks each)',
+      questions: [
+        {
+          number: '3',
+          text: 'Pass journal entries for the following transactions:',
+          marks: 5,
+          subParts: [
+            { label: 'i', text: 'Started business with cash Rs. 50,000.' },
+            { label: 'ii', text: 'Purchased furniture for Rs. 8,000 in cash.' }
+          ]
+        }
+      ]
+    }
+  ]
+};
+
+const MOCK_REMIX_DOCUMENT = {
+  sections: [
+    {
+      title: 'Section A: Multiple Choice Questions (1 mark each)',
+      questions: [
+        {
+          number: '1',
+          text: 'Which of the following is a real account?',
+          marks: 1,
+          options: [
+            { label: 'a', text: 'Salary Account' },
+            { label: 'b', text: 'Commission Account' },
+            { label: 'c', text: 'Machinery Account' },
+            { label: 'd', text: 'Capital Account' }
+          ]
+        },
+        {
+          number: '2',
+          text: 'Goods costing Rs. 30,000 were sold at a profit of 20% on cost. The sale price is:',
+          marks: 1,
+          options: [
+            { label: 'a', text: 'Rs. 33,000' },
+            { label: 'b', text: 'Rs. 36,000' },
+            { label: 'c', text: 'Rs. 37,500' },
+            { label: 'd', text: 'Rs. 38,000' }
+          ]
+        }
+      ]
+    },
+    {
+      title: 'Section B: Descriptive Questions (5 marks each)',
+      questions: [
+        {
+          number: '3',
+          text: 'Pass journal entries for the following transactions:',
+          marks: 5,
+          subParts: [
+            { label: 'i', text: 'Started business with cash Rs. 75,000.' },
+            { label: 'ii', text: 'Purchased machinery for Rs. 12,000 in cash.' }
+          ]
+        }
+      ]
+    }
+  ]
+};
+
+const MOCK_VERIFICATION = {
+  checks: [
+    { question: '2', description: 'Sale price at 20% profit on cost', kind: 'expression', expression: '30000 * (1 + 20%)', expected: 36000, decimals: 2, options: [33000, 36000, 37500, 38000] },
+    { question: '3(i)', description: 'Journal entry balances', kind: 'ledger', debits: ['75000'], credits: ['75000'] },
+    { question: '3(ii)', description: 'Journal entry balances', kind: 'ledger', debits: ['12000'], credits: ['12000'] }
+  ]
+};
+
+const CANNED_DOCUMENTS: Partial<Record<AiTask, object>> = {
+  convert: MOCK_PAGE_DOCUMENT,
+  remix: MOCK_REMIX_DOCUMENT,
+  verify: MOCK_VERIFICATION,
+};
+
+const CANNED_RESPONSES: Record<AiTask, string> = {
+  convert: MOCK_PAGE_HTML,
+  remix: MOCK_REMIX_HTML,
+  solve: MOCK_SOLUTION_HTML,
+  mark: MOCK_MARKING_SCHEME_HTML,
+  verify: JSON.stringify(MOCK_VERIFICATION),
+  translate: MOCK_TRANSLATED_HTML,
+};
+
+// Small artificial delay so loading states are visible during offline demos.
+const MOCK_LATENCY_MS = 400;
+
+// Rough token counts (about 4 characters per token, ~260 per image) so usage accounting can be tried offline
+const estimateUsage = (request: AiRequest, text: string): AiUsage => ({
+  inputTokens: Math.ceil((request.systemInstruction.length + request.prompt.length) / 4) + (request.image ? 258 : 0),
+  outputTokens: Math.ceil(text.length / 4),
+});
+
+interface MockProviderOptions {
+  model: string;
+}
+
+/**
+ * Deterministic offline provider. Always returns the same canned HTML (or JSON document when a
+ * response schema is requested) for a given task, so the full upload → convert → remix → solve
+ * flow works without any network access.
+ */
+export const createMockProvider = ({ model }: MockProviderOptions): AiProvider => ({
+  id: 'mock',
+  model,
+  generate: async (request: AiRequest): Promise<AiResponse> => {
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, MOCK_LATENCY_MS);
+      request.signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('Cancelled', 'AbortError'));
+      }, { once: true });
+    });
+    const document = CANNED_DOCUMENTS[request.task];
+    const text = request.responseSchema && document
+      ? JSON.stringify(document)
+      : CANNED_RESPONSES[request.task].trim();
+    return { text, usage: estimateUsage(request, text) };
+  }
+});
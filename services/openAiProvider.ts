@@ -0,0 +1,67 @@
+import type { AiProvider, AiRequest, AiResponse } from './aiProvider';
+
+interface OpenAiProviderOptions {
+  model: string;
+  baseUrl: string;
+  apiKey?: string;
+}
+
+/**
+ * Talks to any server implementing the OpenAI `/chat/completions` API.
+ * This covers OpenAI itself as well as local servers such as Ollama (`/v1`) and llama.cpp.
+ */
+export const createOpenAiProvider = ({ model, baseUrl, apiKey }: OpenAiProviderOptions): AiProvider => ({
+  id: 'openai',
+  model,
+  generate: async (request: AiRequest): Promise<AiResponse> => {
+    const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    const userContent: any[] = [{ type: 'text', text: request.prompt }];
+    if (request.image) {
+      userContent.push({
+        type: 'image_url',
+        image_url: { url: `data:${request.image.mimeType};base64,${request.image.data}` }
+      });
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    const res = await fetch(url, {
+      method: 'POST',
+      headers,
+      signal: request.signal,
+      body: JSON.stringify({
+        model,
+        temperature: request.temperature,
+        ...(request.seed !== undefined ? { seed: request.seed } : {}),
+        ...(request.responseSchema ? {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'response', schema: request.responseSchema }
+          }
+        } : {}),
+        messages: [
+          { role: 'system', content: request.systemInstruction },
+          { role: 'user', content: userContent }
+        ]
+      })
+    });
+
+    if (!res.ok) {
+      const body = await res.text().catch(() => '');
+      // The status goes on the error like the Gemini SDK's ApiError, so the queue can tell 429s and 5xx apart
+      throw Object.assign(new Error(`${res.status} ${res.statusText}${body ? `: ${body.substring(0, 200)}` : ''}`), { status: res.status });
+    }
+
+    const data = await res.json();
+    const text = data?.choices?.[0]?.message?.content;
+    const usage = data?.usage;
+    return {
+      text: typeof text === 'string' ? text : '',
+      usage: usage ? { inputTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 } : undefined,
+    };
+  }
+});
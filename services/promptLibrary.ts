@@ -0,0 +1,381 @@
+import { PromptVersion } from "../types";
+
+export type PromptKey = 'convert' | 'remix' | 'solve' | 'markingScheme' | 'verify' | 'translate' | 'structured' | 'structuredRemix';
+
+export interface PromptTemplate {
+  text: string;
+  temperature: number;
+}
+
+/**
+ * A named set of prompts, e.g. "Physics (Hindi medium)". The version is bumped on every saved
+ * change so that jobs can record exactly which prompts produced their HTML.
+ */
+export interface PromptVariant {
+  id: string;
+  name: string;
+  subject: string;
+  version: number;
+  updatedAt: number;
+  prompts: Record<PromptKey, PromptTemplate>;
+}
+
+export const PROMPT_LABELS: Record<PromptKey, string> = {
+  convert: 'Convert (HTML)',
+  structured: 'Convert (Structured)',
+  remix: 'Remix (HTML)',
+  structuredRemix: 'Remix (Structured)',
+  solve: 'Solution Key',
+  markingScheme: 'Marking Scheme',
+  verify: 'Number Check',
+  translate: 'Translate',
+};
+
+const SYSTEM_PROMPT = `
+You are an expert Frontend Engineer and UI Designer.
+Your task is to convert an image of a document or web page into a PIXEL-PERFECT HTML/Tailwind CSS replica.
+
+**Instructions:**
+1. **Analyze**: Look at the layout, typography, colors, and spacing of the image.
+2. **Replicate**: Create an HTML structure that looks EXACTLY like the image.
+   - Use **Tailwind CSS** for the main styling.
+   - **CRITICAL FOR WORD COMPATIBILITY**: You MUST ALSO use **inline \`style="..."\` attributes** for critical layout properties (width, background-color, font-size, borders, padding). 
+     - *Reason*: The user will export this to MS Word, which ignores Tailwind classes. Inline styles ensure the design stays intact in Word.
+   - Match fonts (use standard web safe fonts like Arial, Times New Roman, Roboto).
+   - If there are tables, recreate them using HTML <table> with inline borders.
+3. **Content**: Extract all text accurately.
+4. **Figures**: For every diagram, graph, chart or picture that is part of a question, output an image tag marking where it is on the page:
+   \`<img data-figure-box="ymin,xmin,ymax,xmax" alt="short description" style="max-width: 100%; display: block; margin: 8px auto;">\`
+   - The box is the figure's bounding box in the source image, normalised to 0-1000 (0,0 is the top-left corner).
+   - Do NOT add a \`src\` attribute. The app crops the figure from the original image.
+   - Do NOT redraw figures with HTML/CSS and do NOT use them for logos, watermarks or decorative lines.
+5. **Watermark Removal (CRITICAL)**: 
+   - **IGNORE** any watermarks, stamps, or overlay text (e.g., "Sample", "Copyright", "Confidential", Website URLs, or diagonal text) that obscures the content.
+   - **DO NOT** transcribe the watermark text into the HTML.
+   - **DO NOT** create visual elements (like faded divs) for the watermark. 
+   - Pretend the watermark does not exist and reconstruct the text/tables underneath it cleanly.
+
+**Output Rules:**
+* Return ONLY the HTML code for the content container.
+* Do NOT include <html>, <head>, or <body> tags.
+* Do NOT use markdown code blocks.
+* Ensure the code is responsive but optimized for print and MS Word export.
+`;
+
+const REMIX_PROMPT = `
+You are an expert Exam Setter and Teacher.
+I will provide you with HTML code representing an exam paper or worksheet.
+Your task is to **CREATE A NEW VERSION** of this test paper by changing the questions, while keeping the **EXACT SAME LAYOUT AND STYLING**.
+
+**Instructions:**
+1. **Analyze Context**: Identify the subject (Math, Science, History, etc.) and the topic of the questions.
+2. **Modify Questions**:
+   - **Mathematics/Physics**: Change the numbers/values in the problems. Keep the logic and formula required the same. (e.g., if 2x + 4 = 10, change to 3x + 6 = 15).
+   - **Theory (History/Bio/English)**: Replace the question with a DIFFERENT valid question from the SAME TOPIC/CHAPTER. (e.g., If asking about Newton's 1st Law, ask about Newton's 2nd Law or an example of the 1st Law).
+   - **Multiple Choice**: Change the question and the options. Ensure there is still one correct answer.
+3. **Preserve Structure**:
+   - **DO NOT CHANGE** the HTML structure, classes, or inline styles. The visual look must be identical.
+   - **DO NOT CHANGE** static headers like "School Name", "Time Allowed", "Instructions", "Student Name", "Roll No". Only change the actual content of the questions.
+   - **KEEP** every \`<img>\` tag exactly as it is, including its \`data-figure-ref\` attribute. If a question depends on a figure, keep the question compatible with that figure.
+4. **Clean Up**: If any watermark text accidentally remained in the source HTML, remove it in this version.
+
+**Output Rules:**
+* Return ONLY the HTML code.
+* Do NOT include markdown formatting.
+`;
+
+const SOLUTION_PROMPT = `
+You are an expert Professor and Tutor.
+I will provide you with HTML code containing exam questions.
+Your task is to generate a **Professional Solution Key** for these questions suitable for printing.
+
+**Instructions:**
+1. **Parse**: Read the questions from the provided HTML. **Ignore any text that looks like a watermark or artifact.**
+2. **Format**: For EACH question found, create a distinct "Solution Block".
+   - **Container**: Wrap the Question-Answer pair in a <div class="solution-block" style="margin-bottom: 25px; page-break-inside: avoid; border-bottom: 1px dashed #e5e7eb; padding-bottom: 20px;">.
+   - **Question Section**: 
+     - Use a light gray background box for the question text so it stands out.
+     - Style: <div style="background-color: #f3f4f6; padding: 12px; border-radius: 6px; font-weight: bold; color: #111827; margin-bottom: 12px; font-size: 16px; border-left: 4px solid #4b5563;">Q: [Insert Question Text]</div>
+   - **Answer Section**: 
+     - Provide a clear, detailed step-by-step solution.
+     - Style: <div style="padding-left: 8px; color: #374151; line-height: 1.6; font-size: 15px;">[Insert Detailed Solution]</div>
+   - **Math**: If it is a math problem, show steps clearly using standard text representation or simple HTML (or LaTeX when Math Mode is ON).
+   - **Code**: If it asks for code, use a <pre> block with a border.
+   - **MCQ Answer**: For a multiple-choice question, end its Answer Section with exactly:
+     <p class="answer-key" data-question="[question number as printed]" data-answer="[correct option label as printed, e.g. b]"><strong>Answer: ([option label])</strong></p>
+
+**Output Rules:**
+* Return ONLY the HTML code for the solution body.
+* Do NOT return markdown.
+* Use inline styles for maximum compatibility with PDF generators.
+* Do not include the main header (Subject, Time, etc), just the list of questions and answers.
+`;
+
+const MARKING_SCHEME_PROMPT = `
+You are a Chief Examiner preparing the official **Marking Scheme** for evaluators.
+I will provide you with HTML code containing exam questions and, when available, their worked solutions.
+Your task is to state exactly how marks are awarded for every question.
+
+**Instructions:**
+1. **Marks**: Use the marks printed next to each question. If none are printed, infer them from the section heading. The marks of the steps must add up to the question's total.
+2. **Numerical / Practical Questions**: Break the solution into steps (working notes, formula, substitution, ledger or journal entries, final answer) and give the marks for each step.
+3. **Theory Questions**: List the key points an examiner looks for, with the marks for each point. Mention acceptable alternative answers.
+4. **Partial Credit**: For each question, state the partial-credit rules (e.g. correct method with an arithmetic error, missing narration, wrong format, answer without working).
+5. **Format**: For EACH question, create a "Marking Block".
+   - **Container**: <div class="marking-block" style="margin-bottom: 25px; page-break-inside: avoid; border-bottom: 1px dashed #e5e7eb; padding-bottom: 20px;">
+   - **Heading**: <div style="background-color: #fef3c7; padding: 10px 12px; border-radius: 6px; font-weight: bold; color: #111827; margin-bottom: 10px; font-size: 15px; border-left: 4px solid #d97706;">Q[number]. [[total] marks]</div>
+   - **Steps / Key Points**: A <table> with the columns "Step / Point" and "Marks", using inline borders.
+   - **Partial Credit**: <p><strong>Partial credit:</strong> ...</p>
+
+**Output Rules:**
+* Return ONLY the HTML code for the marking scheme body.
+* Do NOT return markdown.
+* Use inline styles for maximum compatibility with PDF generators.
+* Do not repeat the full solutions and do not include the main header (Subject, Time, etc).
+`;
+
+const VERIFY_PROMPT = `
+You are a meticulous Exam Moderator.
+I will provide you with HTML code of a freshly remixed exam paper. Its numbers were changed automatically, so some problems may no longer work out.
+Your task is to write **machine-checkable claims** for every numerical question so that a calculator can confirm the paper is consistent.
+
+**Instructions:**
+1. **Calculations** (kind "expression"): Work out the answer yourself, then write the arithmetic that produces it as \`expression\` using only the numbers given in the question. Put the answer you expect in \`expected\`.
+   - Set \`decimals\` to the number of decimals a clean answer should have (0 for counts and whole-number answers, 2 for money).
+   - For Multiple Choice Questions with numeric options, list the option values in \`options\`.
+2. **Accounting** (kind "ledger"): For every journal entry, trial balance, balance sheet or account, list the debit side amounts in \`debits\` and the credit side amounts in \`credits\`.
+3. **Expressions**: Plain numbers only: no units, currency symbols, variables or thousands separators. Percentages may be written as 25%.
+4. Skip theory questions. If nothing on the page can be checked, return an empty list.
+
+**Output Rules:**
+* Return ONLY JSON matching the schema.
+* Do NOT use markdown code blocks.
+`;
+
+const TRANSLATE_PROMPT = `
+You are an expert Translator of exam papers and textbooks.
+I will provide you with HTML code of an exam paper. Translate it into the **target language given at the end of these instructions**, keeping the **EXACT SAME LAYOUT AND STYLING**.
+
+**Instructions:**
+1. **Translate** every piece of visible text: section headings, instructions, questions, options and table cells.
+2. **Preserve Structure**:
+   - **DO NOT CHANGE** the HTML structure, tags, classes, inline styles or attributes. Every element of the input must appear in the output in the same order, so the two versions can be placed side by side.
+   - **KEEP** every \`<img>\` tag exactly as it is, including its \`data-figure-ref\` attribute.
+3. **Keep As-Is**: numbers, amounts, units, question numbers and option labels ((a), (b), ...), formulas and LaTeX, and proper nouns.
+4. **Terminology**: Use the standard subject terminology of the target language used in Indian school and professional exams. When a technical term has no common translation, keep the English term in brackets after it.
+
+**Output Rules:**
+* Return ONLY the HTML code.
+* Do NOT include markdown formatting.
+`;
+
+const STRUCTURED_PROMPT = `
+You are an expert Exam Paper Digitizer.
+Your task is to extract the exam questions from an image of a question paper into a **typed JSON document** that follows the provided response schema.
+
+**Instructions:**
+1. **Sections**: Group questions under their printed section headings (e.g. "Section A"). If there are no headings, use a single section without a title.
+2. **Questions**: For each question capture:
+   - \`number\`: exactly as printed (e.g. "1", "Q5", "2(a)").
+   - \`text\`: the question stem only. Do NOT repeat the options, sub-parts or tables inside the text.
+   - \`marks\`: the marks printed next to the question, if any.
+   - \`options\`: for Multiple Choice Questions, every option with its label ("a", "b", ...).
+   - \`subParts\`: labelled sub-questions like (i), (ii) or (a), (b).
+   - \`tables\`: any table as headers and rows of cell text.
+   - \`figures\`: every diagram, chart or image in the question, with a short description and its bounding box on the page as [ymin, xmin, ymax, xmax] normalised to 0-1000.
+3. **Header Text**: Put the paper title and general instructions in \`title\` and \`instructions\`, not in questions.
+4. **Watermark Removal (CRITICAL)**: IGNORE any watermarks, stamps or overlay text. Do not transcribe them.
+
+**Output Rules:**
+* Return ONLY JSON matching the schema.
+* Do NOT use markdown code blocks.
+`;
+
+const STRUCTURED_REMIX_PROMPT = `
+You are an expert Exam Setter and Teacher.
+I will provide you with a JSON document describing an exam paper (sections, questions, options, sub-parts, marks).
+Your task is to **CREATE A NEW VERSION** of this paper, question by question, returning JSON with the **EXACT SAME SHAPE**.
+
+**Instructions:**
+1. Keep the same sections, the same question numbers, the same marks and the same number of options and sub-parts for every question.
+2. **Mathematics/Physics/Accounts**: Change the numbers/values. Keep the logic and formula required the same.
+3. **Theory**: Replace the question with a DIFFERENT valid question from the SAME TOPIC/CHAPTER.
+4. **Multiple Choice**: Change the question and the options. Ensure there is still exactly one correct answer.
+
+**Output Rules:**
+* Return ONLY JSON matching the schema.
+* Do NOT use markdown code blocks.
+`;
+
+export const DEFAULT_PROMPTS: Record<PromptKey, PromptTemplate> = {
+  convert: { text: SYSTEM_PROMPT, temperature: 0.1 },
+  structured: { text: STRUCTURED_PROMPT, temperature: 0.1 },
+  remix: { text: REMIX_PROMPT, temperature: 0.7 }, // Higher temperature for creativity in new questions
+  structuredRemix: { text: STRUCTURED_REMIX_PROMPT, temperature: 0.7 },
+  solve: { text: SOLUTION_PROMPT, temperature: 0.4 }, // Balanced for factual accuracy and good explanation
+  markingScheme: { text: MARKING_SCHEME_PROMPT, temperature: 0.2 },
+  verify: { text: VERIFY_PROMPT, temperature: 0 },
+  translate: { text: TRANSLATE_PROMPT, temperature: 0.2 },
+};
+
+export const DEFAULT_VARIANT_ID = 'default';
+
+// The built-in prompts. Read-only: duplicate it to make changes.
+export const DEFAULT_VARIANT: PromptVariant = {
+  id: DEFAULT_VARIANT_ID,
+  name: 'Built-in',
+  subject: 'General',
+  version: 1,
+  updatedAt: 0,
+  prompts: DEFAULT_PROMPTS,
+};
+
+const VARIANTS_KEY = 'snap2print_prompt_variants';
+const ACTIVE_KEY = 'snap2print_active_prompt_variant';
+const PACK_FORMAT = 'snap2print-prompt-pack';
+
+const generateId = () => `pv-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`;
+
+// Fills in prompts missing from older saves or hand-written packs
+const withDefaults = (prompts: Partial<Record<PromptKey, Partial<PromptTemplate>>> = {}): Record<PromptKey, PromptTemplate> => {
+  const result = {} as Record<PromptKey, PromptTemplate>;
+  (Object.keys(DEFAULT_PROMPTS) as PromptKey[]).forEach(key => {
+    const prompt = prompts[key];
+    result[key] = {
+      text: typeof prompt?.text === 'string' && prompt.text.trim() ? prompt.text : DEFAULT_PROMPTS[key].text,
+      temperature: typeof prompt?.temperature === 'number' ? Math.min(2, Math.max(0, prompt.temperature)) : DEFAULT_PROMPTS[key].temperature,
+    };
+  });
+  return result;
+};
+
+const loadVariants = (): PromptVariant[] => {
+  try {
+    const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(VARIANTS_KEY) : null;
+    if (saved) {
+      return (JSON.parse(saved) as PromptVariant[]).map(v => ({ ...v, prompts: withDefaults(v.prompts) }));
+    }
+  } catch (e) {
+    console.error("Failed to load prompt variants", e);
+  }
+  return [];
+};
+
+let customVariants: PromptVariant[] = loadVariants();
+let activeVariantId: string = (typeof localStorage !== 'undefined' && localStorage.getItem(ACTIVE_KEY)) || DEFAULT_VARIANT_ID;
+
+const persist = () => {
+  localStorage.setItem(VARIANTS_KEY, JSON.stringify(customVariants));
+};
+
+export const getPromptVariants = (): PromptVariant[] => [DEFAULT_VARIANT, ...customVariants];
+
+export const groupBySubject = (variants: PromptVariant[]): [string, PromptVariant[]][] => {
+  const groups = new Map<string, PromptVariant[]>();
+  variants.forEach(v => groups.set(v.subject, [...(groups.get(v.subject) || []), v]));
+  return Array.from(groups.entries());
+};
+
+export const getActivePromptVariant = (): PromptVariant =>
+  customVariants.find(v => v.id === activeVariantId) || DEFAULT_VARIANT;
+
+export const setActivePromptVariant = (id: string) => {
+  activeVariantId = id;
+  localStorage.setItem(ACTIVE_KEY, id);
+};
+
+export const getPromptVersion = (variant: PromptVariant): PromptVersion => ({
+  variantId: variant.id,
+  name: variant.name,
+  version: variant.version,
+});
+
+/** Creates a new variant starting from the prompts of `base`. */
+export const createPromptVariant = (name: string, subject: string, base: PromptVariant = DEFAULT_VARIANT): PromptVariant => {
+  const variant: PromptVariant = {
+    id: generateId(),
+    name: name.trim() || 'Untitled',
+    subject: subject.trim() || 'General',
+    version: 1,
+    updatedAt: Date.now(),
+    prompts: withDefaults(base.prompts),
+  };
+  customVariants = [...customVariants, variant];
+  persist();
+  return variant;
+};
+
+/**
+ * Saves changes to a custom variant. The version is only bumped when a prompt or temperature
+ * changed; renaming a variant does not change what it generates.
+ */
+export const savePromptVariant = (variant: PromptVariant): PromptVariant => {
+  if (variant.id === DEFAULT_VARIANT_ID) {
+    throw new Error("The built-in prompts cannot be edited. Duplicate them first.");
+  }
+  const existing = customVariants.find(v => v.id === variant.id);
+  const prompts = withDefaults(variant.prompts);
+  const promptsChanged = !existing || JSON.stringify(existing.prompts) !== JSON.stringify(prompts);
+  const saved: PromptVariant = {
+    ...variant,
+    name: variant.name.trim() || 'Untitled',
+    subject: variant.subject.trim() || 'General',
+    prompts,
+    version: existing && promptsChanged ? existing.version + 1 : variant.version,
+    updatedAt: Date.now(),
+  };
+  customVariants = existing
+    ? customVariants.map(v => v.id === saved.id ? saved : v)
+    : [...customVariants, saved];
+  persist();
+  return saved;
+};
+
+export const resetPromptVariant = (id: string): PromptVariant | undefined => {
+  const variant = customVariants.find(v => v.id === id);
+  if (!variant) return undefined;
+  return savePromptVariant({ ...variant, prompts: DEFAULT_PROMPTS });
+};
+
+export const deletePromptVariant = (id: string) => {
+  customVariants = customVariants.filter(v => v.id !== id);
+  persist();
+  if (activeVariantId === id) {
+    setActivePromptVariant(DEFAULT_VARIANT_ID);
+  }
+};
+
+export const exportPromptPack = (variants: PromptVariant[]): string =>
+  JSON.stringify({
+    format: PACK_FORMAT,
+    exportedAt: new Date().toISOString(),
+    variants: variants.filter(v => v.id !== DEFAULT_VARIANT_ID).map(({ id, ...rest }) => rest),
+  }, null, 2);
+
+/**
+ * Adds the variants from a prompt pack. Imported variants always get new ids so they never
+ * overwrite local ones; prompts missing from the pack fall back to the defaults.
+ */
+export const importPromptPack = (json: string): PromptVariant[] => {
+  let pack: any;
+  try {
+    pack = JSON.parse(json);
+  } catch (e) {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!pack || pack.format !== PACK_FORMAT || !Array.isArray(pack.variants)) {
+    throw new Error("The file is not a Snap2Print prompt pack.");
+  }
+
+  const imported: PromptVariant[] = pack.variants.map((v: any) => ({
+    id: generateId(),
+    name: typeof v?.name === 'string' && v.name.trim() ? v.name.trim() : 'Imported',
+    subject: typeof v?.subject === 'string' && v.subject.trim() ? v.subject.trim() : 'General',
+    version: typeof v?.version === 'number' ? v.version : 1,
+    updatedAt: Date.now(),
+    prompts: withDefaults(v?.prompts),
+  }));
+  customVariants = [...customVariants, ...imported];
+  persist();
+  return imported;
+};
@@ -0,0 +1,147 @@
+import { BankDifficulty, BankQuestion, IssuedPaper, PaperQuestion } from '../types';
+import { openDatabase, withStore } from '../utils/idb';
+
+const DB_NAME = 'snap2print-bank';
+const STORE = 'questions';
+const ISSUED_STORE = 'issued';
+
+const db = () => openDatabase(DB_NAME, 2, (database, oldVersion) => {
+  if (oldVersion < 1) database.createObjectStore(STORE, { keyPath: 'id' });
+  if (oldVersion < 2) database.createObjectStore(ISSUED_STORE, { keyPath: 'id' });
+});
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(listener => listener());
+
+// Called after every change to the bank or its issued papers. Returns the unsubscribe function.
+export const subscribeToBank = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const generateId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`;
+
+export const listBankQuestions = async (): Promise<BankQuestion[]> => {
+  const questions = await withStore<BankQuestion[]>(db(), STORE, 'readonly', store => store.getAll());
+  return questions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export type NewBankQuestion = Omit<BankQuestion, 'id' | 'createdAt' | 'updatedAt'>;
+
+export const addBankQuestions = async (questions: NewBankQuestion[]): Promise<BankQuestion[]> => {
+  const now = Date.now();
+  const saved = questions.map(q => ({ ...q, id: generateId('bq'), createdAt: now, updatedAt: now }));
+  // One transaction, so a batch is saved completely or not at all
+  const transaction = (await db()).transaction(STORE, 'readwrite');
+  saved.forEach(q => transaction.objectStore(STORE).put(q));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  notify();
+  return saved;
+};
+
+export const updateBankQuestion = async (question: BankQuestion): Promise<BankQuestion> => {
+  const updated = { ...question, updatedAt: Date.now() };
+  await withStore(db(), STORE, 'readwrite', store => store.put(updated));
+  notify();
+  return updated;
+};
+
+export const deleteBankQuestion = async (id: string) => {
+  await withStore(db(), STORE, 'readwrite', store => store.delete(id));
+  notify();
+};
+
+export const listIssuedPapers = async (): Promise<IssuedPaper[]> => {
+  const papers = await withStore<IssuedPaper[]>(db(), ISSUED_STORE, 'readonly', store => store.getAll());
+  return papers.sort((a, b) => b.issuedAt - a.issuedAt);
+};
+
+// Remembers which bank questions went into a paper, so later papers can avoid them
+export const recordIssuedPaper = async (title: string, questionIds: string[]): Promise<IssuedPaper> => {
+  const paper: IssuedPaper = { id: generateId('ip'), title, issuedAt: Date.now(), questionIds };
+  await withStore(db(), ISSUED_STORE, 'readwrite', store => store.put(paper));
+  notify();
+  return paper;
+};
+
+// Forgetting a paper makes its questions available again
+export const deleteIssuedPaper = async (id: string) => {
+  await withStore(db(), ISSUED_STORE, 'readwrite', store => store.delete(id));
+  notify();
+};
+
+export const DIFFICULTY_LABELS: Record<BankDifficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+};
+
+export const isMcq = (question: PaperQuestion) => (question.options?.length || 0) > 1;
+
+const stripTags = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&');
+
+// Everything a search should match: question, options, sub-parts, tables and the tags
+export const getSearchText = (q: BankQuestion): string => stripTags([
+  q.question.text,
+  ...(q.question.options || []).map(o => o.text),
+  ...(q.question.subParts || []).flatMap(p => [p.text, ...(p.options || []).map(o => o.text)]),
+  ...(q.question.tables || []).flatMap(t => [t.caption || '', ...t.headers, ...t.rows.flat()]),
+  q.subject,
+  q.chapter,
+  q.source,
+].join(' ')).toLowerCase().replace(/\s+/g, ' ');
+
+export interface BankFilters {
+  query: string; // Every word must occur, in any order
+  subject: string; // '' matches all
+  chapter: string;
+  difficulty: BankDifficulty | '';
+  marks?: number;
+  type: 'mcq' | 'descriptive' | '';
+}
+
+export const EMPTY_BANK_FILTERS: BankFilters = { query: '', subject: '', chapter: '', difficulty: '', type: '' };
+
+export const filterBankQuestions = (questions: BankQuestion[], filters: BankFilters): BankQuestion[] => {
+  const words = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return questions.filter(q =>
+    (!filters.subject || q.subject === filters.subject) &&
+    (!filters.chapter || q.chapter === filters.chapter) &&
+    (!filters.difficulty || q.difficulty === filters.difficulty) &&
+    (filters.marks === undefined || q.question.marks === filters.marks) &&
+    (!filters.type || (filters.type === 'mcq') === isMcq(q.question)) &&
+    (words.length === 0 || (text => words.every(w => text.includes(w)))(getSearchText(q)))
+  );
+};
+
+// Distinct, sorted values of a tag, for the filter dropdowns
+export const getTagValues = (questions: BankQuestion[], tag: 'subject' | 'chapter'): string[] =>
+  Array.from(new Set<string>(questions.map(q => q[tag]).filter(Boolean)))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+export interface BankTags {
+  subject: string;
+  chapter: string;
+  difficulty: BankDifficulty;
+}
+
+const TAGS_KEY = 'snap2print_bank_tags';
+
+// Tags of the last save, so consecutive pages of one chapter are tagged with one click
+export const getLastBankTags = (): BankTags => {
+  try {
+    const saved = localStorage.getItem(TAGS_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to load bank tags", e);
+  }
+  return { subject: '', chapter: '', difficulty: 'medium' };
+};
+
+export const saveLastBankTags = (tags: BankTags) => {
+  localStorage.setItem(TAGS_KEY, JSON.stringify(tags));
+};
@@ -0,0 +1,142 @@
+import type { AiProvider, AiRequest, AiTask, AiUsage } from './aiProvider';
+import { PromptVersion } from '../types';
+import { openDatabase, withStore } from '../utils/idb';
+
+export interface CacheEntry {
+  key: string; // SHA-256 of the request (image bytes, prompts, model, prompt version)
+  task: AiTask;
+  provider: string;
+  model: string;
+  promptVersion: string; // "<variant name> v<version>", for display only; the key covers the prompt text itself
+  label: string; // What the entry was created for, e.g. the uploaded file name
+  createdAt: number;
+  lastUsedAt: number;
+  hits: number;
+  size: number; // Characters of the cached response
+  text: string;
+  usage?: AiUsage; // Tokens the original call used, i.e. what each hit saved
+}
+
+// Only the expensive, repeatable results are cached
+export const CACHED_TASKS: AiTask[] = ['convert', 'remix', 'solve'];
+
+const DB_NAME = 'snap2print-cache';
+const STORE = 'results';
+const ENABLED_KEY = 'snap2print_cache_enabled';
+
+const db = () => openDatabase(DB_NAME, 1, (database) => {
+  database.createObjectStore(STORE, { keyPath: 'key' });
+});
+
+let enabled = typeof localStorage === 'undefined' || localStorage.getItem(ENABLED_KEY) !== 'false';
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(listener => listener());
+
+export const isCacheEnabled = () => enabled;
+
+export const setCacheEnabled = (value: boolean) => {
+  enabled = value;
+  localStorage.setItem(ENABLED_KEY, String(value));
+  notify();
+};
+
+// Called whenever entries are added, used, evicted or the cache is switched on/off. Returns the unsubscribe function.
+export const subscribeToCache = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const listCacheEntries = async (): Promise<CacheEntry[]> => {
+  const entries = await withStore<CacheEntry[]>(db(), STORE, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+};
+
+export const deleteCacheEntry = async (key: string) => {
+  await withStore(db(), STORE, 'readwrite', store => store.delete(key));
+  notify();
+};
+
+export const clearCache = async () => {
+  await withStore(db(), STORE, 'readwrite', store => store.clear());
+  notify();
+};
+
+export const formatBytes = (size: number) =>
+  size >= 1024 * 1024 ? `${(size / 1024 / 1024).toFixed(1)} MB` : `${(size / 1024).toFixed(1)} KB`;
+
+const putEntry = (entry: CacheEntry) => withStore(db(), STORE, 'readwrite', store => store.put(entry));
+
+const hashRequest = async (request: AiRequest, provider: AiProvider, promptVersion?: PromptVersion): Promise<string> => {
+  const source = JSON.stringify([
+    provider.id,
+    provider.model,
+    promptVersion ? `${promptVersion.variantId}@${promptVersion.version}` : '',
+    request.task,
+    request.systemInstruction,
+    request.prompt,
+    request.image?.data ?? '',
+    request.temperature,
+    request.responseSchema ?? null,
+    request.seed ?? null,
+  ]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(source));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+interface ResultCacheOptions {
+  promptVersion?: PromptVersion;
+  label?: string;
+  // Skip the lookup and overwrite the entry with a fresh result
+  bypassCache?: boolean;
+}
+
+/**
+ * Wraps a provider so results of cacheable tasks are served from IndexedDB when the exact same
+ * request was answered before. Cache errors (quota, private browsing) fall through to the provider.
+ */
+export const withResultCache = (provider: AiProvider, options: ResultCacheOptions = {}): AiProvider => ({
+  ...provider,
+  generate: async (request) => {
+    if (!enabled || !CACHED_TASKS.includes(request.task)) {
+      return provider.generate(request);
+    }
+
+    let key: string | undefined;
+    try {
+      key = await hashRequest(request, provider, options.promptVersion);
+      const cached = options.bypassCache ? undefined : await withStore<CacheEntry | undefined>(db(), STORE, 'readonly', store => store.get(key!));
+      if (cached) {
+        await putEntry({ ...cached, hits: cached.hits + 1, lastUsedAt: Date.now() });
+        notify();
+        return { text: cached.text, usage: cached.usage, cached: true };
+      }
+    } catch (e) {
+      console.warn("Result cache lookup failed", e);
+    }
+
+    const response = await provider.generate(request);
+    if (key && response.text) {
+      try {
+        const now = Date.now();
+        await putEntry({
+          key,
+          task: request.task,
+          provider: provider.id,
+          model: provider.model,
+          promptVersion: options.promptVersion ? `${options.promptVersion.name} v${options.promptVersion.version}` : '',
+          label: options.label || '',
+          createdAt: now,
+          lastUsedAt: now,
+          hits: 0,
+          size: response.text.length,
+          text: response.text,
+          usage: response.usage,
+        });
+        notify();
+      } catch (e) {
+        console.warn("Result cache write failed", e);
+      }
+    }
+    return response;
+  },
+});
@@ -0,0 +1,174 @@
+import type { AiProvider, AiProviderId, AiTask } from './aiProvider';
+import { JobUsage } from '../types';
+
+export interface UsageEntry {
+  timestamp: number;
+  jobId?: string;
+  task: AiTask;
+  provider: AiProviderId;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  cost?: number; // USD, undefined when the model has no known price (e.g. local models)
+  cached?: boolean; // Served from the result cache, so nothing was billed
+}
+
+interface ModelPrice {
+  input: number; // USD per million tokens
+  output: number;
+}
+
+// List prices, matched by model name prefix (longest first). Update when providers change their pricing.
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-3-pro': { input: 2, output: 12 },
+  'gemini-3-flash': { input: 0.5, output: 3 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'mock': { input: 0, output: 0 },
+};
+
+const getModelPrice = (model: string): ModelPrice | undefined => {
+  const prefix = Object.keys(MODEL_PRICES)
+    .filter(p => model.startsWith(p))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_PRICES[prefix] : undefined;
+};
+
+export const estimateCost = (model: string, inputTokens: number, outputTokens: number): number | undefined => {
+  const price = getModelPrice(model);
+  return price ? (inputTokens * price.input + outputTokens * price.output) / 1_000_000 : undefined;
+};
+
+const STORAGE_KEY = 'snap2print_usage_log';
+// Roughly 1 MB of localStorage; the oldest calls are pruned beyond it
+const MAX_ENTRIES = 5000;
+
+const loadUsageLog = (): UsageEntry[] => {
+  try {
+    const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    return saved ? (JSON.parse(saved) as UsageEntry[]).slice(-MAX_ENTRIES) : [];
+  } catch (e) {
+    console.error("Failed to load usage log", e);
+    return [];
+  }
+};
+
+// Calls made since this page was loaded make up the "session"
+export const SESSION_STARTED_AT = Date.now();
+
+// Kept across reloads so the log can still be exported for billing after the tab was closed
+let usageLog: UsageEntry[] = loadUsageLog();
+const listeners = new Set<(entry?: UsageEntry) => void>();
+
+const saveUsageLog = (entry?: UsageEntry) => {
+  // Other data can fill the storage quota first; then only the newest entries that fit are saved
+  for (let kept = usageLog.length; ; kept = Math.floor(kept / 2)) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(usageLog.slice(usageLog.length - kept)));
+      break;
+    } catch (e) {
+      if (kept === 0) {
+        console.error("Failed to save usage log", e);
+        break;
+      }
+    }
+  }
+  listeners.forEach(listener => listener(entry));
+};
+
+export const getUsageLog = (): UsageEntry[] => usageLog;
+
+export const recordUsage = (entry: UsageEntry) => {
+  usageLog = [...usageLog, entry].slice(-MAX_ENTRIES);
+  saveUsageLog(entry);
+};
+
+export const clearUsageLog = () => {
+  usageLog = [];
+  saveUsageLog();
+};
+
+/**
+ * Calls the listener after every recorded call (with the new entry) and after the log is cleared
+ * (without one). Returns the unsubscribe function.
+ */
+export const subscribeToUsage = (listener: (entry?: UsageEntry) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const EMPTY_USAGE: JobUsage = { calls: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0, cost: 0 };
+
+export const addUsage = (total: JobUsage, entry: UsageEntry): JobUsage => ({
+  calls: total.calls + 1,
+  inputTokens: total.inputTokens + entry.inputTokens,
+  outputTokens: total.outputTokens + entry.outputTokens,
+  latencyMs: total.latencyMs + entry.latencyMs,
+  cost: total.cost + (entry.cost ?? 0),
+});
+
+export const summarizeUsage = (entries: UsageEntry[]): JobUsage => entries.reduce(addUsage, EMPTY_USAGE);
+
+/**
+ * Wraps a provider so every successful call is added to the usage log, attributed to `jobId`.
+ * Failed calls are not recorded; a retry that succeeds is recorded as its own call.
+ */
+export const withUsageTracking = (provider: AiProvider, jobId?: string): AiProvider => ({
+  ...provider,
+  generate: async (request) => {
+    const started = performance.now();
+    const response = await provider.generate(request);
+    const inputTokens = response.cached ? 0 : response.usage?.inputTokens ?? 0;
+    const outputTokens = response.cached ? 0 : response.usage?.outputTokens ?? 0;
+    recordUsage({
+      timestamp: Date.now(),
+      jobId,
+      task: request.task,
+      provider: provider.id,
+      model: provider.model,
+      inputTokens,
+      outputTokens,
+      latencyMs: Math.round(performance.now() - started),
+      cost: estimateCost(provider.model, inputTokens, outputTokens),
+      ...(response.cached ? { cached: true } : {}),
+    });
+    return response;
+  },
+});
+
+const csvField = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// `fileNames` maps job ids to the uploaded file name, so rows can be traced back to pages
+export const exportUsageCsv = (entries: UsageEntry[], fileNames: Record<string, string> = {}): string => {
+  const header = ['timestamp', 'job_id', 'file', 'task', 'provider', 'model', 'input_tokens', 'output_tokens', 'latency_ms', 'cost_usd', 'cached'];
+  const rows = entries.map(e => [
+    new Date(e.timestamp).toISOString(),
+    e.jobId,
+    e.jobId ? fileNames[e.jobId] : undefined,
+    e.task,
+    e.provider,
+    e.model,
+    e.inputTokens,
+    e.outputTokens,
+    e.latencyMs,
+    e.cost === undefined ? undefined : e.cost.toFixed(6),
+    e.cached ? 'yes' : 'no',
+  ].map(csvField).join(','));
+  return [header.join(','), ...rows].join('\n');
+};
+
+export const formatCost = (cost: number) => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+export const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
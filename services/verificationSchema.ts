@@ -0,0 +1,67 @@
+/**
+ * A machine-checkable claim about one question, written by the model and recomputed locally
+ * by `runVerificationChecks` in utils/verification.ts.
+ */
+export interface VerificationCheckSpec {
+  question: string;
+  description: string;
+  kind: 'expression' | 'ledger';
+  // expression: arithmetic that computes the answer, and the answer the paper/solution states
+  expression?: string;
+  expected?: number;
+  decimals?: number; // The answer should come out with at most this many decimals
+  options?: number[]; // Numeric MCQ options, one of which must equal the computed answer
+  // ledger: amounts (or expressions) on each side of a journal entry, trial balance or account
+  debits?: string[];
+  credits?: string[];
+}
+
+export const VERIFICATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    checks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          question: { type: 'string', description: 'Question number exactly as printed, e.g. "3", "Q5(b)".' },
+          description: { type: 'string', description: 'What is being checked, e.g. "Sale price", "Journal entry (ii) balances".' },
+          kind: { type: 'string', enum: ['expression', 'ledger'] },
+          expression: { type: 'string', description: 'Plain arithmetic using numbers, + - * / ^ %, parentheses and sqrt(), abs(), round(), min(), max(), ln(), log(). No variables, units or thousands separators.' },
+          expected: { type: 'number', description: 'The numeric answer the expression must produce.' },
+          decimals: { type: 'integer', description: 'Maximum decimals a clean answer may have, e.g. 0 for whole numbers, 2 for currency.' },
+          options: { type: 'array', items: { type: 'number' }, description: 'Numeric MCQ options, if the question has them.' },
+          debits: { type: 'array', items: { type: 'string' }, description: 'Debit amounts or arithmetic expressions, without thousands separators.' },
+          credits: { type: 'array', items: { type: 'string' }, description: 'Credit amounts or arithmetic expressions, without thousands separators.' }
+        },
+        required: ['question', 'description', 'kind']
+      }
+    }
+  },
+  required: ['checks']
+};
+
+export const parseVerificationChecks = (text: string): VerificationCheckSpec[] => {
+  const cleaned = text.replace(/```json/g, '').replace(/```/g, '').trim();
+  let raw: any;
+  try {
+    raw = JSON.parse(cleaned);
+  } catch (e) {
+    throw new Error("The AI returned invalid JSON for the verification checks. Please Retry.");
+  }
+
+  const checks: any[] = Array.isArray(raw?.checks) ? raw.checks : [];
+  return checks
+    .filter(c => c && (c.kind === 'expression' || c.kind === 'ledger'))
+    .map(c => ({
+      question: String(c.question ?? ''),
+      description: String(c.description ?? ''),
+      kind: c.kind,
+      ...(typeof c.expression === 'string' ? { expression: c.expression } : {}),
+      ...(typeof c.expected === 'number' ? { expected: c.expected } : {}),
+      ...(typeof c.decimals === 'number' ? { decimals: c.decimals } : {}),
+      ...(Array.isArray(c.options) ? { options: c.options.filter((o: any) => typeof o === 'number') } : {}),
+      ...(Array.isArray(c.debits) ? { debits: c.debits.map(String) } : {}),
+      ...(Array.isArray(c.credits) ? { credits: c.credits.map(String) } : {}),
+    }));
+};
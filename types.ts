@@ -1,8 +1,10 @@
 export enum JobStatus {
   IDLE = 'IDLE',
+  QUEUED = 'QUEUED',
   PROCESSING = 'PROCESSING',
   COMPLETED = 'COMPLETED',
-  ERROR = 'ERROR'
+  ERROR = 'ERROR',
+  CANCELLED = 'CANCELLED' // Stopped by the user; can be queued again
 }
 
 export interface ImageJob {
@@ -12,9 +14,150 @@ export interface ImageJob {
   status: JobStatus;
   resultHtml?: string;
   solutionHtml?: string; // Stores the AI generated detailed solution
+  markingSchemeHtml?: string; // Step-wise marks, key points and partial-credit rules for examiners
+  translatedHtml?: string; // resultHtml in translationLanguage, with the same layout
+  translationLanguage?: string;
+  document?: PaperDocument; // Present when the job was converted in structured mode
   error?: string;
+  retryCount?: number; // Automatic retries made by the job queue for the current run
+  sanitizerReport?: string[]; // What the HTML sanitizer stripped from the model output
+  fidelity?: FidelityResult; // Visual comparison of the rendered HTML against the source image
+  promptVersion?: PromptVersion;
+  variants?: PaperVariant[]; // Remixed sets (Set A, B, ...), kept next to the original resultHtml
+  usage?: JobUsage;
+  cachedTasks?: string[]; // AI tasks whose latest result for this job came from the local result cache
+}
+
+export type RemixDifficulty = 'easier' | 'same' | 'harder';
+
+// How one remixed set of the whole paper is generated
+export interface RemixSet {
+  label: string; // "A", "B", ...
+  difficulty: RemixDifficulty;
+  seed?: number;
+}
+
+// One page of a remixed set
+export interface PaperVariant extends RemixSet {
+  status: JobStatus;
+  resultHtml?: string;
+  solutionHtml?: string;
+  markingSchemeHtml?: string;
+  translatedHtml?: string;
+  translationLanguage?: string;
+  document?: PaperDocument;
+  error?: string;
+  promptVersion?: PromptVersion;
+  verification?: VerificationReport; // Local recomputation of the remixed numbers
+}
+
+export interface VerificationCheck {
+  question: string;
+  description: string;
+  kind: 'expression' | 'ledger';
+  passed: boolean;
+  detail: string; // What was computed, or why it does not add up
+}
+
+export interface VerificationReport {
+  checks: VerificationCheck[];
+  failed: number;
+}
+
+export interface FidelityResult {
+  score: number; // 0-100
+  heatmapUrl: string; // PNG data URL of the source page with differences overlaid in red
+}
+
+// How a page is converted: a free-form HTML replica, or a typed question model rendered to HTML
+export type ExtractionMode = 'html' | 'structured';
+
+export interface QuestionOption {
+  label: string; // e.g. "a", "b", "c", "d"
+  text: string;
+}
+
+export interface QuestionTable {
+  caption?: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface QuestionFigure {
+  description: string;
+  box?: number[]; // [ymin, xmin, ymax, xmax] normalised to 0-1000 on the source page
+  src?: string; // Cropped image as a data URL
+}
+
+export interface QuestionSubPart {
+  label: string; // e.g. "i", "ii", "a"
+  text: string;
+  marks?: number;
+  options?: QuestionOption[];
+}
+
+export interface PaperQuestion {
+  id: string;
+  number: string; // As printed, e.g. "1", "2(a)", "Q5"
+  text: string;
+  marks?: number;
+  options?: QuestionOption[];
+  subParts?: QuestionSubPart[];
+  tables?: QuestionTable[];
+  figures?: QuestionFigure[];
+}
+
+export interface PaperSection {
+  title?: string;
+  instructions?: string;
+  questions: PaperQuestion[];
+}
+
+export interface PaperDocument {
+  title?: string;
+  instructions?: string[];
+  sections: PaperSection[];
 }
 
 export interface GenerationConfig {
   apiKey: string;
-}
\ No newline at end of file
+}
+// Which prompt library variant (and which saved revision of it) produced a job's HTML
+export interface PromptVersion {
+  variantId: string;
+  name: string;
+  version: number;
+}
+
+// Accumulated token usage and estimated cost of all AI calls made for a job (including its sets)
+export interface JobUsage {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  cost: number; // USD; calls to models without a known price count as 0
+}
+
+export type BankDifficulty = 'easy' | 'medium' | 'hard';
+
+// A question saved to the local question bank (IndexedDB), tagged for search and paper assembly
+export interface BankQuestion {
+  id: string;
+  question: PaperQuestion; // `question.marks` is the marks tag
+  subject: string;
+  chapter: string; // e.g. "3" or "Ch 3 Depreciation"; a leading number is used for chapter ranges
+  difficulty: BankDifficulty;
+  answer?: string; // Correct MCQ option label, from the solution's answer-key marker
+  solutionHtml?: string; // This question's block of the generated solution
+  source: string; // File the question was digitized from
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A paper assembled from the question bank; its questions are skipped when assembling later papers
+export interface IssuedPaper {
+  id: string;
+  title: string;
+  issuedAt: number;
+  questionIds: string[]; // BankQuestion ids
+}
@@ -0,0 +1,98 @@
+/**
+ * Machine-readable MCQ answers. The solution prompt asks the model to end every MCQ answer with
+ * `<p class="answer-key" data-question="3" data-answer="b">`, which survives sanitizing and lets
+ * shuffled sets, quizzes and LMS exports find the correct option without parsing prose.
+ */
+
+// "Q3", "3.", " 3 " -> "3"; sub-question numbers like "2(a)" are kept as they are
+export const normalizeQuestionNumber = (number: string): string =>
+  number.trim().replace(/^q(uestion)?\.?\s*/i, '').replace(/[.:]$/, '').trim().toLowerCase();
+
+// "(B)", "b.", "B)" -> "b"
+export const normalizeOptionLabel = (label: string): string =>
+  label.trim().replace(/^\(/, '').replace(/[.):]$/, '').trim().toLowerCase();
+
+/** Correct option labels by normalized question number, read from the answer-key markers of a solution. */
+export const parseAnswerKey = (solutionHtml?: string): Map<string, string> => {
+  const answers = new Map<string, string>();
+  if (!solutionHtml) return answers;
+  const doc = new DOMParser().parseFromString(solutionHtml, 'text/html');
+  doc.querySelectorAll('.answer-key[data-question][data-answer]').forEach(el => {
+    const question = normalizeQuestionNumber(el.getAttribute('data-question') || '');
+    const answer = normalizeOptionLabel(el.getAttribute('data-answer') || '');
+    if (question && answer) answers.set(question, answer);
+  });
+  return answers;
+};
+
+export interface AnswerKeyRow {
+  question: string; // As printed
+  answer?: string; // Option label as printed; undefined when the solution has no marker for it
+}
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Compact grid of "Q: answer" cells, five per row, the way printed answer keys look
+export const renderAnswerKeyTable = (rows: AnswerKeyRow[]): string => {
+  const cells = rows.map(r => `<td style="border: 1px solid #000; padding: 4px 8px; width: 20%;"><strong>${escapeHtml(r.question)}.</strong> ${r.answer ? `(${escapeHtml(r.answer)})` : '&mdash;'}</td>`);
+  const lines: string[] = [];
+  for (let i = 0; i < cells.length; i += 5) {
+    lines.push(`<tr>${cells.slice(i, i + 5).join('')}</tr>`);
+  }
+  return `<table style="width: 100%; border-collapse: collapse; font-size: 14px;">${lines.join('')}</table>`;
+};
+
+const findSolutionBlocks = (doc: Document, numbers: string[]): (Element | undefined)[] => {
+  const blocks = Array.from(doc.querySelectorAll('.solution-block'));
+  const byNumber = new Map<string, Element>();
+  blocks.forEach(block => {
+    const marker = block.querySelector('.answer-key[data-question]');
+    if (marker) byNumber.set(normalizeQuestionNumber(marker.getAttribute('data-question') || ''), block);
+  });
+  return numbers.map((number, i) =>
+    byNumber.get(normalizeQuestionNumber(number)) ?? (blocks.length === numbers.length ? blocks[i] : undefined)
+  );
+};
+
+/**
+ * The solution block of each question, by position in `numbers`. Blocks with an answer-key marker
+ * are matched by question number; the rest are paired by order when the counts line up.
+ */
+export const matchSolutionBlocks = (solutionHtml: string | undefined, numbers: string[]): (string | undefined)[] => {
+  if (!solutionHtml) return numbers.map(() => undefined);
+  const doc = new DOMParser().parseFromString(solutionHtml, 'text/html');
+  return findSolutionBlocks(doc, numbers).map(block => block?.outerHTML);
+};
+
+// The worked steps of a solution block, without the repeated question box at its top
+export const getSolutionSteps = (blockHtml?: string): string | undefined => {
+  if (!blockHtml) return undefined;
+  const doc = new DOMParser().parseFromString(blockHtml, 'text/html');
+  const block = doc.querySelector('.solution-block') || doc.body;
+  if (block.children.length > 1) block.children[0].remove();
+  return block.innerHTML.trim() || undefined;
+};
+
+// Removes the solution blocks of the questions at `dropped` (positions in `numbers`)
+export const removeSolutionBlocks = (solutionHtml: string, numbers: string[], dropped: Set<number>): string => {
+  const doc = new DOMParser().parseFromString(solutionHtml, 'text/html');
+  findSolutionBlocks(doc, numbers).forEach((block, i) => {
+    if (block && dropped.has(i)) block.remove();
+  });
+  return doc.body.innerHTML;
+};
+
+// Moves the answer-key markers of a solution to new question numbers, e.g. after renumbering or assembling a paper.
+// `numbers` maps old printed numbers to new ones; sub-question markers like "3(a)" follow their question.
+export const renumberAnswerKeys = (solutionHtml: string, numbers: Map<string, string>): string => {
+  const renumbered = new Map(Array.from(numbers, ([from, to]) => [normalizeQuestionNumber(from), to]));
+  const doc = new DOMParser().parseFromString(solutionHtml, 'text/html');
+  doc.querySelectorAll('.answer-key[data-question]').forEach(el => {
+    const question = normalizeQuestionNumber(el.getAttribute('data-question') || '');
+    const part = question.match(/^(.+?)(\s*\(.*)$/);
+    const number = renumbered.get(question) ?? (part && renumbered.has(part[1]) ? `${renumbered.get(part[1])}${part[2]}` : undefined);
+    if (number !== undefined) el.setAttribute('data-question', number);
+  });
+  return doc.body.innerHTML;
+};
@@ -0,0 +1,76 @@
+export type BilingualLayout = 'interleave' | 'columns';
+
+// Which language(s) the exported paper is printed in
+export type PaperLanguageOutput = 'original' | 'translated' | BilingualLayout;
+
+export interface TranslationSettings {
+  language: string; // Target language name, passed to the model as-is
+  output: PaperLanguageOutput;
+}
+
+export const DEFAULT_TRANSLATION_SETTINGS: TranslationSettings = {
+  language: 'Hindi',
+  output: 'original',
+};
+
+export const TRANSLATION_LANGUAGES = ['Hindi', 'Marathi', 'Gujarati', 'Bengali', 'Punjabi', 'Tamil', 'Telugu', 'Kannada', 'Malayalam', 'Odia', 'Urdu', 'English'];
+
+// Only plain containers are unwrapped when looking for the question blocks of a page
+const CONTAINER_TAGS = new Set(['DIV', 'SECTION', 'ARTICLE', 'MAIN']);
+
+/**
+ * Splits a page into blocks that can be paired with the same blocks of its translation.
+ * Structured pages are split per question (`data-question-id`), free-form pages at the
+ * children of the outermost wrapper.
+ */
+const getBlocks = (html: string): { wrapperStyle: string; blocks: string[] } => {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  let root: Element = doc.body;
+  let wrapperStyle = '';
+  while (root.children.length === 1 && CONTAINER_TAGS.has(root.children[0].tagName) && root.children[0].children.length > 0) {
+    root = root.children[0];
+    wrapperStyle = root.getAttribute('style') || wrapperStyle;
+  }
+
+  const blocks: string[] = [];
+  const collect = (el: Element) => {
+    for (const child of Array.from(el.children)) {
+      if (!child.matches('[data-question-id]') && child.querySelector('[data-question-id]')) {
+        collect(child);
+      } else {
+        blocks.push(child.outerHTML);
+      }
+    }
+  };
+  collect(root);
+  return { wrapperStyle, blocks };
+};
+
+const TRANSLATED_STYLE = 'color: #374151; margin: 4px 0 14px 0; padding-left: 10px; border-left: 3px solid #d1d5db;';
+const CELL_STYLE = 'width: 50%; vertical-align: top; padding: 4px 8px;';
+
+/**
+ * Combines a page with its translation: each block followed by its translation ("interleave"),
+ * or both languages side by side in a two-column table ("columns"). Tables rather than flexbox,
+ * so Word and the PDF renderer keep the columns.
+ * When the translation does not have the same block structure, the whole page is paired instead.
+ */
+export const buildBilingualHtml = (originalHtml: string, translatedHtml: string, layout: BilingualLayout): string => {
+  const original = getBlocks(originalHtml);
+  const translated = getBlocks(translatedHtml);
+  const aligned = original.blocks.length > 0 && original.blocks.length === translated.blocks.length;
+  const pairs: [string, string][] = aligned
+    ? original.blocks.map((block, i) => [block, translated.blocks[i]])
+    : [[originalHtml, translatedHtml]];
+
+  const body = layout === 'columns'
+    ? `<table style="width: 100%; border-collapse: collapse; table-layout: fixed;">${pairs.map(([a, b]) => `
+      <tr>
+        <td style="${CELL_STYLE} border-right: 1px solid #d1d5db;">${a}</td>
+        <td style="${CELL_STYLE}">${b}</td>
+      </tr>`).join('')}
+    </table>`
+    : pairs.map(([a, b]) => `${a}<div class="translated-block" style="${TRANSLATED_STYLE}">${b}</div>`).join('');
+
+  return `<div class="bilingual-page" style="${aligned ? original.wrapperStyle : ''}">${body}</div>`;
+};
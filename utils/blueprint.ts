@@ -0,0 +1,113 @@
+import { BankDifficulty, BankQuestion, PaperDocument } from '../types';
+import { isMcq } from '../services/questionBank';
+import { renumberAnswerKeys } from './answerKey';
+import { createRng, shuffleArray } from './shuffle';
+
+export interface BlueprintSection {
+  id: string;
+  title: string; // e.g. "Section A"
+  count: number;
+  marks: number; // Per question; only bank questions with these marks are picked
+  type: 'mcq' | 'descriptive' | ''; // '' accepts both
+  chapterFrom?: number; // Inclusive chapter range, matched against the leading number of the chapter tag
+  chapterTo?: number;
+  difficulty: BankDifficulty | '';
+}
+
+export interface Blueprint {
+  title: string;
+  subject: string; // '' picks from every subject
+  sections: BlueprintSection[];
+}
+
+export const createBlueprintSection = (index: number): BlueprintSection => ({
+  id: `bs-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`,
+  title: `Section ${String.fromCharCode(65 + index)}`,
+  count: 5,
+  marks: 1,
+  type: '',
+  difficulty: '',
+});
+
+export const DEFAULT_BLUEPRINT: Blueprint = {
+  title: '',
+  subject: '',
+  sections: [
+    { ...createBlueprintSection(0), count: 10, marks: 1, type: 'mcq' },
+    { ...createBlueprintSection(1), count: 4, marks: 5, type: 'descriptive' },
+  ],
+};
+
+export const getBlueprintTotal = (blueprint: Blueprint): number =>
+  blueprint.sections.reduce((sum, s) => sum + s.count * s.marks, 0);
+
+// "3", "Ch 3", "Chapter 3: Depreciation" -> 3
+export const getChapterNumber = (chapter: string): number | undefined => {
+  const match = chapter.match(/\d+/);
+  return match ? parseInt(match[0], 10) : undefined;
+};
+
+const matchesSection = (question: BankQuestion, section: BlueprintSection, subject: string): boolean => {
+  if (subject && question.subject !== subject) return false;
+  if (question.question.marks !== section.marks) return false;
+  if (section.type && (section.type === 'mcq') !== isMcq(question.question)) return false;
+  if (section.difficulty && question.difficulty !== section.difficulty) return false;
+  if (section.chapterFrom !== undefined || section.chapterTo !== undefined) {
+    const chapter = getChapterNumber(question.chapter);
+    if (chapter === undefined) return false;
+    if (section.chapterFrom !== undefined && chapter < section.chapterFrom) return false;
+    if (section.chapterTo !== undefined && chapter > section.chapterTo) return false;
+  }
+  return true;
+};
+
+export interface SectionPick {
+  section: BlueprintSection;
+  questions: BankQuestion[];
+  available: number; // Matching questions, after excluding issued ones
+}
+
+export interface AssembledPaper {
+  document: PaperDocument;
+  solutionHtml?: string; // Solutions of the picked questions, when the bank has them
+  picks: SectionPick[];
+  questionIds: string[];
+}
+
+/**
+ * Picks questions for every section at random (reproducibly for a seed). A question is used at most
+ * once per paper, and questions in `excludeIds` (e.g. from issued papers) are never picked. Sections
+ * without enough matching questions get as many as there are; check `picks` for shortfalls.
+ */
+export const assemblePaper = (bank: BankQuestion[], blueprint: Blueprint, excludeIds: Set<string>, seed: number): AssembledPaper => {
+  const rng = createRng(seed);
+  const used = new Set(excludeIds);
+  const picks: SectionPick[] = blueprint.sections.map(section => {
+    const candidates = bank.filter(q => !used.has(q.id) && matchesSection(q, section, blueprint.subject));
+    const questions = shuffleArray(candidates, rng).slice(0, section.count);
+    questions.forEach(q => used.add(q.id));
+    return { section, questions, available: candidates.length };
+  });
+
+  let next = 1;
+  const solutions: string[] = [];
+  const document: PaperDocument = {
+    title: blueprint.title || undefined,
+    sections: picks.map(({ section, questions }) => ({
+      title: section.title ? `${section.title} (${questions.length} × ${section.marks} = ${questions.length * section.marks} Marks)` : undefined,
+      questions: questions.map(q => {
+        const number = String(next++);
+        if (q.solutionHtml) solutions.push(renumberAnswerKeys(q.solutionHtml, new Map([[q.question.number, number]])));
+        // The bank id keeps question ids unique across papers scanned from different pages
+        return { ...q.question, id: q.id, number, marks: section.marks };
+      }),
+    })),
+  };
+
+  return {
+    document,
+    solutionHtml: solutions.length > 0 ? solutions.join('\n') : undefined,
+    picks,
+    questionIds: picks.flatMap(p => p.questions.map(q => q.id)),
+  };
+};
@@ -0,0 +1,700 @@
+import { createZip, dataUrlToBytes, ZipEntry } from './zip';
+
+/**
+ * Word .docx (Office Open XML) writer that runs in the browser. Print HTML is mapped to paragraphs,
+ * runs, bordered tables, page breaks, images and editable equations (from MathML). Inline styles are
+ * read; of the Tailwind classes only the ones that affect text are.
+ */
+
+export interface DocxOptions {
+  bodyHtml: string;
+  firstPageHeaderHtml?: string; // Word header of the first page only, e.g. the exam header
+  headerHtml?: string; // Word header of the other pages
+  fontFamily?: string; // CSS font-family; the first family becomes the document font
+  pageNumbers?: boolean; // "Page X of Y" footer
+}
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const NAMESPACES = [
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"',
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"',
+  'xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math"',
+].join(' ');
+const RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/';
+const CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml';
+
+// A4 in twips (1/20 pt) with 1.5 cm margins
+const PAGE_WIDTH = 11906;
+const PAGE_HEIGHT = 16838;
+const PAGE_MARGIN = 851;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * PAGE_MARGIN;
+const CONTENT_HEIGHT = PAGE_HEIGHT - 2 * PAGE_MARGIN;
+const EMU_PER_POINT = 12700;
+const DEFAULT_SIZE = 22; // Half-points
+
+// Formats Word can embed; others (WebP, SVG) fall back to their alt text
+const IMAGE_TYPES: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', gif: 'image/gif', bmp: 'image/bmp' };
+
+interface TextStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  size?: number; // Half-points
+  color?: string; // RRGGBB
+  font?: string;
+  vertAlign?: 'superscript' | 'subscript';
+  shading?: string;
+}
+
+interface BlockStyle {
+  align?: string;
+  shading?: string;
+  borders?: string;
+  indent?: number; // Twips
+  keep?: boolean; // page-break-inside: avoid
+  preformatted?: boolean;
+}
+
+// Shared by all parts: media files and drawing ids are unique in the package
+interface Package {
+  media: ZipEntry[];
+  drawingId: number;
+}
+
+// One XML part (document, header or footer) and its relationships
+interface Part {
+  pkg: Package;
+  rels: { id: string; type: string; target: string }[];
+}
+
+interface Writer {
+  part: Part;
+  blocks: string[]; // Finished paragraphs and tables
+  runs: string[]; // Runs of the paragraph being built
+  floats: string[]; // Runs floated right, e.g. marks; they end the next paragraph after a right tab
+  block: BlockStyle;
+  list?: { ordered: boolean; type: string; index: number };
+  trim: boolean; // At the start of a line, where leading whitespace is dropped
+  pageBreak: boolean; // The next paragraph or table starts a new page
+}
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const addRel = (part: Part, type: string, target: string): string => {
+  const id = `rId${part.rels.length + 1}`;
+  part.rels.push({ id, type, target });
+  return id;
+};
+
+/* ---------- CSS ---------- */
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '000000', white: 'FFFFFF', red: 'FF0000', green: '008000', blue: '0000FF', gray: '808080', grey: '808080',
+  navy: '000080', maroon: '800000', orange: 'FFA500', yellow: 'FFFF00', purple: '800080', silver: 'C0C0C0', darkblue: '00008B',
+};
+
+const toHexColor = (value: string): string | undefined => {
+  const color = value.trim().toLowerCase();
+  if (NAMED_COLORS[color]) return NAMED_COLORS[color];
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) return (hex[1].length === 3 ? hex[1].replace(/./g, '$&$&') : hex[1]).toUpperCase();
+  const rgb = color.match(/^rgba?\(\s*(\d+)[,\s]+(\d+)[,\s]+(\d+)(?:[,\s/]+([\d.]+%?))?/);
+  if (!rgb || (rgb[4] !== undefined && parseFloat(rgb[4]) === 0)) return undefined; // Transparent
+  return [rgb[1], rgb[2], rgb[3]].map(c => Math.min(255, Number(c)).toString(16).padStart(2, '0')).join('').toUpperCase();
+};
+
+const FONT_SIZE_KEYWORDS: Record<string, number> = { 'xx-small': 7, 'x-small': 7.5, small: 10, medium: 12, large: 13.5, 'x-large': 18, 'xx-large': 24 };
+
+// CSS length in points; `base` (pt) resolves em and %
+const toPoints = (value: string, base: number): number | undefined => {
+  const length = value.trim().match(/^(-?[\d.]+)(px|pt|em|rem|%|mm|cm|in)?$/);
+  if (!length) return FONT_SIZE_KEYWORDS[value.trim()];
+  const n = parseFloat(length[1]);
+  switch (length[2]) {
+    case 'pt': return n;
+    case 'em': return n * base;
+    case 'rem': return n * 12;
+    case '%': return (n * base) / 100;
+    case 'mm': return (n * 72) / 25.4;
+    case 'cm': return (n * 72) / 2.54;
+    case 'in': return n * 72;
+    default: return n * 0.75; // px, and unitless HTML attributes
+  }
+};
+
+const GENERIC_FONTS: Record<string, string> = { serif: 'Times New Roman', 'sans-serif': 'Arial', monospace: 'Courier New' };
+
+const firstFont = (fontFamily: string): string => {
+  const font = fontFamily.split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+  return GENERIC_FONTS[font] || font;
+};
+
+// The Tailwind classes that carry meaning in print
+const CLASS_TEXT: Record<string, TextStyle> = {
+  'font-bold': { bold: true }, 'font-semibold': { bold: true }, 'italic': { italic: true }, 'underline': { underline: true },
+  'line-through': { strike: true }, 'text-xs': { size: 18 }, 'text-sm': { size: 21 }, 'text-base': { size: 24 },
+  'text-lg': { size: 27 }, 'text-xl': { size: 30 }, 'text-2xl': { size: 36 },
+};
+const CLASS_ALIGN: Record<string, string> = { 'text-left': 'left', 'text-center': 'center', 'text-right': 'right', 'text-justify': 'both' };
+const CSS_ALIGN: Record<string, string> = { left: 'left', start: 'left', center: 'center', right: 'right', end: 'right', justify: 'both' };
+
+const HEADING_SIZES: Record<string, number> = { h1: 32, h2: 28, h3: 26, h4: 24, h5: 22, h6: 20 };
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'blockquote', 'pre', 'section', 'article', 'header',
+  'footer', 'main', 'aside', 'nav', 'figure', 'figcaption', 'center', 'address', 'dl', 'dt', 'dd', 'caption', 'form', 'fieldset',
+]);
+const SKIPPED_TAGS = new Set(['script', 'style', 'head', 'title', 'meta', 'link', 'template', 'noscript', 'button', 'input', 'select', 'textarea']);
+
+const BORDER_SIDES = ['top', 'left', 'bottom', 'right'] as const;
+
+// OOXML border elements (<w:top>, <w:left>, ...) for the CSS borders of an element; tables take no text spacing
+const getBorders = (style: CSSStyleDeclaration, paragraph: boolean = true): string => BORDER_SIDES.map(side => {
+  const kind = style.getPropertyValue(`border-${side}-style`);
+  if (!kind || kind === 'none' || kind === 'hidden') return '';
+  const width = toPoints(style.getPropertyValue(`border-${side}-width`), 12) ?? 2.25; // "medium"
+  if (width <= 0) return '';
+  const color = toHexColor(style.getPropertyValue(`border-${side}-color`)) || '000000';
+  const val = kind === 'dashed' || kind === 'dotted' || kind === 'double' ? kind : 'single';
+  const size = Math.min(96, Math.max(2, Math.round(width * 8))); // Eighths of a point
+  return `<w:${side} w:val="${val}" w:sz="${size}" w:space="${!paragraph ? 0 : side === 'top' || side === 'bottom' ? 1 : 4}" w:color="${color}"/>`;
+}).join('');
+
+const SINGLE_BORDERS = BORDER_SIDES.map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="000000"/>`).join('');
+
+const getTextStyle = (el: HTMLElement, parent: TextStyle, isBlock: boolean): TextStyle => {
+  const tag = el.localName;
+  const style = el.style;
+  const next: TextStyle = { ...parent };
+  if (tag === 'b' || tag === 'strong' || tag === 'th' || tag === 'dt' || HEADING_SIZES[tag]) next.bold = true;
+  if (tag === 'i' || tag === 'em' || tag === 'cite' || tag === 'var' || tag === 'address') next.italic = true;
+  if (tag === 'u' || tag === 'ins') next.underline = true;
+  if (tag === 's' || tag === 'strike' || tag === 'del') next.strike = true;
+  if (tag === 'sup') next.vertAlign = 'superscript';
+  if (tag === 'sub') next.vertAlign = 'subscript';
+  if (tag === 'small') next.size = Math.round((parent.size ?? DEFAULT_SIZE) * 0.83);
+  if (HEADING_SIZES[tag]) next.size = HEADING_SIZES[tag];
+  if (tag === 'code' || tag === 'pre' || tag === 'kbd' || tag === 'tt' || tag === 'samp') next.font = 'Courier New';
+  if (tag === 'a' && el.hasAttribute('href')) {
+    next.underline = true;
+    next.color = '0563C1';
+  }
+  el.classList.forEach(c => Object.assign(next, CLASS_TEXT[c]));
+  if (!style) return next;
+
+  if (style.fontWeight) next.bold = style.fontWeight === 'bold' || style.fontWeight === 'bolder' || Number(style.fontWeight) >= 600;
+  if (style.fontStyle) next.italic = style.fontStyle === 'italic' || style.fontStyle === 'oblique';
+  const decoration = style.textDecorationLine || style.textDecoration;
+  if (decoration) {
+    next.underline = decoration.includes('underline');
+    next.strike = decoration.includes('line-through');
+  }
+  if (style.fontSize) {
+    const points = toPoints(style.fontSize, (parent.size ?? DEFAULT_SIZE) / 2);
+    if (points) next.size = Math.round(points * 2);
+  }
+  if (style.color) next.color = toHexColor(style.color) ?? next.color;
+  if (style.fontFamily) next.font = firstFont(style.fontFamily);
+  if (style.verticalAlign === 'super') next.vertAlign = 'superscript';
+  if (style.verticalAlign === 'sub') next.vertAlign = 'subscript';
+  // Block backgrounds shade the whole paragraph instead
+  if (!isBlock && style.backgroundColor) next.shading = toHexColor(style.backgroundColor) ?? next.shading;
+  return next;
+};
+
+const getBlockStyle = (el: HTMLElement, parent: BlockStyle): BlockStyle => {
+  const style = el.style;
+  const next: BlockStyle = { ...parent };
+  if (el.localName === 'center' || el.localName === 'caption') next.align = 'center';
+  const alignAttribute = el.getAttribute('align');
+  if (alignAttribute && CSS_ALIGN[alignAttribute]) next.align = CSS_ALIGN[alignAttribute];
+  el.classList.forEach(c => { if (CLASS_ALIGN[c]) next.align = CLASS_ALIGN[c]; });
+  if (el.localName === 'pre') next.preformatted = true;
+  if (el.localName === 'blockquote') next.indent = (next.indent || 0) + 567;
+  if (!style) return next;
+
+  if (CSS_ALIGN[style.textAlign]) next.align = CSS_ALIGN[style.textAlign];
+  if (style.backgroundColor) next.shading = toHexColor(style.backgroundColor) ?? next.shading;
+  // Consecutive paragraphs with the same borders are drawn by Word as one box, like the bordered div
+  const borders = getBorders(style);
+  if (borders) next.borders = borders;
+  const indent = (toPoints(style.marginLeft || '0', 12) ?? 0) + (toPoints(style.paddingLeft || '0', 12) ?? 0);
+  if (indent > 0 && !borders) next.indent = (next.indent || 0) + Math.round(indent * 20);
+  if (style.pageBreakInside === 'avoid' || style.breakInside === 'avoid') next.keep = true;
+  return next;
+};
+
+const breaksBefore = (el: HTMLElement) =>
+  el.style?.pageBreakBefore === 'always' || el.style?.breakBefore === 'page' || el.classList.contains('page-break-before');
+
+const breaksAfter = (el: HTMLElement) =>
+  el.style?.pageBreakAfter === 'always' || el.style?.breakAfter === 'page' || el.classList.contains('page-break');
+
+/* ---------- Runs and paragraphs ---------- */
+
+const runProperties = (t: TextStyle): string => {
+  const font = t.font && escapeXml(t.font);
+  const properties = [
+    font ? `<w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}" w:eastAsia="${font}"/>` : '',
+    t.bold ? '<w:b/><w:bCs/>' : '',
+    t.italic ? '<w:i/><w:iCs/>' : '',
+    t.strike ? '<w:strike/>' : '',
+    t.color ? `<w:color w:val="${t.color}"/>` : '',
+    t.size ? `<w:sz w:val="${t.size}"/><w:szCs w:val="${t.size}"/>` : '',
+    t.underline ? '<w:u w:val="single"/>' : '',
+    t.shading ? `<w:shd w:val="clear" w:color="auto" w:fill="${t.shading}"/>` : '',
+    t.vertAlign ? `<w:vertAlign w:val="${t.vertAlign}"/>` : '',
+  ].join('');
+  return properties ? `<w:rPr>${properties}</w:rPr>` : '';
+};
+
+const textRun = (text: string, t: TextStyle) => `<w:r>${runProperties(t)}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+
+const PAGE_BREAK_RUN = '<w:r><w:br w:type="page"/></w:r>';
+
+const paragraphProperties = (b: BlockStyle, options: { pageBreak?: boolean; tabs?: boolean; spacing?: string } = {}): string => {
+  const properties = [
+    b.keep ? '<w:keepNext/><w:keepLines/>' : '',
+    options.pageBreak ? '<w:pageBreakBefore/>' : '',
+    b.borders ? `<w:pBdr>${b.borders}</w:pBdr>` : '',
+    b.shading ? `<w:shd w:val="clear" w:color="auto" w:fill="${b.shading}"/>` : '',
+    options.tabs ? `<w:tabs><w:tab w:val="right" w:pos="${CONTENT_WIDTH}"/></w:tabs>` : '',
+    options.spacing || '',
+    b.indent ? `<w:ind w:left="${b.indent}"/>` : '',
+    b.align ? `<w:jc w:val="${b.align}"/>` : '',
+  ].join('');
+  return properties ? `<w:pPr>${properties}</w:pPr>` : '';
+};
+
+const createWriter = (part: Part, block: BlockStyle = {}): Writer =>
+  ({ part, blocks: [], runs: [], floats: [], block, trim: true, pageBreak: false });
+
+const flush = (w: Writer) => {
+  // Floated runs wait for the paragraph they belong to
+  if (w.runs.length === 0) return;
+  const tabs = w.floats.length > 0;
+  const runs = tabs ? [...w.runs, '<w:r><w:tab/></w:r>', ...w.floats] : w.runs;
+  w.blocks.push(`<w:p>${paragraphProperties(w.block, { pageBreak: w.pageBreak, tabs })}${runs.join('')}</w:p>`);
+  w.runs = [];
+  w.floats = [];
+  w.trim = true;
+  w.pageBreak = false;
+};
+
+const finish = (w: Writer) => {
+  flush(w);
+  if (w.floats.length > 0) {
+    w.blocks.push(`<w:p>${paragraphProperties({ ...w.block, align: 'right' })}${w.floats.join('')}</w:p>`);
+    w.floats = [];
+  }
+};
+
+// Table cells, headers and footers must end with a paragraph
+const endWithParagraph = (blocks: string[]): string =>
+  blocks.length === 0 || blocks[blocks.length - 1].endsWith('</w:tbl>') ? `${blocks.join('')}<w:p/>` : blocks.join('');
+
+const addText = (text: string, t: TextStyle, w: Writer) => {
+  if (w.block.preformatted) {
+    text.split('\n').forEach((line, i) => {
+      if (i > 0) w.runs.push('<w:r><w:br/></w:r>');
+      if (line) w.runs.push(textRun(line, t));
+    });
+    return;
+  }
+  // HTML whitespace collapsing; non-breaking spaces are kept
+  let collapsed = text.replace(/[ \t\n\r\f]+/g, ' ');
+  if (w.trim) collapsed = collapsed.replace(/^ /, '');
+  if (!collapsed) return;
+  w.runs.push(textRun(collapsed, t));
+  w.trim = collapsed.endsWith(' ');
+};
+
+/* ---------- Images ---------- */
+
+// Pixel size from the PNG, GIF, BMP or JPEG header
+const getImageSize = (b: Uint8Array): { width: number; height: number } | undefined => {
+  if (b[0] === 0x89 && b[1] === 0x50 && b.length > 24) {
+    return { width: ((b[16] << 24) | (b[17] << 16) | (b[18] << 8) | b[19]) >>> 0, height: ((b[20] << 24) | (b[21] << 16) | (b[22] << 8) | b[23]) >>> 0 };
+  }
+  if (b[0] === 0x47 && b[1] === 0x49 && b.length > 10) return { width: b[6] | (b[7] << 8), height: b[8] | (b[9] << 8) };
+  if (b[0] === 0x42 && b[1] === 0x4D && b.length > 26) {
+    const view = new DataView(b.buffer, b.byteOffset, b.byteLength);
+    return { width: view.getInt32(18, true), height: Math.abs(view.getInt32(22, true)) };
+  }
+  if (b[0] === 0xFF && b[1] === 0xD8) {
+    let i = 2;
+    while (i + 9 < b.length) {
+      if (b[i] !== 0xFF) {
+        i++;
+        continue;
+      }
+      const marker = b[i + 1];
+      // Start-of-frame markers hold the size; C4, C8 and CC are other segments in the same range
+      if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+        return { width: (b[i + 7] << 8) | b[i + 8], height: (b[i + 5] << 8) | b[i + 6] };
+      }
+      i += 2 + ((b[i + 2] << 8) | b[i + 3]);
+    }
+  }
+  return undefined;
+};
+
+// Only data: URL images are embedded, as the export cannot wait for network images
+const imageRun = (img: HTMLElement, part: Part): string => {
+  const src = img.getAttribute('src') || '';
+  const alt = img.getAttribute('alt') || '';
+  const image = src.startsWith('data:') ? dataUrlToBytes(src) : undefined;
+  if (!image || !IMAGE_TYPES[image.extension]) return alt ? textRun(`[${alt}]`, { italic: true }) : '';
+
+  const natural = getImageSize(image.bytes) || { width: 300, height: 200 };
+  let width = toPoints(img.style?.width || img.getAttribute('width') || '', CONTENT_WIDTH / 20);
+  let height = toPoints(img.style?.height || img.getAttribute('height') || '', CONTENT_HEIGHT / 20);
+  if (!width && !height) {
+    width = natural.width * 0.75;
+    height = natural.height * 0.75;
+  } else if (!width) {
+    width = (height! * natural.width) / natural.height;
+  } else if (!height) {
+    height = (width * natural.height) / natural.width;
+  }
+  // Like max-width: 100%, and never taller than most of a page
+  const scale = Math.min(1, CONTENT_WIDTH / 20 / width!, (CONTENT_HEIGHT / 20) * 0.9 / height!);
+  const cx = Math.max(1, Math.round(width! * scale * EMU_PER_POINT));
+  const cy = Math.max(1, Math.round(height! * scale * EMU_PER_POINT));
+
+  const name = `image${part.pkg.media.length + 1}.${image.extension}`;
+  part.pkg.media.push({ name: `word/media/${name}`, data: image.bytes });
+  const rId = addRel(part, 'image', `media/${name}`);
+  const id = ++part.pkg.drawingId;
+  return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${id}" name="Picture ${id}" descr="${escapeXml(alt)}"/><wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr><a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic><pic:nvPicPr><pic:cNvPr id="${id}" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr><pic:blipFill><a:blip r:embed="${rId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill><pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+};
+
+/* ---------- Equations ---------- */
+
+const mathRun = (text: string, plain = false) =>
+  text ? `<m:r>${plain ? '<m:rPr><m:sty m:val="p"/></m:rPr>' : ''}<m:t xml:space="preserve">${escapeXml(text)}</m:t></m:r>` : '';
+
+// MathML (as rendered by KaTeX) to Office Math, which Word shows as editable equations
+const toOmml = (el: Element): string => {
+  const children = Array.from(el.children);
+  const arg = (i: number) => (children[i] ? toOmml(children[i]) : '');
+  const all = () => children.map(toOmml).join('');
+  const text = (el.textContent || '').trim();
+
+  switch (el.localName) {
+    case 'semantics':
+      return arg(0);
+    case 'annotation':
+    case 'annotation-xml':
+      return '';
+    case 'mi':
+      // Multi-letter identifiers (sin, log) are upright, single letters italic
+      return mathRun(text, text.length > 1 || el.getAttribute('mathvariant') === 'normal');
+    case 'mn':
+    case 'mo':
+      return mathRun(text);
+    case 'mtext':
+    case 'ms':
+      return mathRun(el.textContent || '', true);
+    case 'mspace':
+      return '';
+    case 'mfrac':
+      return `<m:f>${el.getAttribute('linethickness') === '0px' || el.getAttribute('linethickness') === '0' ? '<m:fPr><m:type m:val="noBar"/></m:fPr>' : ''}<m:num>${arg(0)}</m:num><m:den>${arg(1)}</m:den></m:f>`;
+    case 'msqrt':
+      return `<m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/><m:e>${all()}</m:e></m:rad>`;
+    case 'mroot':
+      return `<m:rad><m:deg>${arg(1)}</m:deg><m:e>${arg(0)}</m:e></m:rad>`;
+    case 'msup':
+      return `<m:sSup><m:e>${arg(0)}</m:e><m:sup>${arg(1)}</m:sup></m:sSup>`;
+    case 'msub':
+      return `<m:sSub><m:e>${arg(0)}</m:e><m:sub>${arg(1)}</m:sub></m:sSub>`;
+    case 'msubsup':
+      return `<m:sSubSup><m:e>${arg(0)}</m:e><m:sub>${arg(1)}</m:sub><m:sup>${arg(2)}</m:sup></m:sSubSup>`;
+    case 'mover': {
+      const accent = children[1]?.localName === 'mo' && (children[1].textContent || '').trim();
+      if (el.getAttribute('accent') === 'true' && accent && accent.length === 1) {
+        return `<m:acc><m:accPr><m:chr m:val="${escapeXml(accent)}"/></m:accPr><m:e>${arg(0)}</m:e></m:acc>`;
+      }
+      return `<m:limUpp><m:e>${arg(0)}</m:e><m:lim>${arg(1)}</m:lim></m:limUpp>`;
+    }
+    case 'munder':
+      return `<m:limLow><m:e>${arg(0)}</m:e><m:lim>${arg(1)}</m:lim></m:limLow>`;
+    case 'munderover':
+      return `<m:limUpp><m:e><m:limLow><m:e>${arg(0)}</m:e><m:lim>${arg(1)}</m:lim></m:limLow></m:e><m:lim>${arg(2)}</m:lim></m:limUpp>`;
+    case 'mtable':
+      return `<m:m>${children.map(row => `<m:mr>${Array.from(row.children).map(cell => `<m:e>${toOmml(cell)}</m:e>`).join('')}</m:mr>`).join('')}</m:m>`;
+    case 'mfenced':
+      return `<m:d><m:dPr><m:begChr m:val="${escapeXml(el.getAttribute('open') ?? '(')}"/><m:endChr m:val="${escapeXml(el.getAttribute('close') ?? ')')}"/></m:dPr><m:e>${all()}</m:e></m:d>`;
+    default:
+      // math, mrow, mstyle, mpadded, menclose, mtd, ...
+      return children.length > 0 ? all() : mathRun(text);
+  }
+};
+
+/* ---------- Tables ---------- */
+
+const cellWidth = (value: string): string => {
+  const percent = value.trim().match(/^([\d.]+)%$/);
+  if (percent) return `<w:tcW w:w="${Math.round(parseFloat(percent[1]) * 50)}" w:type="pct"/>`;
+  const points = value ? toPoints(value, 12) : undefined;
+  return points ? `<w:tcW w:w="${Math.round(points * 20)}" w:type="dxa"/>` : '<w:tcW w:w="0" w:type="auto"/>';
+};
+
+const cellXml = (cell: HTMLTableCellElement, text: TextStyle, part: Part, colspan: number, merge?: 'restart' | 'continue', tableBorder?: boolean): string => {
+  const style = cell.style;
+  const borders = (style && getBorders(style, false)) || (tableBorder ? SINGLE_BORDERS : '');
+  const shading = style?.backgroundColor ? toHexColor(style.backgroundColor) : undefined;
+  const vAlign = style?.verticalAlign || cell.getAttribute('valign') || '';
+  const properties = [
+    cellWidth(style?.width || cell.getAttribute('width') || ''),
+    colspan > 1 ? `<w:gridSpan w:val="${colspan}"/>` : '',
+    merge ? `<w:vMerge${merge === 'restart' ? ' w:val="restart"' : ''}/>` : '',
+    borders ? `<w:tcBorders>${borders}</w:tcBorders>` : '',
+    shading ? `<w:shd w:val="clear" w:color="auto" w:fill="${shading}"/>` : '',
+    vAlign === 'middle' || vAlign === 'center' ? '<w:vAlign w:val="center"/>' : vAlign === 'bottom' ? '<w:vAlign w:val="bottom"/>' : '',
+  ].join('');
+
+  const w = createWriter(part, getBlockStyle(cell, cell.localName === 'th' ? { align: 'center' } : {}));
+  w.block = { ...w.block, shading: undefined, borders: undefined, indent: undefined };
+  if (merge !== 'continue') {
+    walkChildren(cell, getTextStyle(cell, text, true), w);
+    finish(w);
+  }
+  return `<w:tc><w:tcPr>${properties}</w:tcPr>${endWithParagraph(w.blocks)}</w:tc>`;
+};
+
+const tableXml = (table: HTMLTableElement, text: TextStyle, part: Part): string => {
+  const style = table.style;
+  const hasBorderAttribute = !!table.getAttribute('border') && table.getAttribute('border') !== '0';
+  const tableBorders = (style && getBorders(style, false)) || (hasBorderAttribute || table.classList.contains('border') ? SINGLE_BORDERS : '');
+  const widthPercent = (style?.width || table.getAttribute('width') || '').match(/^([\d.]+)%$/);
+  const caption = table.caption
+    ? `<w:p>${paragraphProperties({ align: 'center' })}${textRun(table.caption.textContent?.trim() || '', { ...text, bold: true })}</w:p>`
+    : '';
+
+  // Rowspans become vertical merges: the cells below the first are placeholders that continue it
+  const merges: { rows: number; colspan: number; cell: HTMLTableCellElement }[] = [];
+  let columns = 0;
+  const rows = Array.from(table.rows).map(row => {
+    const cells: string[] = [];
+    let column = 0;
+    const continueMerges = () => {
+      while (merges[column]?.rows > 0) {
+        merges[column].rows--;
+        cells.push(cellXml(merges[column].cell, text, part, merges[column].colspan, 'continue', hasBorderAttribute));
+        column += merges[column].colspan;
+      }
+    };
+    Array.from(row.cells).forEach(cell => {
+      continueMerges();
+      const colspan = Math.max(1, cell.colSpan || 1);
+      const rowspan = Math.max(1, cell.rowSpan || 1);
+      if (rowspan > 1) merges[column] = { rows: rowspan - 1, colspan, cell };
+      cells.push(cellXml(cell, text, part, colspan, rowspan > 1 ? 'restart' : undefined, hasBorderAttribute));
+      column += colspan;
+    });
+    continueMerges();
+    columns = Math.max(columns, column);
+    return `<w:tr>${cells.join('')}</w:tr>`;
+  });
+  if (rows.length === 0) return '';
+
+  const gridColumn = Math.floor(CONTENT_WIDTH / Math.max(1, columns));
+  const properties = [
+    widthPercent ? `<w:tblW w:w="${Math.round(parseFloat(widthPercent[1]) * 50)}" w:type="pct"/>` : '<w:tblW w:w="0" w:type="auto"/>',
+    tableBorders ? `<w:tblBorders>${tableBorders}</w:tblBorders>` : '',
+    '<w:tblLayout w:type="autofit"/>',
+    '<w:tblCellMar><w:top w:w="40" w:type="dxa"/><w:left w:w="80" w:type="dxa"/><w:bottom w:w="40" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar>',
+  ].join('');
+  return `${caption}<w:tbl><w:tblPr>${properties}</w:tblPr><w:tblGrid>${Array.from({ length: columns }, () => `<w:gridCol w:w="${gridColumn}"/>`).join('')}</w:tblGrid>${rows.join('')}</w:tbl>`;
+};
+
+/* ---------- HTML walk ---------- */
+
+const ROMAN = [[1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'], [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']] as const;
+
+const listMarker = (type: string, index: number): string => {
+  if (type === 'a' || type === 'A') {
+    const letter = String.fromCharCode(96 + ((index - 1) % 26) + 1);
+    return type === 'A' ? letter.toUpperCase() : letter;
+  }
+  if (type === 'i' || type === 'I') {
+    let n = index;
+    const roman = ROMAN.map(([value, numeral]) => {
+      const count = Math.floor(n / value);
+      n -= count * value;
+      return numeral.repeat(count);
+    }).join('');
+    return type === 'I' ? roman.toUpperCase() : roman;
+  }
+  return String(index);
+};
+
+const walkChildren = (node: Node, text: TextStyle, w: Writer) => {
+  node.childNodes.forEach(child => walk(child, text, w));
+};
+
+const walk = (node: Node, text: TextStyle, w: Writer) => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    addText(node.textContent || '', text, w);
+    return;
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return;
+  const el = node as HTMLElement;
+  const tag = el.localName;
+  if (SKIPPED_TAGS.has(tag) || el.style?.display === 'none') return;
+
+  if (tag === 'math') {
+    const omml = `<m:oMath>${toOmml(el)}</m:oMath>`;
+    if (el.getAttribute('display') === 'block') {
+      flush(w);
+      w.blocks.push(`<w:p>${paragraphProperties({ ...w.block, align: 'center' }, { pageBreak: w.pageBreak })}<m:oMathPara>${omml}</m:oMathPara></w:p>`);
+      w.pageBreak = false;
+    } else {
+      w.runs.push(omml);
+      w.trim = false;
+    }
+    return;
+  }
+  if (tag === 'br') {
+    w.runs.push(breaksBefore(el) || breaksAfter(el) ? PAGE_BREAK_RUN : '<w:r><w:br/></w:r>');
+    w.trim = true;
+    return;
+  }
+  if (tag === 'img') {
+    w.runs.push(imageRun(el, w.part));
+    w.trim = false;
+    return;
+  }
+  if (tag === 'hr') {
+    flush(w);
+    const borders = (el.style && getBorders(el.style)) || '<w:bottom w:val="single" w:sz="6" w:space="1" w:color="000000"/>';
+    w.blocks.push(`<w:p>${paragraphProperties({ borders }, { pageBreak: w.pageBreak, spacing: '<w:spacing w:before="0" w:after="0" w:line="120" w:lineRule="exact"/>' })}</w:p>`);
+    w.pageBreak = false;
+    return;
+  }
+  if (tag === 'table') {
+    flush(w);
+    if (w.pageBreak || breaksBefore(el)) w.blocks.push(`<w:p>${PAGE_BREAK_RUN}</w:p>`);
+    w.pageBreak = false;
+    const table = tableXml(el as HTMLTableElement, text, w.part);
+    if (table) w.blocks.push(table);
+    if (breaksAfter(el)) w.pageBreak = true;
+    return;
+  }
+
+  const isBlock = BLOCK_TAGS.has(tag) || el.style?.display === 'block' || el.style?.display === 'flex';
+  const textStyle = getTextStyle(el, text, isBlock);
+  if (!isBlock) {
+    if (el.style?.cssFloat === 'right') {
+      const { runs, trim } = w;
+      w.runs = [];
+      walkChildren(el, textStyle, w);
+      w.floats.push(...w.runs);
+      w.runs = runs;
+      w.trim = trim;
+    } else {
+      walkChildren(el, textStyle, w);
+    }
+    return;
+  }
+
+  flush(w);
+  if (breaksBefore(el)) w.pageBreak = true;
+  const outer = { block: w.block, list: w.list };
+  w.block = getBlockStyle(el, w.block);
+  if (tag === 'ul' || tag === 'ol') {
+    const start = Number(el.getAttribute('start')) || 1;
+    w.list = { ordered: tag === 'ol', type: el.getAttribute('type') || '1', index: start - 1 };
+    w.block = { ...w.block, indent: (w.block.indent || 0) + 360 };
+  }
+  if (tag === 'li' && outer.list) {
+    const list = outer.list;
+    list.index++;
+    w.runs.push(textRun(list.ordered ? `${listMarker(list.type, list.index)}. ` : '• ', textStyle));
+    w.trim = true;
+  }
+
+  const first = w.blocks.length;
+  walkChildren(el, textStyle, w);
+  flush(w);
+  // Keep a page-break-inside: avoid block together, but not glued to whatever follows it
+  const last = w.blocks.length - 1;
+  if (w.block.keep && !outer.block.keep && last >= first) w.blocks[last] = w.blocks[last].replace('<w:keepNext/>', '');
+  w.block = outer.block;
+  w.list = outer.list;
+  if (breaksAfter(el)) w.pageBreak = true;
+};
+
+const convertHtml = (html: string, part: Part): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const w = createWriter(part);
+  walkChildren(doc.body, {}, w);
+  finish(w);
+  return endWithParagraph(w.blocks);
+};
+
+/* ---------- Package ---------- */
+
+const relationshipsXml = (rels: Part['rels']) =>
+  `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${rels.map(r => `<Relationship Id="${r.id}" Type="${RELATIONSHIP_TYPE}${r.type}" Target="${r.target}"/>`).join('')}</Relationships>`;
+
+const stylesXml = (font: string) => {
+  const name = escapeXml(font);
+  return `${XML_DECLARATION}<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="${name}" w:hAnsi="${name}" w:cs="${name}" w:eastAsia="${name}"/><w:sz w:val="${DEFAULT_SIZE}"/><w:szCs w:val="${DEFAULT_SIZE}"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="80" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style><w:style w:type="table" w:default="1" w:styleId="TableNormal"><w:name w:val="Normal Table"/><w:uiPriority w:val="99"/><w:semiHidden/><w:unhideWhenUsed/><w:tblPr><w:tblInd w:w="0" w:type="dxa"/><w:tblCellMar><w:top w:w="0" w:type="dxa"/><w:left w:w="108" w:type="dxa"/><w:bottom w:w="0" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style></w:styles>`;
+};
+
+const PAGE_NUMBER_FOOTER = `<w:p><w:pPr><w:jc w:val="center"/></w:pPr>${textRun('Page ', { size: 18 })}<w:fldSimple w:instr=" PAGE ">${textRun('1', { size: 18 })}</w:fldSimple>${textRun(' of ', { size: 18 })}<w:fldSimple w:instr=" NUMPAGES ">${textRun('1', { size: 18 })}</w:fldSimple></w:p>`;
+
+/** Packages HTML as a Word document; formulas must already be rendered as MathML. */
+export const buildDocx = (options: DocxOptions): Blob => {
+  const pkg: Package = { media: [], drawingId: 0 };
+  const document: Part = { pkg, rels: [] };
+  addRel(document, 'styles', 'styles.xml');
+  const body = convertHtml(options.bodyHtml, document);
+
+  const parts: ZipEntry[] = [];
+  const overrides: string[] = [];
+  const references: string[] = [];
+  const addPart = (kind: 'header' | 'footer', types: string[], content: (part: Part) => string) => {
+    const part: Part = { pkg, rels: [] };
+    const name = `${kind}${parts.filter(p => p.name.startsWith(`word/${kind}`)).length + 1}.xml`;
+    const root = kind === 'header' ? 'w:hdr' : 'w:ftr';
+    parts.push({ name: `word/${name}`, data: `${XML_DECLARATION}<${root} ${NAMESPACES}>${content(part)}</${root}>` });
+    if (part.rels.length > 0) parts.push({ name: `word/_rels/${name}.rels`, data: relationshipsXml(part.rels) });
+    overrides.push(`<Override PartName="/word/${name}" ContentType="${CONTENT_TYPE}.${kind}+xml"/>`);
+    const id = addRel(document, kind, name);
+    types.forEach(type => references.push(`<w:${kind}Reference w:type="${type}" r:id="${id}"/>`));
+  };
+
+  const titlePage = !!options.firstPageHeaderHtml;
+  if (options.headerHtml) addPart('header', ['default'], part => convertHtml(options.headerHtml!, part));
+  if (options.firstPageHeaderHtml) addPart('header', ['first'], part => convertHtml(options.firstPageHeaderHtml!, part));
+  if (options.pageNumbers) addPart('footer', titlePage ? ['default', 'first'] : ['default'], () => PAGE_NUMBER_FOOTER);
+
+  const section = `<w:sectPr>${references.join('')}<w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/><w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="425" w:footer="425" w:gutter="0"/>${titlePage ? '<w:titlePg/>' : ''}</w:sectPr>`;
+  const extensions = Array.from(new Set(pkg.media.map(m => m.name.split('.').pop()!)));
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data: `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/>${extensions.map(ext => `<Default Extension="${ext}" ContentType="${IMAGE_TYPES[ext]}"/>`).join('')}<Override PartName="/word/document.xml" ContentType="${CONTENT_TYPE}.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="${CONTENT_TYPE}.styles+xml"/>${overrides.join('')}</Types>`,
+    },
+    {
+      name: '_rels/.rels',
+      data: `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${RELATIONSHIP_TYPE}officeDocument" Target="word/document.xml"/></Relationships>`,
+    },
+    { name: 'word/document.xml', data: `${XML_DECLARATION}<w:document ${NAMESPACES}><w:body>${body}${section}</w:body></w:document>` },
+    { name: 'word/styles.xml', data: stylesXml(options.fontFamily ? firstFont(options.fontFamily) : 'Arial') },
+    { name: 'word/_rels/document.xml.rels', data: relationshipsXml(document.rels) },
+    ...parts,
+    ...pkg.media,
+  ], `${CONTENT_TYPE}.document`);
+};
@@ -0,0 +1,102 @@
+import { PaperQuestion } from '../types';
+
+/**
+ * Local near-duplicate detection. Questions are reduced to normalized word shingles (runs of three
+ * words) and compared by Jaccard similarity, so reworded copies ("Find the value of x" / "Find the
+ * value of x if ...") still overlap while unrelated questions share almost nothing.
+ */
+
+const SHINGLE_SIZE = 3;
+
+// Text, options and sub-parts, without markup, case, punctuation or extra whitespace
+export const normalizeQuestionText = (question: PaperQuestion): string =>
+  [
+    question.text,
+    ...(question.options || []).map(o => o.text),
+    ...(question.subParts || []).map(p => p.text),
+  ]
+    .join(' ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&[a-z]+;/gi, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+export const getShingles = (text: string): Set<string> => {
+  const words = text.split(' ').filter(Boolean);
+  if (words.length <= SHINGLE_SIZE) return new Set(words.length > 0 ? [words.join(' ')] : []);
+  const shingles = new Set<string>();
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    shingles.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return shingles;
+};
+
+export const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(s => { if (b.has(s)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+export interface DuplicateCandidate {
+  jobId: string;
+  questionId: string;
+  number: string; // As printed
+  source: string; // File name of the page
+  question: PaperQuestion;
+}
+
+export interface DuplicateCluster {
+  id: string; // Stable while the cluster's first member stays the same
+  members: DuplicateCandidate[];
+  similarity: number; // Highest pairwise similarity within the cluster, 0-1
+}
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.5;
+
+/**
+ * Groups candidates whose similarity reaches `threshold` (transitively, so A~B and B~C form one
+ * cluster). Only clusters with two or more members are returned, in page order.
+ */
+export const findDuplicateClusters = (candidates: DuplicateCandidate[], threshold: number): DuplicateCluster[] => {
+  const shingles = candidates.map(c => getShingles(normalizeQuestionText(c.question)));
+  const parent = candidates.map((_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+  const best = new Map<number, number>();
+
+  // Shingles shared with earlier questions point at the only pairs worth comparing
+  const index = new Map<string, number[]>();
+  shingles.forEach((set, i) => {
+    const compared = new Set<number>();
+    set.forEach(shingle => {
+      const earlier = index.get(shingle);
+      earlier?.forEach(j => {
+        if (compared.has(j)) return;
+        compared.add(j);
+        const similarity = jaccard(set, shingles[j]);
+        if (similarity < threshold) return;
+        const [a, b] = [find(i), find(j)];
+        const root = Math.min(a, b);
+        parent[Math.max(a, b)] = root;
+        best.set(root, Math.max(similarity, best.get(a) ?? 0, best.get(b) ?? 0));
+      });
+      if (earlier) earlier.push(i); else index.set(shingle, [i]);
+    });
+  });
+
+  const groups = new Map<number, DuplicateCandidate[]>();
+  candidates.forEach((candidate, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), candidate]);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({
+      id: `${members[0].jobId}:${members[0].questionId}`,
+      members,
+      similarity: best.get(root) ?? 1,
+    }));
+};
@@ -0,0 +1,176 @@
+import { createImage } from './canvasUtils';
+import { renderMathInHtml } from './mathUtils';
+import { cleanHtml } from './sanitizeHtml';
+import { FidelityResult } from '../types';
+
+export interface FidelitySettings {
+  enabled: boolean;
+  threshold: number; // 0-100. Pages scoring below this are flagged for review
+  autoRetry: boolean; // Re-run the conversion once when a page scores below the threshold
+}
+
+export const DEFAULT_FIDELITY_SETTINGS: FidelitySettings = {
+  enabled: true,
+  threshold: 60,
+  autoRetry: false,
+};
+
+// Both pages are compared on a coarse grid; fine detail is dominated by font differences anyway
+const GRID_WIDTH = 96;
+// Pixels darker than this count as "ink" when finding the content bounding box
+const INK_THRESHOLD = 0.15;
+const HEATMAP_WIDTH = 480;
+
+/**
+ * Rasterizes HTML with the same html2canvas pipeline the PDF export uses, so the score
+ * reflects what the user will actually get.
+ */
+const rasterizeHtml = async (html: string): Promise<HTMLCanvasElement> => {
+  // @ts-ignore
+  if (!window.html2pdf) {
+    throw new Error("PDF Generator is loading. Please try again in 3 seconds.");
+  }
+  const element = document.createElement('div');
+  element.style.width = '210mm';
+  element.style.backgroundColor = 'white';
+  element.innerHTML = renderMathInHtml(cleanHtml(html), 'html');
+
+  // @ts-ignore
+  return window.html2pdf()
+    .set({ margin: 0, html2canvas: { scale: 1, useCORS: true }, jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' } })
+    .from(element)
+    .toCanvas()
+    .get('canvas');
+};
+
+// Ink density (0 = white, 1 = black) for every pixel of a canvas
+const toInk = (source: CanvasImageSource, width: number, height: number): Float32Array => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(source, 0, 0, width, height);
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const ink = new Float32Array(width * height);
+  for (let i = 0; i < ink.length; i++) {
+    const luminance = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+    ink[i] = 1 - luminance;
+  }
+  return ink;
+};
+
+interface Box { x: number; y: number; width: number; height: number; }
+
+/**
+ * Finds the bounding box of the content, so that differing page margins and
+ * scan borders don't count as differences.
+ */
+const findContentBox = (source: CanvasImageSource, width: number, height: number): Box => {
+  // Work on a small copy; the exact box doesn't need full resolution
+  const scale = Math.min(1, 400 / width);
+  const w = Math.max(1, Math.round(width * scale));
+  const h = Math.max(1, Math.round(height * scale));
+  const ink = toInk(source, w, h);
+
+  let minX = w, minY = h, maxX = -1, maxY = -1;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (ink[y * w + x] > INK_THRESHOLD) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  if (maxX < 0) return { x: 0, y: 0, width, height };
+
+  return {
+    x: minX / scale,
+    y: minY / scale,
+    width: (maxX - minX + 1) / scale,
+    height: (maxY - minY + 1) / scale,
+  };
+};
+
+const cropToGrid = (source: CanvasImageSource, box: Box, gridWidth: number, gridHeight: number): Float32Array => {
+  const canvas = document.createElement('canvas');
+  canvas.width = gridWidth;
+  canvas.height = gridHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, gridWidth, gridHeight);
+  // Downscaling with smoothing acts as a blur, so a line shifted by a few pixels still matches
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, box.x, box.y, box.width, box.height, 0, 0, gridWidth, gridHeight);
+  return toInk(canvas, gridWidth, gridHeight);
+};
+
+const buildHeatmap = async (sourceUrl: string, diff: Float32Array, gridWidth: number, gridHeight: number, sourceBox: Box, sourceWidth: number, sourceHeight: number): Promise<string> => {
+  const image = await createImage(sourceUrl);
+  const scale = HEATMAP_WIDTH / sourceWidth;
+  const canvas = document.createElement('canvas');
+  canvas.width = HEATMAP_WIDTH;
+  canvas.height = Math.round(sourceHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  ctx.globalAlpha = 0.35;
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  ctx.globalAlpha = 1;
+
+  const cellW = (sourceBox.width * scale) / gridWidth;
+  const cellH = (sourceBox.height * scale) / gridHeight;
+  for (let y = 0; y < gridHeight; y++) {
+    for (let x = 0; x < gridWidth; x++) {
+      const d = diff[y * gridWidth + x];
+      if (d < 0.05) continue;
+      ctx.fillStyle = `rgba(220, 38, 38, ${Math.min(1, d * 1.5)})`;
+      ctx.fillRect(sourceBox.x * scale + x * cellW, sourceBox.y * scale + y * cellH, Math.ceil(cellW), Math.ceil(cellH));
+    }
+  }
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Scores how closely the rendered HTML matches the source image.
+ * Both are cropped to their content, resampled to the same grid and compared by ink density:
+ * score = 100 * (1 - Σ|a - b| / Σ(a + b)), so blank areas don't inflate the result.
+ */
+export const checkFidelity = async (sourceUrl: string, html: string): Promise<FidelityResult> => {
+  const [image, rendered] = await Promise.all([createImage(sourceUrl), rasterizeHtml(html)]);
+
+  const sourceBox = findContentBox(image, image.naturalWidth, image.naturalHeight);
+  const renderedBox = findContentBox(rendered, rendered.width, rendered.height);
+
+  const gridHeight = Math.max(1, Math.round(GRID_WIDTH * (sourceBox.height / sourceBox.width)));
+  const a = cropToGrid(image, sourceBox, GRID_WIDTH, gridHeight);
+  const b = cropToGrid(rendered, renderedBox, GRID_WIDTH, gridHeight);
+
+  const diff = new Float32Array(a.length);
+  let diffSum = 0;
+  let inkSum = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff[i] = Math.abs(a[i] - b[i]);
+    diffSum += diff[i];
+    inkSum += a[i] + b[i];
+  }
+  const score = inkSum === 0 ? 100 : Math.round(100 * (1 - diffSum / inkSum));
+
+  const heatmapUrl = await buildHeatmap(sourceUrl, diff, GRID_WIDTH, gridHeight, sourceBox, image.naturalWidth, image.naturalHeight);
+  return { score: Math.max(0, Math.min(100, score)), heatmapUrl };
+};
+
+// html2pdf uses a single full-screen overlay, so renders must not overlap
+let checkChain: Promise<unknown> = Promise.resolve();
+
+export const queueFidelityCheck = (sourceUrl: string, html: string): Promise<FidelityResult> => {
+  const result = checkChain.then(() => checkFidelity(sourceUrl, html));
+  checkChain = result.catch(() => undefined);
+  return result;
+};
@@ -0,0 +1,126 @@
+import getCroppedImg, { createImage } from './canvasUtils';
+import { PaperDocument } from '../types';
+
+// The model reports boxes as [ymin, xmin, ymax, xmax] normalised to 0-1000
+const BOX_SCALE = 1000;
+// Models tend to crop tight; a little breathing room avoids clipping labels and axis ticks
+const BOX_PADDING = 0.01;
+
+export const parseFigureBox = (value: string | number[] | undefined): number[] | null => {
+  if (!value) return null;
+  const numbers = (Array.isArray(value) ? value : value.split(/[\s,]+/)).map(Number);
+  if (numbers.length !== 4 || numbers.some(n => !Number.isFinite(n))) return null;
+  const [ymin, xmin, ymax, xmax] = numbers;
+  if (ymax <= ymin || xmax <= xmin) return null;
+  return numbers;
+};
+
+const fileToDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read cropped figure'));
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Crops a figure out of the original page image and returns it as a PNG data URL,
+ * so it is embedded in (and survives) every export format.
+ */
+export const cropFigure = async (imageSrc: string, box: number[]): Promise<string> => {
+  const image = await createImage(imageSrc);
+  const [ymin, xmin, ymax, xmax] = box.map(v => Math.min(Math.max(v / BOX_SCALE, 0), 1));
+
+  const left = Math.max(xmin - BOX_PADDING, 0) * image.naturalWidth;
+  const top = Math.max(ymin - BOX_PADDING, 0) * image.naturalHeight;
+  const right = Math.min(xmax + BOX_PADDING, 1) * image.naturalWidth;
+  const bottom = Math.min(ymax + BOX_PADDING, 1) * image.naturalHeight;
+
+  const file = await getCroppedImg(imageSrc, {
+    x: Math.round(left),
+    y: Math.round(top),
+    width: Math.max(1, Math.round(right - left)),
+    height: Math.max(1, Math.round(bottom - top)),
+  }, 'figure.png');
+
+  return fileToDataUrl(file);
+};
+
+/**
+ * Replaces every `<img data-figure-box="...">` the model emitted with the matching crop
+ * of the source image. Figures that can't be cropped are turned into a visible placeholder.
+ */
+export const embedFiguresInHtml = async (html: string, imageSrc: string): Promise<string> => {
+  if (!html.includes('data-figure-box')) return html;
+
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  const images = Array.from(doc.body.querySelectorAll('img[data-figure-box]'));
+
+  for (const img of images) {
+    const box = parseFigureBox(img.getAttribute('data-figure-box') || undefined);
+    try {
+      if (!box) throw new Error('Invalid figure box');
+      img.setAttribute('src', await cropFigure(imageSrc, box));
+      if (!img.getAttribute('style')) {
+        img.setAttribute('style', 'max-width: 100%; display: block; margin: 8px auto;');
+      }
+    } catch (e) {
+      console.warn('Could not crop figure', e);
+      const placeholder = doc.createElement('div');
+      placeholder.setAttribute('style', 'border: 1px dashed #9ca3af; padding: 8px; margin: 6px 0; color: #6b7280; font-style: italic; text-align: center;');
+      placeholder.textContent = `[Figure: ${img.getAttribute('alt') || 'diagram'}]`;
+      img.replaceWith(placeholder);
+    }
+  }
+
+  return doc.body.innerHTML;
+};
+
+export const embedFiguresInDocument = async (paper: PaperDocument, imageSrc: string): Promise<PaperDocument> => {
+  const sections = [];
+  for (const section of paper.sections) {
+    const questions = [];
+    for (const question of section.questions) {
+      if (!question.figures) {
+        questions.push(question);
+        continue;
+      }
+      const figures = [];
+      for (const figure of question.figures) {
+        const box = parseFigureBox(figure.box);
+        if (!box || figure.src) {
+          figures.push(figure);
+          continue;
+        }
+        try {
+          figures.push({ ...figure, src: await cropFigure(imageSrc, box) });
+        } catch (e) {
+          console.warn('Could not crop figure', e);
+          figures.push(figure);
+        }
+      }
+      questions.push({ ...question, figures });
+    }
+    sections.push({ ...section, questions });
+  }
+  return { ...paper, sections };
+};
+
+/**
+ * Swaps embedded figure data URLs for short placeholders before HTML is sent back to the model
+ * (remix, solutions). Base64 images would otherwise dominate the prompt.
+ */
+export const stripFigureData = (html: string): { html: string; figures: string[] } => {
+  const figures: string[] = [];
+  const stripped = html.replace(/src="(data:image\/[^"]+)"/g, (_match, dataUrl) => {
+    figures.push(dataUrl);
+    return `data-figure-ref="${figures.length - 1}"`;
+  });
+  return { html: stripped, figures };
+};
+
+export const restoreFigureData = (html: string, figures: string[]): string =>
+  html.replace(/data-figure-ref="(\d+)"/g, (match, index) => {
+    const dataUrl = figures[Number(index)];
+    return dataUrl ? `src="${dataUrl}"` : match;
+  });
@@ -0,0 +1,44 @@
+/**
+ * Minimal promise wrappers around IndexedDB. Each feature keeps its own database, so schema
+ * upgrades of one store never touch another.
+ */
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabases = new Map<string, Promise<IDBDatabase>>();
+
+// `upgrade` creates the object stores; it runs when the database is new or `version` was raised
+export const openDatabase = (name: string, version: number, upgrade: (db: IDBDatabase, oldVersion: number) => void): Promise<IDBDatabase> => {
+  let db = openDatabases.get(name);
+  if (!db) {
+    db = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(name, version);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // A failed open (e.g. private browsing) may succeed later, so it is not kept
+    db.catch(() => openDatabases.delete(name));
+    openDatabases.set(name, db);
+  }
+  return db;
+};
+
+// Runs one request against a store in its own transaction
+export const withStore = async <T>(
+  db: Promise<IDBDatabase>,
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const store = (await db).transaction(storeName, mode).objectStore(storeName);
+  return requestToPromise(run(store));
+};
@@ -0,0 +1,293 @@
+import { PaperDocument, PaperQuestion, QuestionOption } from '../types';
+import { getSolutionSteps, matchSolutionBlocks, normalizeOptionLabel, normalizeQuestionNumber, parseAnswerKey } from './answerKey';
+import { getAllQuestions, renderQuestionBody } from './paperDocument';
+import { renderMathInHtml } from './mathUtils';
+import { cleanHtml } from './sanitizeHtml';
+import { createZip, dataUrlToBytes, ZipEntry } from './zip';
+
+/**
+ * Question exports for learning management systems: Moodle XML, QTI 2.1 content packages and GIFT.
+ * Correct MCQ options come from the answer-key markers of the solutions, the worked solution becomes
+ * the general feedback, and the printed marks become the default grade. Imported questions keep their
+ * markup, so every fragment is sanitized as it is collected.
+ */
+
+export interface LmsPage {
+  document: PaperDocument;
+  solutionHtml?: string;
+}
+
+export interface LmsChoice {
+  id: string; // "A", "B", ...
+  html: string;
+  correct: boolean;
+}
+
+export interface LmsQuestion {
+  name: string; // e.g. "Q3" or "Q1(iv)"
+  html: string; // Question text, tables, figures and descriptive sub-parts
+  marks: number;
+  choices?: LmsChoice[]; // Undefined for essay questions
+  feedbackHtml?: string;
+}
+
+export interface LmsCollection {
+  questions: LmsQuestion[];
+  skipped: string[]; // MCQs left out because no answer is marked in the solutions
+}
+
+export type LmsFormat = 'moodle' | 'qti' | 'gift';
+
+const toChoices = (options: QuestionOption[], answer: string): LmsChoice[] =>
+  options.map((o, i) => ({ id: String.fromCharCode(65 + i), html: cleanHtml(o.text), correct: normalizeOptionLabel(o.label) === answer }));
+
+/** Questions of the structured pages, with MCQ sub-parts as questions of their own. */
+export const collectLmsQuestions = (pages: LmsPage[]): LmsCollection => {
+  const questions: LmsQuestion[] = [];
+  const skipped: string[] = [];
+
+  pages.forEach(page => {
+    const answers = parseAnswerKey(page.solutionHtml);
+    const all = getAllQuestions(page.document);
+    const solutions = matchSolutionBlocks(page.solutionHtml, all.map(q => q.number));
+
+    all.forEach((question: PaperQuestion, index) => {
+      const mcqParts = (question.subParts || []).filter(p => (p.options?.length || 0) > 1);
+      const isMcq = (question.options?.length || 0) > 1;
+      const html = cleanHtml(`<p>${question.text}</p>${renderQuestionBody({ ...question, options: undefined, subParts: (question.subParts || []).filter(p => !mcqParts.includes(p)) })}`).trim();
+      const steps = getSolutionSteps(solutions[index]);
+      const feedbackHtml = steps && cleanHtml(steps);
+      const name = `Q${question.number}`;
+
+      if (isMcq) {
+        const answer = answers.get(normalizeQuestionNumber(question.number));
+        if (answer) questions.push({ name, html, marks: question.marks ?? 1, choices: toChoices(question.options!, answer), feedbackHtml });
+        else skipped.push(name);
+      } else if (mcqParts.length === 0) {
+        // A stem that only introduces MCQ sub-parts ("Choose the correct answer") is not a question by itself
+        questions.push({ name, html, marks: question.marks ?? 1, feedbackHtml });
+      }
+
+      mcqParts.forEach(part => {
+        const number = `${question.number}(${part.label})`;
+        const answer = answers.get(normalizeQuestionNumber(number));
+        if (!answer) {
+          skipped.push(`Q${number}`);
+          return;
+        }
+        questions.push({
+          name: `Q${number}`,
+          html: cleanHtml(`${question.text ? `<p>${question.text}</p>` : ''}<p>(${part.label}) ${part.text}</p>`),
+          marks: part.marks ?? 1,
+          choices: toChoices(part.options!, answer),
+        });
+      });
+    });
+  });
+
+  return { questions, skipped };
+};
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const cdata = (html: string) => `<![CDATA[${html.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+const DATA_IMAGE = /src="(data:image\/[^"]+)"/g;
+
+/* ---------- Moodle XML ---------- */
+
+// Embedded images become Moodle <file> elements referenced through @@PLUGINFILE@@
+const moodleText = (html: string, prefix: string): string => {
+  const files: string[] = [];
+  const text = html.replace(DATA_IMAGE, (match, dataUrl: string) => {
+    const image = dataUrlToBytes(dataUrl);
+    if (!image) return match;
+    const name = `${prefix}-${files.length + 1}.${image.extension}`;
+    files.push(`<file name="${name}" path="/" encoding="base64">${dataUrl.split(',')[1]}</file>`);
+    return `src="@@PLUGINFILE@@/${name}"`;
+  });
+  return `<text>${cdata(text)}</text>${files.join('')}`;
+};
+
+export const buildMoodleXml = (collection: LmsCollection, category: string): string => {
+  const items = collection.questions.map((q, i) => {
+    const common = `
+    <name><text>${escapeXml(q.name)}</text></name>
+    <questiontext format="html">${moodleText(q.html, `q${i + 1}`)}</questiontext>
+    <generalfeedback format="html">${moodleText(q.feedbackHtml || '', `q${i + 1}-feedback`)}</generalfeedback>
+    <defaultgrade>${q.marks}</defaultgrade>
+    <penalty>0</penalty>
+    <hidden>0</hidden>`;
+    if (!q.choices) {
+      return `
+  <question type="essay">${common}
+    <responseformat>editor</responseformat>
+    <responserequired>1</responserequired>
+    <responsefieldlines>15</responsefieldlines>
+    <attachments>0</attachments>
+    <graderinfo format="html">${moodleText(q.feedbackHtml || '', `q${i + 1}-grader`)}</graderinfo>
+  </question>`;
+    }
+    return `
+  <question type="multichoice">${common}
+    <single>true</single>
+    <shuffleanswers>true</shuffleanswers>
+    <answernumbering>abc</answernumbering>
+    ${q.choices.map((c, j) => `<answer fraction="${c.correct ? 100 : 0}" format="html">${moodleText(c.html, `q${i + 1}-${j + 1}`)}</answer>`).join('\n    ')}
+  </question>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<quiz>
+  <question type="category">
+    <category><text>$course$/top/${escapeXml(category)}</text></category>
+  </question>${items.join('')}
+</quiz>
+`;
+};
+
+/* ---------- QTI 2.1 ---------- */
+
+const QTI_NS = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const MATHML_NS = 'http://www.w3.org/1998/Math/MathML';
+
+// XHTML elements allowed in QTI 2.1 item bodies; anything else is unwrapped to its content
+const QTI_ELEMENTS = new Set(['p', 'div', 'span', 'br', 'strong', 'b', 'em', 'i', 'sub', 'sup', 'small', 'big', 'table', 'caption', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th', 'ul', 'ol', 'li', 'img', 'pre', 'code', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'hr', 'a', 'dl', 'dt', 'dd', 'abbr', 'cite', 'q', 'kbd', 'samp', 'var', 'tt']);
+const QTI_ATTRIBUTES = new Set(['class', 'src', 'alt', 'width', 'height', 'href', 'colspan', 'rowspan']);
+
+const cleanForQti = (element: Element) => {
+  Array.from(element.children).forEach(child => {
+    if (child.namespaceURI === MATHML_NS) return;
+    cleanForQti(child);
+    const tag = child.tagName.toLowerCase();
+    if (!QTI_ELEMENTS.has(tag)) {
+      child.replaceWith(...Array.from(child.childNodes));
+      return;
+    }
+    Array.from(child.attributes).forEach(attr => {
+      if (!QTI_ATTRIBUTES.has(attr.name)) child.removeAttribute(attr.name);
+    });
+  });
+};
+
+/**
+ * Well-formed XHTML for QTI: formulas become MathML, embedded images become files of the package
+ * (added to `files`), and styles and unsupported elements are dropped.
+ */
+const toQtiXhtml = (html: string, files: ZipEntry[]): string => {
+  const doc = new DOMParser().parseFromString(`<body>${renderMathInHtml(html, 'mathml')}</body>`, 'text/html');
+  doc.querySelectorAll('img[src^="data:"]').forEach(img => {
+    const image = dataUrlToBytes(img.getAttribute('src') || '');
+    if (!image) return img.remove();
+    const name = `images/figure-${files.length + 1}.${image.extension}`;
+    files.push({ name, data: image.bytes });
+    img.setAttribute('src', name);
+  });
+  cleanForQti(doc.body);
+  const serializer = new XMLSerializer();
+  return Array.from(doc.body.childNodes)
+    .map(node => serializer.serializeToString(node))
+    .join('')
+    .replace(/ xmlns="http:\/\/www\.w3\.org\/1999\/xhtml"/g, '');
+};
+
+const buildQtiItem = (q: LmsQuestion, identifier: string, files: ZipEntry[]): string => {
+  const body = `<div>${toQtiXhtml(q.html, files)}</div>`;
+  const feedback = q.feedbackHtml
+    ? `\n  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="GENERAL" showHide="show"><div>${toQtiXhtml(q.feedbackHtml, files)}</div></modalFeedback>`
+    : '';
+  const outcomes = `
+  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>
+  <outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float"><defaultValue><value>${q.marks}</value></defaultValue></outcomeDeclaration>
+  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>`;
+
+  if (!q.choices) {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="${QTI_NS}" identifier="${identifier}" title="${escapeXml(q.name)}" adaptive="false" timeDependent="false">
+  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>${outcomes}
+  <itemBody>
+    ${body}
+    <extendedTextInteraction responseIdentifier="RESPONSE" expectedLines="15"/>
+  </itemBody>
+  <responseProcessing>
+    <setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">GENERAL</baseValue></setOutcomeValue>
+  </responseProcessing>${feedback}
+</assessmentItem>
+`;
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="${QTI_NS}" identifier="${identifier}" title="${escapeXml(q.name)}" adaptive="false" timeDependent="false">
+  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+    <correctResponse>${q.choices.filter(c => c.correct).map(c => `<value>${c.id}</value>`).join('')}</correctResponse>
+  </responseDeclaration>${outcomes}
+  <itemBody>
+    ${body}
+    <choiceInteraction responseIdentifier="RESPONSE" shuffle="true" maxChoices="1">
+      ${q.choices.map(c => `<simpleChoice identifier="${c.id}">${toQtiXhtml(c.html, files)}</simpleChoice>`).join('\n      ')}
+    </choiceInteraction>
+  </itemBody>
+  <responseProcessing>
+    <responseCondition>
+      <responseIf>
+        <match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match>
+        <setOutcomeValue identifier="SCORE"><variable identifier="MAXSCORE"/></setOutcomeValue>
+      </responseIf>
+    </responseCondition>
+    <setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">GENERAL</baseValue></setOutcomeValue>
+  </responseProcessing>${feedback}
+</assessmentItem>
+`;
+};
+
+/** QTI 2.1 content package: one item file per question, images, and the imsmanifest.xml. */
+export const buildQtiPackage = (collection: LmsCollection, title: string): Blob => {
+  const files: ZipEntry[] = [];
+  const items = collection.questions.map((q, i) => {
+    const identifier = `item-${i + 1}`;
+    const imagesBefore = files.length;
+    const xml = buildQtiItem(q, identifier, files);
+    return { identifier, href: `${identifier}.xml`, xml, images: files.slice(imagesBefore).map(f => f.name) };
+  });
+
+  const manifest = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="snap2print-${Date.now()}">
+  <metadata>
+    <schema>IMS Content</schema>
+    <schemaversion>1.1.3</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+${items.map(item => `    <resource identifier="${item.identifier}" type="imsqti_item_xmlv2p1" href="${item.href}">
+      <metadata><lom xmlns="http://ltsc.ieee.org/xsd/LOM"><general><title><string>${escapeXml(title)} ${escapeXml(collection.questions[items.indexOf(item)].name)}</string></title></general></lom></metadata>
+      <file href="${item.href}"/>${item.images.map(name => `\n      <file href="${name}"/>`).join('')}
+    </resource>`).join('\n')}
+  </resources>
+</manifest>
+`;
+
+  return createZip([
+    { name: 'imsmanifest.xml', data: manifest },
+    ...items.map(item => ({ name: item.href, data: item.xml })),
+    ...files,
+  ]);
+};
+
+/* ---------- GIFT ---------- */
+
+// GIFT's control characters are escaped with a backslash; a question must fit on one "paragraph"
+const escapeGift = (text: string) => text.replace(/([\\~=#{}:])/g, '\\$1').replace(/\s*\n\s*/g, ' ').trim();
+
+const giftText = (html: string) => `[html]${escapeGift(html)}`;
+
+export const buildGift = (collection: LmsCollection, category: string): string => {
+  const items = collection.questions.map(q => {
+    const feedback = q.feedbackHtml ? `####${giftText(q.feedbackHtml)}` : '';
+    // GIFT has no syntax for the grade, so the marks are noted for whoever imports the file
+    const header = `// ${q.name}: ${q.marks} mark${q.marks === 1 ? '' : 's'}\n::${escapeGift(q.name)}::${giftText(q.html)}`;
+    if (!q.choices) return `${header}{${feedback}}`;
+    return `${header}{\n${q.choices.map(c => `\t${c.correct ? '=' : '~'}${giftText(c.html)}`).join('\n')}${feedback ? `\n\t${feedback}` : ''}\n}`;
+  });
+  return `$CATEGORY: $course$/top/${escapeGift(category)}\n\n${items.join('\n\n')}\n`;
+};
@@ -0,0 +1,38 @@
+/**
+ * Reads the numbers out of the header's free-text marks/time line, e.g.
+ * "MAXIMUM MARKS: 100     TIMING: 3 1/4 Hours".
+ */
+
+// "MAXIMUM MARKS: 100", "Max. Marks - 80", "Total Marks 50", "100 Marks"
+export const parseMaxMarks = (marksTime: string): number | undefined => {
+  const match = marksTime.match(/marks?\s*[:\-–]?\s*(\d+(?:\.\d+)?)/i) || marksTime.match(/(\d+(?:\.\d+)?)\s*marks?\b/i);
+  return match ? parseFloat(match[1]) : undefined;
+};
+
+const FRACTIONS: Record<string, number> = { '¼': 0.25, '½': 0.5, '¾': 0.75 };
+
+// "3 1/4", "3¼", "2.5" -> number
+const parseAmount = (text: string): number => {
+  const [whole, fraction] = text.trim().split(/\s+(?=\d+\/\d+)/);
+  const vulgar = whole.match(/[¼½¾]$/);
+  let value = vulgar ? (parseFloat(whole) || 0) + FRACTIONS[vulgar[0]] : parseFloat(whole);
+  if (/^\d+\/\d+$/.test(whole)) {
+    const [n, d] = whole.split('/').map(Number);
+    value = n / d;
+  }
+  if (fraction) {
+    const [n, d] = fraction.split('/').map(Number);
+    value += n / d;
+  }
+  return value;
+};
+
+// "TIMING: 3 1/4 Hours" -> 195, "Time: 90 minutes" -> 90, "1 hr 30 min" -> 90
+export const parseDurationMinutes = (marksTime: string): number | undefined => {
+  const amount = '(\\d+(?:\\.\\d+)?(?:\\s+\\d+\\/\\d+|[¼½¾])?|\\d+\\/\\d+|[¼½¾])';
+  const hours = marksTime.match(new RegExp(`${amount}\\s*(?:hours?|hrs?|h)\\b`, 'i'));
+  const minutes = marksTime.match(new RegExp(`${amount}\\s*(?:minutes?|mins?|m)\\b`, 'i'));
+  if (!hours && !minutes) return undefined;
+  const total = (hours ? parseAmount(hours[1]) * 60 : 0) + (minutes ? parseAmount(minutes[1]) : 0);
+  return total > 0 ? Math.round(total) : undefined;
+};
@@ -0,0 +1,98 @@
+import katex from 'katex';
+
+export type MathOutput = 'html' | 'mathml';
+
+// \( inline \), \[ display \] and $$ display $$. Single $ is not supported: it clashes with currency.
+const MATH_PATTERN = /\\\(([\s\S]+?)\\\)|\\\[([\s\S]+?)\\\]|\$\$([\s\S]+?)\$\$/g;
+
+// Text inside these elements is never treated as math
+const SKIP_TAGS = new Set(['PRE', 'CODE', 'SCRIPT', 'STYLE', 'TEXTAREA']);
+
+export const containsMath = (html: string): boolean => {
+  MATH_PATTERN.lastIndex = 0;
+  return MATH_PATTERN.test(html);
+};
+
+const escapeAttribute = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Renders a single TeX formula wrapped in a span that keeps the source in `data-tex`,
+ * so the formula can be edited later and restored with `restoreTex`.
+ */
+export const renderFormula = (tex: string, displayMode: boolean, output: MathOutput): string => {
+  const rendered = katex.renderToString(tex, {
+    displayMode,
+    output,
+    throwOnError: false,
+    strict: 'ignore',
+  });
+  const tag = displayMode ? 'div' : 'span';
+  return `<${tag} class="math-tex" data-tex="${escapeAttribute(tex)}" data-display="${displayMode}" contenteditable="false">${rendered}</${tag}>`;
+};
+
+const renderTextNode = (node: Text, output: MathOutput) => {
+  const text = node.nodeValue || '';
+  MATH_PATTERN.lastIndex = 0;
+  if (!MATH_PATTERN.test(text)) return;
+
+  const doc = node.ownerDocument;
+  const fragment = doc.createDocumentFragment();
+  let lastIndex = 0;
+  MATH_PATTERN.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = MATH_PATTERN.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      fragment.appendChild(doc.createTextNode(text.slice(lastIndex, match.index)));
+    }
+    const tex = match[1] ?? match[2] ?? match[3];
+    const displayMode = match[1] === undefined;
+    const holder = doc.createElement('span');
+    holder.innerHTML = renderFormula(tex.trim(), displayMode, output);
+    fragment.appendChild(holder.firstChild!);
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    fragment.appendChild(doc.createTextNode(text.slice(lastIndex)));
+  }
+  node.replaceWith(fragment);
+};
+
+const walk = (node: Node, output: MathOutput) => {
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType === Node.TEXT_NODE) {
+      renderTextNode(child as Text, output);
+    } else if (child.nodeType === Node.ELEMENT_NODE) {
+      const el = child as Element;
+      if (SKIP_TAGS.has(el.tagName) || el.classList.contains('math-tex')) continue;
+      walk(el, output);
+    }
+  }
+};
+
+/**
+ * Replaces TeX delimiters in HTML with rendered KaTeX.
+ * `html` output needs the KaTeX stylesheet (app preview, PDF); `mathml` output is self-contained
+ * and is what Word and standalone HTML files understand.
+ */
+export const renderMathInHtml = (html: string, output: MathOutput): string => {
+  if (!containsMath(html)) return html;
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  walk(doc.body, output);
+  return doc.body.innerHTML;
+};
+
+/**
+ * Inverse of `renderMathInHtml`: turns rendered formulas back into their TeX source.
+ */
+export const restoreTex = (html: string): string => {
+  if (!html.includes('math-tex')) return html;
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  doc.body.querySelectorAll('.math-tex[data-tex]').forEach(el => {
+    const tex = el.getAttribute('data-tex') || '';
+    const display = el.getAttribute('data-display') === 'true';
+    el.replaceWith(doc.createTextNode(display ? `\\[${tex}\\]` : `\\(${tex}\\)`));
+  });
+  return doc.body.innerHTML;
+};
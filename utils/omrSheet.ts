@@ -0,0 +1,141 @@
+import { PaperDocument } from '../types';
+import { normalizeOptionLabel } from './answerKey';
+import { getAllQuestions } from './paperDocument';
+
+export interface OmrQuestion {
+  number: string; // As printed, e.g. "7" or "1(iv)" for MCQ sub-parts
+  options: string[]; // Bubble letters, e.g. ["A", "B", "C", "D"]
+}
+
+export interface OmrSettings {
+  rollDigits: number;
+  setCodes: string[]; // Bubbles for the paper's set, e.g. the remixed set labels; empty hides the block
+}
+
+export const DEFAULT_OMR_SETTINGS: OmrSettings = {
+  rollDigits: 6,
+  setCodes: ['A', 'B', 'C', 'D'],
+};
+
+// Branding taken from the header configuration
+export interface OmrBranding {
+  logoText: string;
+  logoSubText: string;
+  courseName: string;
+  seriesName: string;
+  subjectTitle: string;
+}
+
+/** MCQs of the structured pages in paper order, including MCQ sub-parts such as "1 (i)-(x)". */
+export const getOmrQuestions = (docs: PaperDocument[]): OmrQuestion[] =>
+  docs.flatMap(getAllQuestions).flatMap(question => [
+    ...((question.options?.length || 0) > 1
+      ? [{ number: question.number, options: question.options!.map(o => normalizeOptionLabel(o.label).toUpperCase()) }]
+      : []),
+    ...(question.subParts || [])
+      .filter(part => (part.options?.length || 0) > 1)
+      .map(part => ({ number: `${question.number}(${part.label})`, options: part.options!.map(o => normalizeOptionLabel(o.label).toUpperCase()) })),
+  ]);
+
+const ROWS_PER_COLUMN = 25;
+const COLUMNS_PER_SHEET = 4;
+
+// savePdf scales its 210mm-wide element onto the 190mm between the A4 margins, so a PDF page holds
+// 277mm × 210 / 190 ≈ 306mm of it. Less the element's 10mm padding above the first sheet and below
+// the last, and some slack for rounding, each sheet (and its bottom alignment markers) stays on one page.
+const SHEET_HEIGHT_MM = 285;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const bubble = (label: string) =>
+  `<span style="display: inline-block; width: 16px; height: 16px; border: 1px solid #000; border-radius: 50%; text-align: center; line-height: 16px; font-size: 8px; margin: 0 2px; vertical-align: middle;">${escapeHtml(label)}</span>`;
+
+// Solid squares in the corners let scanners find and deskew the sheet
+const alignmentMarkers = () => ['top: 0; left: 0;', 'top: 0; right: 0;', 'bottom: 0; left: 0;', 'bottom: 0; right: 0;']
+  .map(position => `<div style="position: absolute; ${position} width: 28px; height: 28px; background: #000;"></div>`)
+  .join('');
+
+const renderBranding = (branding: OmrBranding | undefined, sheet: number, sheets: number) => !branding ? `
+    <div style="background: #000; color: #fff; text-align: center; padding: 5px; font-size: 15px; font-weight: bold; letter-spacing: 2px;">
+        OMR ANSWER SHEET${sheets > 1 ? ` (${sheet}/${sheets})` : ''}
+    </div>` : `
+    <div style="text-align: right;">
+        <span style="color: #0056b3; font-weight: bold; font-size: 20px;">${branding.logoText}</span><br>
+        <small style="font-size: 9px;">${branding.logoSubText}</small>
+    </div>
+    <div style="border: 2px solid #000; padding: 4px 8px; margin-top: 4px; display: flex; justify-content: space-between; font-weight: bold; font-size: 13px;">
+        <span>${branding.courseName}</span>
+        <span>${branding.seriesName}</span>
+    </div>
+    <div style="background: #000; color: #fff; text-align: center; padding: 5px; font-size: 15px; font-weight: bold; letter-spacing: 2px; margin-top: 6px;">
+        ${branding.subjectTitle} &middot; OMR ANSWER SHEET${sheets > 1 ? ` (${sheet}/${sheets})` : ''}
+    </div>`;
+
+const renderRollNumber = (digits: number) => `
+    <div style="border: 1px solid #000; padding: 6px;">
+        <div style="font-weight: bold; font-size: 11px; text-align: center; margin-bottom: 4px;">ROLL NUMBER</div>
+        <table style="border-collapse: collapse; margin: 0 auto;">
+            <tr>${Array.from({ length: digits }, () => '<td style="border: 1px solid #000; width: 20px; height: 20px;"></td>').join('')}</tr>
+            ${Array.from({ length: 10 }, (_, d) => `
+            <tr>${Array.from({ length: digits }, () => `<td style="text-align: center; padding: 1px 0;">${bubble(String(d))}</td>`).join('')}</tr>`).join('')}
+        </table>
+    </div>`;
+
+const renderSetCode = (codes: string[]) => codes.length === 0 ? '' : `
+    <div style="border: 1px solid #000; padding: 6px;">
+        <div style="font-weight: bold; font-size: 11px; text-align: center; margin-bottom: 4px;">SET CODE</div>
+        <div style="border: 1px solid #000; width: 20px; height: 20px; margin: 0 auto 4px auto;"></div>
+        ${codes.map(code => `<div style="text-align: center; padding: 1px 0;">${bubble(code)}</div>`).join('')}
+    </div>`;
+
+const renderCandidate = () => `
+    <div style="flex: 1; display: flex; flex-direction: column; gap: 6px; font-size: 11px;">
+        <div style="border: 1px solid #000; padding: 6px; height: 34px;"><strong>Candidate's Name:</strong></div>
+        <div style="border: 1px solid #000; padding: 6px; height: 34px;"><strong>Candidate's Signature:</strong></div>
+        <div style="border: 1px solid #000; padding: 6px; height: 34px;"><strong>Invigilator's Signature:</strong></div>
+        <div style="border: 1px solid #000; padding: 6px; line-height: 1.5;">
+            <strong>Instructions:</strong> Use a blue or black ball-point pen. Darken one bubble completely for each question,
+            like this: <span style="display: inline-block; width: 10px; height: 10px; border-radius: 50%; background: #000; vertical-align: middle;"></span>.
+            Do not make stray marks, fold or staple the sheet. Write and darken your roll number and set code.
+        </div>
+    </div>`;
+
+const renderAnswers = (questions: OmrQuestion[]) => {
+  const columns: OmrQuestion[][] = [];
+  for (let i = 0; i < questions.length; i += ROWS_PER_COLUMN) {
+    columns.push(questions.slice(i, i + ROWS_PER_COLUMN));
+  }
+  return `
+    <div style="display: flex; gap: 8px; margin-top: 10px;">
+        ${columns.map(column => `
+        <table style="flex: 1; border-collapse: collapse; border: 1px solid #000; font-size: 10px;">
+            ${column.map((q, i) => `
+            <tr style="${i % 5 === 4 ? 'border-bottom: 1px solid #000;' : ''}">
+                <td style="padding: 2px 4px; font-weight: bold; text-align: right; width: 32px; white-space: nowrap;">${escapeHtml(q.number)}</td>
+                <td style="padding: 2px 4px; white-space: nowrap;">${q.options.map(bubble).join('')}</td>
+            </tr>`).join('')}
+        </table>`).join('')}
+        ${Array.from({ length: COLUMNS_PER_SHEET - columns.length }, () => '<div style="flex: 1;"></div>').join('')}
+    </div>`;
+};
+
+/**
+ * Printable OMR answer sheets for the given MCQs, one A4 page per 100 questions. Inline styles
+ * only, so the sheet prints the same from the PDF export. Without `branding` only the title is printed.
+ */
+export const renderOmrSheets = (questions: OmrQuestion[], settings: OmrSettings, branding?: OmrBranding): string => {
+  const perSheet = ROWS_PER_COLUMN * COLUMNS_PER_SHEET;
+  const sheets = Math.max(1, Math.ceil(questions.length / perSheet));
+  return Array.from({ length: sheets }, (_, i) => `
+<div style="position: relative; height: ${SHEET_HEIGHT_MM}mm; padding: 40px; box-sizing: border-box; break-after: page; page-break-after: always; color: #000;">
+    ${alignmentMarkers()}
+    ${renderBranding(branding, i + 1, sheets)}
+    <div style="display: flex; gap: 8px; margin-top: 10px; align-items: flex-start;">
+        ${renderCandidate()}
+        ${renderRollNumber(settings.rollDigits)}
+        ${renderSetCode(settings.setCodes)}
+    </div>
+    ${renderAnswers(questions.slice(i * perSheet, (i + 1) * perSheet))}
+</div>`).join('');
+};
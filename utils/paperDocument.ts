@@ -0,0 +1,94 @@
+import { PaperDocument, PaperQuestion, QuestionOption, QuestionTable, QuestionSubPart } from '../types';
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatMarks = (marks?: number) =>
+  marks === undefined ? '' : `<span style="float: right; font-weight: bold;">[${marks} Mark${marks === 1 ? '' : 's'}]</span>`;
+
+const renderOptions = (options: QuestionOption[]) => {
+  // Two options per row keeps MCQs compact, the same way printed papers lay them out
+  const rows: QuestionOption[][] = [];
+  for (let i = 0; i < options.length; i += 2) {
+    rows.push(options.slice(i, i + 2));
+  }
+  return `
+      <table style="width: 100%; border-collapse: collapse; margin-top: 4px;">
+        ${rows.map(row => `
+        <tr>
+          ${row.map(o => `<td style="padding: 2px 8px; width: 50%; vertical-align: top;">(${escapeHtml(o.label)}) ${o.text}</td>`).join('')}
+        </tr>`).join('')}
+      </table>`;
+};
+
+const renderTable = (table: QuestionTable) => `
+      <table style="width: 100%; border-collapse: collapse; margin: 8px 0; border: 1px solid #000;">
+        ${table.caption ? `<caption style="font-weight: bold; padding: 4px;">${table.caption}</caption>` : ''}
+        ${table.headers.length > 0 ? `
+        <tr>
+          ${table.headers.map(h => `<th style="border: 1px solid #000; padding: 4px 6px; text-align: left; background-color: #f3f4f6;">${h}</th>`).join('')}
+        </tr>` : ''}
+        ${table.rows.map(row => `
+        <tr>
+          ${row.map(cell => `<td style="border: 1px solid #000; padding: 4px 6px;">${cell}</td>`).join('')}
+        </tr>`).join('')}
+      </table>`;
+
+const renderSubPart = (part: QuestionSubPart) => `
+      <div style="margin: 4px 0 4px 24px;">
+        ${formatMarks(part.marks)}
+        <span>(${escapeHtml(part.label)}) ${part.text}</span>
+        ${part.options ? renderOptions(part.options) : ''}
+      </div>`;
+
+// Everything after the question text: tables, figures, options and sub-parts
+export const renderQuestionBody = (question: PaperQuestion) => `
+      ${(question.tables || []).map(renderTable).join('')}
+      ${(question.figures || []).map(f => f.src ? `
+      <img src="${f.src}" alt="${escapeHtml(f.description)}" style="max-width: 100%; display: block; margin: 8px auto;">` : `
+      <div style="border: 1px dashed #9ca3af; padding: 8px; margin: 6px 0; color: #6b7280; font-style: italic; text-align: center;">[Figure: ${escapeHtml(f.description)}]</div>`).join('')}
+      ${question.options ? renderOptions(question.options) : ''}
+      ${(question.subParts || []).map(renderSubPart).join('')}`;
+
+export const renderQuestion = (question: PaperQuestion) => `
+    <div class="paper-question" data-question-id="${escapeHtml(question.id)}" style="margin-bottom: 14px; page-break-inside: avoid;">
+      ${formatMarks(question.marks)}
+      <p style="margin: 0 0 6px 0;"><strong>${escapeHtml(question.number)}.</strong> ${question.text}</p>
+      ${renderQuestionBody(question)}
+    </div>`;
+
+/**
+ * Renders the typed document model to print-ready HTML.
+ * Only inline styles are used so the output survives the Word export unchanged.
+ */
+export const renderPaperDocument = (doc: PaperDocument): string => `
+<div style="font-family: Arial, sans-serif; padding: 16px; color: #111827;">
+  ${doc.title ? `<p style="text-align: center; font-weight: bold; font-size: 18px; margin: 0 0 8px 0;">${doc.title}</p>` : ''}
+  ${(doc.instructions || []).map(i => `<p style="margin: 0 0 4px 0; font-style: italic;">${i}</p>`).join('')}
+  ${doc.sections.map(section => `
+  <div style="margin-top: 12px;">
+    ${section.title ? `<p style="font-weight: bold; font-size: 16px; margin: 0 0 8px 0;">${section.title}</p>` : ''}
+    ${section.instructions ? `<p style="margin: 0 0 8px 0; font-style: italic;">${section.instructions}</p>` : ''}
+    ${section.questions.map(renderQuestion).join('')}
+  </div>`).join('')}
+</div>`.trim();
+
+export const getAllQuestions = (doc: PaperDocument): PaperQuestion[] =>
+  doc.sections.flatMap(section => section.questions);
+
+export const countQuestions = (doc: PaperDocument): number => getAllQuestions(doc).length;
+
+/**
+ * Renumbers questions sequentially (1, 2, 3, ...) across several documents, in order.
+ * Useful when pages were scanned from different sources and restart at Q1.
+ */
+export const renumberDocuments = (docs: PaperDocument[], startAt: number = 1): PaperDocument[] => {
+  let next = startAt;
+  return docs.map(doc => ({
+    ...doc,
+    sections: doc.sections.map(section => ({
+      ...section,
+      questions: section.questions.map(q => ({ ...q, number: String(next++) })),
+    })),
+  }));
+};
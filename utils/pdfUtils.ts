@@ -0,0 +1,119 @@
+/// <reference types="vite/client" />
+import * as pdfjsLib from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+// The worker is bundled with the app, so PDFs are parsed and rendered entirely in the browser
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// PDF user space is 72 units per inch
+const PDF_POINTS_PER_INCH = 72;
+
+export const DPI_OPTIONS = [100, 150, 200, 300];
+export const DEFAULT_PDF_DPI = 150;
+
+export const isPdfFile = (file: File): boolean =>
+  file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+const loadPdf = async (file: File) => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  return pdfjsLib.getDocument({ data }).promise;
+};
+
+export const getPdfPageCount = async (file: File): Promise<number> => {
+  const pdf = await loadPdf(file);
+  const count = pdf.numPages;
+  await pdf.destroy();
+  return count;
+};
+
+/**
+ * Parses a page range like "1-3, 5, 8-" into sorted, de-duplicated 1-based page numbers.
+ * An empty string selects every page. Throws on anything outside 1..pageCount.
+ */
+export const parsePageRange = (range: string, pageCount: number): number[] => {
+  const trimmed = range.trim();
+  if (!trimmed || trimmed.toLowerCase() === 'all') {
+    return Array.from({ length: pageCount }, (_, i) => i + 1);
+  }
+
+  const pages = new Set<number>();
+  for (const part of trimmed.split(',')) {
+    const token = part.trim();
+    if (!token) continue;
+
+    const match = token.match(/^(\d*)\s*-\s*(\d*)$/);
+    if (match) {
+      const start = match[1] ? parseInt(match[1], 10) : 1;
+      const end = match[2] ? parseInt(match[2], 10) : pageCount;
+      if (start < 1 || end > pageCount || start > end) {
+        throw new Error(`Invalid range "${token}". This PDF has ${pageCount} pages.`);
+      }
+      for (let p = start; p <= end; p++) pages.add(p);
+    } else if (/^\d+$/.test(token)) {
+      const page = parseInt(token, 10);
+      if (page < 1 || page > pageCount) {
+        throw new Error(`Page ${page} does not exist. This PDF has ${pageCount} pages.`);
+      }
+      pages.add(page);
+    } else {
+      throw new Error(`Could not understand "${token}". Use a format like 1-3, 5, 8-10.`);
+    }
+  }
+
+  return Array.from(pages).sort((a, b) => a - b);
+};
+
+const canvasToFile = (canvas: HTMLCanvasElement, fileName: string): Promise<File> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        reject(new Error('Canvas is empty'));
+        return;
+      }
+      resolve(new File([blob], fileName, { type: 'image/png' }));
+    }, 'image/png');
+  });
+
+/**
+ * Renders the selected pages of a PDF to PNG files named `<file>-p<N>.png`, in page order.
+ */
+export const renderPdfPages = async (
+  file: File,
+  pageNumbers: number[],
+  dpi: number,
+  onProgress?: (done: number, total: number) => void
+): Promise<File[]> => {
+  const pdf = await loadPdf(file);
+  const baseName = file.name.replace(/\.pdf$/i, '');
+  const scale = dpi / PDF_POINTS_PER_INCH;
+  const files: File[] = [];
+
+  try {
+    for (let i = 0; i < pageNumbers.length; i++) {
+      const pageNumber = pageNumbers[i];
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        throw new Error('Could not get canvas context');
+      }
+
+      // Scanned PDFs sometimes have transparent backgrounds; paper is white
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvasContext: ctx, viewport }).promise;
+      page.cleanup();
+
+      files.push(await canvasToFile(canvas, `${baseName}-p${pageNumber}.png`));
+      onProgress?.(i + 1, pageNumbers.length);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return files;
+};
@@ -0,0 +1,206 @@
+import { PaperDocument, PaperQuestion, QuestionOption } from '../types';
+import { matchSolutionBlocks, normalizeOptionLabel, normalizeQuestionNumber, parseAnswerKey } from './answerKey';
+import { getAllQuestions, renderQuestion } from './paperDocument';
+import { renderMathInHtml } from './mathUtils';
+import { cleanHtml } from './sanitizeHtml';
+
+/**
+ * Self-contained quiz page: one HTML file with its own styles and script, no server and no CDN, so
+ * students can take the paper offline on a phone. The answer key is embedded in the file.
+ * The file runs its own script, so every model-generated fragment is sanitized as it goes in.
+ * Formulas become MathML, which needs no stylesheet or fonts.
+ */
+
+export interface QuizPage {
+  document?: PaperDocument; // Structured pages become interactive
+  html: string; // Free-form pages are shown as they are
+  solutionHtml?: string;
+}
+
+export interface QuizOptions {
+  title: string;
+  headerHtml: string;
+  durationMinutes?: number; // No timer when undefined
+}
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderChoices = (options: QuestionOption[]) => `
+      <div class="quiz-options">
+        ${options.map(o => `<button type="button" class="quiz-option" data-option="${escapeHtml(normalizeOptionLabel(o.label))}"><span class="quiz-label">${escapeHtml(o.label)}</span><span>${cleanHtml(o.text)}</span></button>`).join('')}
+      </div>`;
+
+// An MCQ (or MCQ sub-part) that can be answered and scored
+const renderMcq = (number: string, marks: number, answer: string | undefined, bodyHtml: string, options: QuestionOption[], solutionHtml?: string) => `
+    <div class="quiz-mcq"${answer ? ` data-answer="${escapeHtml(answer)}"` : ''} data-marks="${marks}" data-question="${escapeHtml(number)}">
+      ${bodyHtml}
+      ${renderChoices(options)}
+      <div class="quiz-feedback"></div>
+      ${solutionHtml ? `<div class="quiz-solution">${solutionHtml}</div>` : ''}
+    </div>`;
+
+const renderInteractiveQuestion = (question: PaperQuestion, answers: Map<string, string>, solutionHtml?: string): string => {
+  const isMcq = (question.options?.length || 0) > 1;
+  const mcqParts = (question.subParts || []).filter(p => (p.options?.length || 0) > 1);
+  if (!isMcq && mcqParts.length === 0) {
+    return `<div class="quiz-static">${cleanHtml(renderQuestion(question))}${solutionHtml ? `<div class="quiz-solution">${solutionHtml}</div>` : ''}</div>`;
+  }
+
+  // The stem without its options; the options are rendered as buttons instead
+  const stem = cleanHtml(renderQuestion({ ...question, options: undefined, subParts: (question.subParts || []).filter(p => !mcqParts.includes(p)) }));
+  const mcq = isMcq
+    ? renderMcq(question.number, question.marks ?? 1, answers.get(normalizeQuestionNumber(question.number)), stem, question.options!, solutionHtml)
+    : `<div class="quiz-static">${stem}</div>`;
+  const parts = mcqParts.map(part => {
+    const number = `${question.number}(${part.label})`;
+    return renderMcq(number, part.marks ?? 1, answers.get(normalizeQuestionNumber(number)), `<p class="quiz-part"><strong>(${escapeHtml(part.label)})</strong> ${cleanHtml(part.text)}</p>`, part.options!);
+  });
+  return [mcq, ...parts].join('');
+};
+
+const QUIZ_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; background: #f1f5f9; color: #0f172a; font-family: Arial, sans-serif; }
+  .quiz-bar { position: sticky; top: 0; z-index: 10; display: flex; justify-content: space-between; align-items: center; gap: 8px; padding: 10px 16px; background: #0f172a; color: #fff; font-weight: bold; }
+  .quiz-timer.low { color: #fca5a5; }
+  .quiz-bar button, .quiz-start button { border: 0; border-radius: 8px; padding: 8px 16px; font-size: 15px; font-weight: bold; background: #2563eb; color: #fff; cursor: pointer; }
+  .quiz-bar button:disabled { opacity: 0.5; }
+  .quiz-paper { max-width: 760px; margin: 0 auto; padding: 12px; background: #fff; }
+  .quiz-paper img { max-width: 100%; height: auto; }
+  .quiz-paper table { max-width: 100%; }
+  .quiz-start { text-align: center; padding: 32px 16px; }
+  .quiz-mcq, .quiz-static { padding: 12px 0; border-bottom: 1px solid #e2e8f0; overflow-x: auto; }
+  .quiz-options { display: grid; gap: 8px; margin-top: 8px; }
+  .quiz-option { display: flex; gap: 10px; align-items: flex-start; width: 100%; text-align: left; padding: 12px; border: 2px solid #cbd5e1; border-radius: 10px; background: #fff; font-size: 16px; color: inherit; cursor: pointer; }
+  .quiz-option.selected { border-color: #2563eb; background: #eff6ff; }
+  .quiz-option.correct { border-color: #16a34a; background: #f0fdf4; }
+  .quiz-option.wrong { border-color: #dc2626; background: #fef2f2; }
+  .quiz-label { font-weight: bold; min-width: 1.5em; }
+  .quiz-feedback { margin-top: 6px; font-weight: bold; font-size: 14px; }
+  .quiz-solution { display: none; margin-top: 8px; padding: 8px; background: #f8fafc; border-left: 3px solid #94a3b8; font-size: 14px; }
+  .submitted .quiz-solution { display: block; }
+  .quiz-result { display: none; margin: 12px 0; padding: 16px; border-radius: 10px; background: #eff6ff; font-size: 18px; font-weight: bold; text-align: center; }
+  .submitted .quiz-result { display: block; }
+  .quiz-hidden { display: none; }
+`;
+
+// Plain ES5 so it runs on old phone browsers
+const QUIZ_SCRIPT = `
+(function () {
+  var root = document.getElementById('quiz');
+  var paper = document.getElementById('quiz-paper');
+  var timer = document.getElementById('quiz-timer');
+  var submit = document.getElementById('quiz-submit');
+  var duration = Number(root.getAttribute('data-duration')) * 60;
+  var interval = null;
+  var submitted = false;
+
+  function format(seconds) {
+    var h = Math.floor(seconds / 3600), m = Math.floor(seconds % 3600 / 60), s = seconds % 60;
+    return (h ? h + ':' + (m < 10 ? '0' : '') : '') + m + ':' + (s < 10 ? '0' : '') + s;
+  }
+
+  function finish() {
+    if (submitted) return;
+    submitted = true;
+    if (interval) clearInterval(interval);
+    var score = 0, total = 0, correct = 0, wrong = 0, skipped = 0, unscored = 0;
+    var mcqs = paper.querySelectorAll('.quiz-mcq');
+    for (var i = 0; i < mcqs.length; i++) {
+      var q = mcqs[i], answer = q.getAttribute('data-answer'), marks = Number(q.getAttribute('data-marks')) || 1;
+      var chosen = q.querySelector('.quiz-option.selected');
+      var feedback = q.querySelector('.quiz-feedback');
+      if (!answer) { unscored++; feedback.textContent = 'Not scored (no answer key)'; continue; }
+      total += marks;
+      var options = q.querySelectorAll('.quiz-option');
+      for (var j = 0; j < options.length; j++) {
+        if (options[j].getAttribute('data-option') === answer) options[j].className += ' correct';
+      }
+      if (!chosen) { skipped++; feedback.textContent = 'Not answered'; }
+      else if (chosen.getAttribute('data-option') === answer) { correct++; score += marks; feedback.textContent = 'Correct (+' + marks + ')'; feedback.style.color = '#16a34a'; }
+      else { wrong++; chosen.className += ' wrong'; feedback.textContent = 'Wrong'; feedback.style.color = '#dc2626'; }
+    }
+    var text = 'Score: ' + score + ' / ' + total + ' \\u00b7 ' + correct + ' correct, ' + wrong + ' wrong, ' + skipped + ' not answered' + (unscored ? ', ' + unscored + ' not scored' : '');
+    var results = document.querySelectorAll('.quiz-result');
+    for (var k = 0; k < results.length; k++) results[k].textContent = text;
+    root.className += ' submitted';
+    submit.disabled = true;
+    window.scrollTo(0, 0);
+  }
+
+  paper.addEventListener('click', function (event) {
+    var option = event.target.closest ? event.target.closest('.quiz-option') : null;
+    if (!option || submitted) return;
+    var siblings = option.parentNode.querySelectorAll('.quiz-option');
+    for (var i = 0; i < siblings.length; i++) siblings[i].className = 'quiz-option';
+    option.className = 'quiz-option selected';
+  });
+
+  submit.addEventListener('click', function () {
+    if (window.confirm('Submit your answers?')) finish();
+  });
+
+  document.getElementById('quiz-begin').addEventListener('click', function () {
+    document.getElementById('quiz-start').className += ' quiz-hidden';
+    paper.className = '';
+    submit.disabled = false;
+    if (!duration) return;
+    var deadline = Date.now() + duration * 1000;
+    var tick = function () {
+      var left = Math.max(0, Math.round((deadline - Date.now()) / 1000));
+      timer.textContent = format(left);
+      if (left <= 300) timer.className = 'quiz-timer low';
+      if (left === 0) finish();
+    };
+    tick();
+    interval = setInterval(tick, 1000);
+  });
+})();
+`;
+
+export const buildQuizHtml = (pages: QuizPage[], options: QuizOptions): string => {
+  const body = renderMathInHtml(pages.map(page => {
+    if (!page.document) return `<div class="quiz-static">${cleanHtml(page.html)}</div>`;
+    const answers = parseAnswerKey(page.solutionHtml);
+    const questions = getAllQuestions(page.document);
+    const solutions = matchSolutionBlocks(page.solutionHtml, questions.map(q => q.number)).map(block => block && cleanHtml(block));
+    let index = 0;
+    return page.document.sections.map(section => `
+    ${section.title ? `<h3>${cleanHtml(section.title)}</h3>` : ''}
+    ${section.instructions ? `<p><em>${cleanHtml(section.instructions)}</em></p>` : ''}
+    ${section.questions.map(q => renderInteractiveQuestion(q, answers, solutions[index++])).join('')}`).join('');
+  }).join(''), 'mathml');
+  const mcqCount = (body.match(/class="quiz-mcq"/g) || []).length;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(options.title)}</title>
+<style>${QUIZ_STYLES}</style>
+</head>
+<body>
+<div id="quiz" data-duration="${options.durationMinutes ?? 0}">
+  <div class="quiz-bar">
+    <span id="quiz-timer" class="quiz-timer">${options.durationMinutes ? `${options.durationMinutes} min` : 'No time limit'}</span>
+    <button type="button" id="quiz-submit" disabled>Submit</button>
+  </div>
+  <div class="quiz-paper">
+    ${renderMathInHtml(cleanHtml(options.headerHtml), 'mathml')}
+    <div class="quiz-result"></div>
+    <div id="quiz-start" class="quiz-start">
+      <p>${mcqCount} multiple-choice question(s)${options.durationMinutes ? ` &middot; ${options.durationMinutes} minutes` : ''}</p>
+      <button type="button" id="quiz-begin">Start</button>
+    </div>
+    <div id="quiz-paper" class="quiz-hidden">
+      ${body}
+      <div class="quiz-result"></div>
+    </div>
+  </div>
+</div>
+<script>${QUIZ_SCRIPT}</script>
+</body>
+</html>`;
+};
@@ -0,0 +1,155 @@
+// Elements that are removed together with everything inside them
+const DROP_WITH_CONTENT = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'link', 'meta', 'base',
+  'noscript', 'template', 'title', 'head', 'form', 'input', 'button', 'textarea', 'select', 'option',
+  'svg', 'math', 'video', 'audio', 'source', 'track', 'canvas', 'portal',
+]);
+
+// Elements that are kept. Anything else is unwrapped (its children are kept).
+const ALLOWED_TAGS = new Set([
+  'div', 'span', 'p', 'br', 'hr', 'b', 'strong', 'i', 'em', 'u', 's', 'strike', 'del', 'ins', 'sub', 'sup',
+  'small', 'big', 'mark', 'font', 'center', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'dl', 'dt',
+  'dd', 'table', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th', 'caption', 'colgroup', 'col', 'pre', 'code',
+  'blockquote', 'img', 'a', 'label', 'section', 'article', 'header', 'footer', 'figure', 'figcaption',
+]);
+
+const ALLOWED_ATTRIBUTES = new Set([
+  'style', 'class', 'colspan', 'rowspan', 'align', 'valign', 'width', 'height', 'border', 'cellpadding',
+  'cellspacing', 'bgcolor', 'color', 'face', 'size', 'alt', 'title', 'dir', 'lang', 'start', 'type',
+  'src', 'href', 'rel',
+]);
+
+// Inline images are fine (cropped figures are embedded as data URLs); anything fetched from elsewhere is not
+const SAFE_IMAGE_SRC = /^data:image\/(png|jpe?g|gif|webp|bmp);base64,/i;
+const SAFE_LINK_HREF = /^(https?:|mailto:|#)/i;
+const UNSAFE_CSS = /expression\s*\(|javascript:|vbscript:|behavior\s*:|-moz-binding|@import/i;
+const CSS_URL = /url\s*\(\s*(['"]?)(.*?)\1\s*\)/gi;
+
+export interface SanitizeResult {
+  html: string;
+  // Human readable summary of what was stripped, e.g. "<script> element (2)"
+  removed: string[];
+}
+
+const sanitizeStyle = (style: string, note: (what: string) => void): string =>
+  style
+    .split(';')
+    .filter(declaration => {
+      if (!declaration.trim()) return false;
+      if (UNSAFE_CSS.test(declaration)) {
+        note('unsafe CSS in style attribute');
+        return false;
+      }
+      let hasExternalUrl = false;
+      declaration.replace(CSS_URL, (match, _quote, url) => {
+        if (!SAFE_IMAGE_SRC.test(url)) hasExternalUrl = true;
+        return match;
+      });
+      if (hasExternalUrl) {
+        note('external url() in style attribute');
+        return false;
+      }
+      return true;
+    })
+    .join(';');
+
+const sanitizeElement = (el: Element, note: (what: string) => void) => {
+  const tag = el.tagName.toLowerCase();
+
+  for (const attr of Array.from(el.attributes)) {
+    const name = attr.name.toLowerCase();
+
+    if (name.startsWith('on')) {
+      note(`${name} event handler`);
+      el.removeAttribute(attr.name);
+      continue;
+    }
+    // data-* attributes carry our own bookkeeping (question ids, figure boxes, TeX source)
+    if (name.startsWith('data-')) continue;
+
+    if (!ALLOWED_ATTRIBUTES.has(name)) {
+      note(`${name} attribute`);
+      el.removeAttribute(attr.name);
+      continue;
+    }
+
+    const value = attr.value.trim();
+    if (name === 'src') {
+      if (tag !== 'img' || !SAFE_IMAGE_SRC.test(value)) {
+        note(value.toLowerCase().startsWith('javascript:') ? 'javascript: URL' : 'external resource load');
+        el.removeAttribute(attr.name);
+      }
+    } else if (name === 'href') {
+      if (tag !== 'a' || !SAFE_LINK_HREF.test(value)) {
+        note(value.toLowerCase().startsWith('javascript:') ? 'javascript: URL' : 'unsafe link');
+        el.removeAttribute(attr.name);
+      }
+    } else if (name === 'style') {
+      const cleaned = sanitizeStyle(attr.value, note);
+      if (cleaned.trim()) {
+        el.setAttribute('style', cleaned);
+      } else {
+        el.removeAttribute('style');
+      }
+    }
+  }
+
+  if (tag === 'a') {
+    // Never give a linked page access to the window that opened it
+    el.setAttribute('rel', 'noopener noreferrer');
+  }
+};
+
+const sanitizeChildren = (parent: Node, note: (what: string) => void) => {
+  for (const node of Array.from(parent.childNodes)) {
+    if (node.nodeType === Node.COMMENT_NODE) {
+      // Conditional comments can smuggle markup into Word and old IE
+      parent.removeChild(node);
+      continue;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) continue;
+
+    const el = node as Element;
+    const tag = el.tagName.toLowerCase();
+
+    if (DROP_WITH_CONTENT.has(tag)) {
+      note(`<${tag}> element`);
+      parent.removeChild(el);
+      continue;
+    }
+
+    sanitizeChildren(el, note);
+
+    if (!ALLOWED_TAGS.has(tag)) {
+      note(`<${tag}> element (unwrapped)`);
+      while (el.firstChild) {
+        parent.insertBefore(el.firstChild, el);
+      }
+      parent.removeChild(el);
+      continue;
+    }
+
+    sanitizeElement(el, note);
+  }
+};
+
+/**
+ * Allow-list sanitizer for model-generated HTML.
+ * Removes scripts, event handlers, javascript: URLs and external resource loads while keeping
+ * the inline styles, classes and table attributes the print and Word exports depend on.
+ */
+export const sanitizeHtml = (html: string): SanitizeResult => {
+  const counts = new Map<string, number>();
+  const note = (what: string) => counts.set(what, (counts.get(what) || 0) + 1);
+
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  sanitizeChildren(doc.body, note);
+
+  return {
+    html: doc.body.innerHTML,
+    removed: Array.from(counts.entries()).map(([what, count]) => (count > 1 ? `${what} (${count})` : what)),
+  };
+};
+
+// Convenience for render/export paths that don't need the report
+export const cleanHtml = (html: string): string => sanitizeHtml(html).html;
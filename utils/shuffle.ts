@@ -0,0 +1,102 @@
+import { PaperDocument, PaperQuestion, QuestionOption } from '../types';
+import { AnswerKeyRow, normalizeOptionLabel, normalizeQuestionNumber } from './answerKey';
+
+/** mulberry32: tiny, fast and identical in every browser, so a seed always gives the same set. */
+export const createRng = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const shuffleArray = <T>(items: T[], rng: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Seeds of the individual seat-wise sets. Each set prints its own seed, and shuffling with that seed
+ * alone reproduces the set. Six digits, so they are easy to read out and type.
+ */
+export const deriveSetSeeds = (baseSeed: number, count: number): number[] => {
+  const rng = createRng(baseSeed);
+  return Array.from({ length: count }, () => 100000 + Math.floor(rng() * 900000));
+};
+
+// Options that refer to the others only make sense in their printed position
+const FIXED_OPTION = /\b(all|none|both|neither)\b.*\b(above|of these|of the above|and|nor)\b/i;
+
+export interface ShuffleOptions {
+  questions: boolean; // Reorder questions within each section
+  options: boolean; // Reorder the options within each MCQ
+}
+
+export interface ShuffleSettings extends ShuffleOptions {
+  count: number; // Number of seat-wise sets
+  baseSeed: number;
+  reprintSeed?: number; // Print only the set with this seed, e.g. to replace a lost copy
+}
+
+export const DEFAULT_SHUFFLE_SETTINGS: ShuffleSettings = {
+  count: 4,
+  baseSeed: 2024,
+  questions: true,
+  options: true,
+};
+
+export interface ShuffleResult {
+  document: PaperDocument;
+  answerKey: AnswerKeyRow[]; // MCQs of the shuffled document, in printed order
+}
+
+/**
+ * Shuffles one structured page. Printed numbers and option labels stay in place (1, 2, 3 / a, b, c);
+ * the questions and option texts move, and `answers` (normalized question number -> option label,
+ * see utils/answerKey.ts) is rewritten to the new positions.
+ */
+export const shuffleDocument = (doc: PaperDocument, seed: number, answers: Map<string, string>, options: ShuffleOptions): ShuffleResult => {
+  const rng = createRng(seed);
+  const answerKey: AnswerKeyRow[] = [];
+
+  const shuffleOptions = (question: PaperQuestion): { options?: QuestionOption[]; answer?: string } => {
+    const original = question.options;
+    const correctLabel = answers.get(normalizeQuestionNumber(question.number));
+    const correct = original?.find(o => normalizeOptionLabel(o.label) === correctLabel);
+    if (!original || original.length < 2) return { options: original, answer: correct?.label };
+    if (!options.options) return { options: original, answer: correct?.label };
+
+    const movable = original.filter(o => !FIXED_OPTION.test(o.text));
+    const shuffled = shuffleArray(movable, rng);
+    const texts = original.map(o => FIXED_OPTION.test(o.text) ? o : shuffled.shift()!);
+    const reordered = original.map((o, i) => ({ label: o.label, text: texts[i].text }));
+    const newIndex = correct ? texts.indexOf(correct) : -1;
+    return { options: reordered, answer: newIndex >= 0 ? original[newIndex].label : undefined };
+  };
+
+  const document: PaperDocument = {
+    ...doc,
+    sections: doc.sections.map(section => {
+      const order = options.questions ? shuffleArray(section.questions, rng) : section.questions;
+      return {
+        ...section,
+        questions: order.map((question, i) => {
+          // The question takes over the number printed at its new position
+          const number = section.questions[i].number;
+          const { options: newOptions, answer } = shuffleOptions(question);
+          if (newOptions) answerKey.push({ question: number, answer });
+          return { ...question, number, ...(newOptions ? { options: newOptions } : {}) };
+        }),
+      };
+    }),
+  };
+
+  return { document, answerKey };
+};
@@ -0,0 +1,466 @@
+import { PaperDocument, PaperQuestion, QuestionFigure, QuestionOption, QuestionTable } from '../types';
+import { getSolutionSteps, matchSolutionBlocks, normalizeOptionLabel, normalizeQuestionNumber, parseAnswerKey } from './answerKey';
+import { getAllQuestions } from './paperDocument';
+import { dataUrlToBytes, ZipEntry } from './zip';
+
+/**
+ * Source exports for setters who finish papers by hand: LaTeX with the `exam` document class, and
+ * Markdown. Structured pages map onto questions, choices and parts; free-form pages and solutions
+ * go through an HTML converter. TeX formulas are kept as written. Cropped figures are returned as
+ * files under `figures/`, next to the text.
+ */
+
+export interface SourcePage {
+  document?: PaperDocument;
+  html: string; // Free-form pages are converted from their HTML
+  solutionHtml?: string;
+}
+
+// The header configuration's text fields
+export interface SourceHeader {
+  logoText: string;
+  logoSubText: string;
+  courseName: string;
+  seriesName: string;
+  marksTime: string;
+  subjectTitle: string;
+  instruction1: string;
+  instruction2: string;
+}
+
+export interface SourceExport {
+  text: string;
+  figures: ZipEntry[]; // Paths relative to the text file, e.g. "figures/figure-1.png"
+}
+
+export type SourceFormat = 'latex' | 'markdown';
+
+// Collects embedded images once each and hands out their file paths
+const createFigureStore = () => {
+  const paths = new Map<string, string>();
+  const files: ZipEntry[] = [];
+  const add = (dataUrl?: string): string | undefined => {
+    if (!dataUrl?.startsWith('data:')) return undefined;
+    if (paths.has(dataUrl)) return paths.get(dataUrl);
+    const image = dataUrlToBytes(dataUrl);
+    if (!image) return undefined;
+    const path = `figures/figure-${files.length + 1}.${image.extension}`;
+    files.push({ name: path, data: image.bytes });
+    paths.set(dataUrl, path);
+    return path;
+  };
+  return { add, files };
+};
+
+type FigureStore = ReturnType<typeof createFigureStore>;
+
+const MATH = /(\\\([\s\S]*?\\\)|\\\[[\s\S]*?\\\])/;
+
+const isBlockElement = (el: Element) =>
+  /^(p|div|h[1-6]|ul|ol|li|table|blockquote|pre|hr|section|article|header|footer|figure|figcaption|center)$/.test(el.localName);
+
+/* ---------- LaTeX ---------- */
+
+const LATEX_SPECIALS: Record<string, string> = {
+  '\\': '\\textbackslash{}', '{': '\\{', '}': '\\}', '$': '\\$', '&': '\\&', '#': '\\#', '%': '\\%', '_': '\\_',
+  '^': '\\textasciicircum{}', '~': '\\textasciitilde{}', '<': '\\textless{}', '>': '\\textgreater{}', '\u00a0': '~',
+};
+
+// Escapes text for LaTeX, leaving \( \) and \[ \] formulas untouched
+const escapeLatex = (text: string): string =>
+  text.split(MATH).map((segment, i) => (i % 2 === 1 ? segment : segment.replace(/[\\{}$&#%_^~<>\u00a0]/g, c => LATEX_SPECIALS[c]))).join('');
+
+const LATEX_HEADINGS: Record<string, string> = { h1: 'section*', h2: 'subsection*', h3: 'subsubsection*', h4: 'paragraph*', h5: 'paragraph*', h6: 'paragraph*' };
+
+const latexTable = (rows: string[][], bordered: boolean): string => {
+  const columns = Math.max(1, ...rows.map(r => r.length));
+  const rule = bordered ? '\\hline\n' : '';
+  const spec = bordered ? `|${'X|'.repeat(columns)}` : 'X'.repeat(columns);
+  return `\n\n\\noindent\\begin{tabularx}{\\linewidth}{${spec}}\n${rule}${rows.map(r => `${r.join(' & ')} \\\\\n${rule}`).join('')}\\end{tabularx}\n\n`;
+};
+
+const latexImage = (path: string) =>
+  `\n\n\\begin{center}\n\\includegraphics[width=0.8\\linewidth,height=0.3\\textheight,keepaspectratio]{${path}}\n\\end{center}\n\n`;
+
+const htmlNodeToLatex = (node: Node, figures: FigureStore): string => {
+  if (node.nodeType === Node.TEXT_NODE) return escapeLatex((node.textContent || '').replace(/[ \t\n\r\f]+/g, ' '));
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+  const el = node as HTMLElement;
+  const inner = () => Array.from(el.childNodes).map(child => htmlNodeToLatex(child, figures)).join('');
+  const tag = el.localName;
+
+  switch (tag) {
+    case 'script':
+    case 'style':
+      return '';
+    case 'b':
+    case 'strong':
+      return `\\textbf{${inner()}}`;
+    case 'i':
+    case 'em':
+      return `\\textit{${inner()}}`;
+    case 'u':
+      return `\\underline{${inner()}}`;
+    case 'sup':
+      return `\\textsuperscript{${inner()}}`;
+    case 'sub':
+      return `\\textsubscript{${inner()}}`;
+    case 'br':
+      return '\\\\\n';
+    case 'hr':
+      return '\n\n\\noindent\\rule{\\linewidth}{0.4pt}\n\n';
+    case 'img': {
+      const path = figures.add(el.getAttribute('src') || '');
+      return path ? latexImage(path) : `[${escapeLatex(el.getAttribute('alt') || 'Figure')}]`;
+    }
+    case 'ul':
+    case 'ol': {
+      const items = Array.from(el.children).filter(c => c.localName === 'li').map(li => `\\item ${htmlNodeToLatex(li, figures).trim()}`);
+      const environment = tag === 'ol' ? 'enumerate' : 'itemize';
+      return items.length ? `\n\n\\begin{${environment}}\n${items.join('\n')}\n\\end{${environment}}\n\n` : '';
+    }
+    case 'li':
+      return inner();
+    case 'table': {
+      const table = el as HTMLTableElement;
+      const rows = Array.from(table.rows).map(row => Array.from(row.cells).map(cell => {
+        const content = Array.from(cell.childNodes).map(child => htmlNodeToLatex(child, figures)).join('').replace(/\n{2,}/g, ' \\newline ').trim();
+        const text = cell.localName === 'th' ? `\\textbf{${content}}` : content;
+        return cell.colSpan > 1 ? `\\multicolumn{${cell.colSpan}}{|l|}{${text}}` : text;
+      }));
+      const hasBorderAttribute = !!el.getAttribute('border') && el.getAttribute('border') !== '0';
+      const bordered = hasBorderAttribute || /border/.test(el.getAttribute('style') || '') || !!el.querySelector('td[style*="border"], th[style*="border"]');
+      const caption = table.caption ? `\\begin{center}\\textbf{${escapeLatex(table.caption.textContent?.trim() || '')}}\\end{center}\n` : '';
+      return rows.length ? `\n\n${caption}${latexTable(rows, bordered).trim()}\n\n` : '';
+    }
+    case 'caption':
+      return '';
+    default:
+      if (LATEX_HEADINGS[tag]) return `\n\n\\${LATEX_HEADINGS[tag]}{${inner().trim()}}\n\n`;
+      if (isBlockElement(el)) {
+        const content = inner().trim();
+        const centered = el.style?.textAlign === 'center' || tag === 'center' || el.classList.contains('text-center');
+        if (!content) return '';
+        return centered ? `\n\n\\begin{center}\n${content}\n\\end{center}\n\n` : `\n\n${content}\n\n`;
+      }
+      return inner();
+  }
+};
+
+// Paragraphs separated by single blank lines, and no line breaks where LaTeX has no line to end
+const tidyLatex = (latex: string): string =>
+  latex
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/(^|\n\n|\\begin\{center\}\n)(\\\\\n)+/g, '$1')
+    .replace(/(\\\\\n)+(\n|\\end\{center\})/g, '\n$2')
+    .trim();
+
+const htmlToLatex = (html: string, figures: FigureStore): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return tidyLatex(Array.from(doc.body.childNodes).map(node => htmlNodeToLatex(node, figures)).join(''));
+};
+
+const latexHeader = (header: SourceHeader, figures: FigureStore): string => {
+  const field = (html: string) => htmlToLatex(html, figures).replace(/\n\n/g, ' \\\\ ');
+  return `\\begin{flushright}
+{\\Large\\textbf{${field(header.logoText)}}}\\\\
+{\\footnotesize ${field(header.logoSubText)}}
+\\end{flushright}
+
+\\noindent\\begin{tabularx}{\\linewidth}{|X r|}
+\\hline
+\\textbf{${field(header.courseName)}} & \\textbf{${field(header.seriesName)}} \\\\
+ & ${field(header.marksTime)} \\\\
+\\hline
+\\end{tabularx}
+
+\\begin{center}
+\\fbox{\\parbox{0.97\\linewidth}{\\centering\\Large\\textbf{${field(header.subjectTitle)}}}}
+
+\\medskip
+{\\large\\textbf{${field(header.instruction1)}}}
+
+${field(header.instruction2) ? `\\textbf{${field(header.instruction2)}}` : ''}
+\\end{center}
+
+\\noindent\\rule{\\linewidth}{0.8pt}
+`;
+};
+
+const latexFigures = (figures: QuestionFigure[] | undefined, store: FigureStore) =>
+  (figures || []).map(f => {
+    const path = store.add(f.src);
+    return path ? latexImage(path).trim() : `\\begin{center}\\fbox{\\textit{Figure: ${escapeLatex(f.description)}}}\\end{center}`;
+  });
+
+const latexTables = (tables: QuestionTable[] | undefined, store: FigureStore) =>
+  (tables || []).map(t => {
+    const cell = (html: string) => htmlToLatex(html, store).replace(/\n\n/g, ' \\newline ');
+    const rows = [t.headers.map(h => `\\textbf{${cell(h)}}`), ...t.rows.map(r => r.map(cell))].filter(r => r.length > 0);
+    const caption = t.caption ? `\\begin{center}\\textbf{${cell(t.caption)}}\\end{center}\n` : '';
+    return `${caption}${latexTable(rows, true).trim()}`;
+  });
+
+const latexChoices = (options: QuestionOption[], answer: string | undefined, store: FigureStore) =>
+  `\\begin{choices}\n${options.map(o => `${normalizeOptionLabel(o.label) === answer ? '\\CorrectChoice' : '\\choice'} ${htmlToLatex(o.text, store)}`).join('\n')}\n\\end{choices}`;
+
+// exam labels parts (a), (b), ...; papers numbered (i), (ii), ... keep their roman numerals
+const latexPartNumbering = (labels: string[]) =>
+  labels[0]?.toLowerCase() === 'i' && labels.length > 1 ? '\\renewcommand{\\thepartno}{\\roman{partno}}\n' : '';
+
+const latexQuestion = (question: PaperQuestion, answers: Map<string, string>, solutionHtml: string | undefined, store: FigureStore): string => {
+  const lines = [`\\question${question.marks !== undefined ? `[${question.marks}]` : ''} ${htmlToLatex(question.text, store)}`];
+  lines.push(...latexTables(question.tables, store), ...latexFigures(question.figures, store));
+  if ((question.options?.length || 0) > 1) {
+    lines.push(latexChoices(question.options!, answers.get(normalizeQuestionNumber(question.number)), store));
+  }
+  if (question.subParts?.length) {
+    const parts = question.subParts.map(part => {
+      const answer = answers.get(normalizeQuestionNumber(`${question.number}(${part.label})`));
+      const choices = (part.options?.length || 0) > 1 ? `\n${latexChoices(part.options!, answer, store)}` : '';
+      return `\\part${part.marks !== undefined ? `[${part.marks}]` : ''} ${htmlToLatex(part.text, store)}${choices}`;
+    });
+    lines.push(`\\begin{parts}\n${latexPartNumbering(question.subParts.map(p => p.label))}${parts.join('\n')}\n\\end{parts}`);
+  }
+  const steps = getSolutionSteps(solutionHtml);
+  if (steps) lines.push(`\\begin{solution}\n${htmlToLatex(steps, store)}\n\\end{solution}`);
+  return lines.join('\n\n');
+};
+
+/**
+ * A .tex file for the `exam` class. Solutions sit in `solution` environments after their questions
+ * (or at the end, for free-form pages) and are printed with `\printanswers`.
+ */
+export const buildLatex = (pages: SourcePage[], header?: SourceHeader): SourceExport => {
+  const store = createFigureStore();
+  let nextNumber = 1;
+
+  const body = pages.map(page => {
+    if (!page.document) return htmlToLatex(page.html, store);
+    const answers = parseAnswerKey(page.solutionHtml);
+    const questions = getAllQuestions(page.document);
+    const solutions = matchSolutionBlocks(page.solutionHtml, questions.map(q => q.number));
+    let index = 0;
+    const doc = page.document;
+    const intro = [
+      doc.title ? `\\begin{center}\\textbf{\\large ${htmlToLatex(doc.title, store)}}\\end{center}` : '',
+      ...(doc.instructions || []).map(i => `\\noindent\\textit{${htmlToLatex(i, store)}}\n`),
+    ].filter(Boolean).join('\n\n');
+    const sections = doc.sections.map(section => {
+      const heading = [
+        section.title ? `\\fullwidth{\\textbf{${htmlToLatex(section.title, store)}}}` : '',
+        section.instructions ? `\\fullwidth{\\textit{${htmlToLatex(section.instructions, store)}}}` : '',
+      ].filter(Boolean).join('\n');
+      const items = section.questions.map(q => {
+        // exam numbers questions itself; follow the printed numbers where they jump
+        const printed = /^\d+$/.test(q.number) ? Number(q.number) : undefined;
+        const counter = printed !== undefined && printed !== nextNumber ? `\\setcounter{question}{${printed - 1}}\n` : '';
+        nextNumber = (printed ?? nextNumber) + 1;
+        return `${counter}${latexQuestion(q, answers, solutions[index++], store)}`;
+      });
+      return [heading, ...items].filter(Boolean).join('\n\n');
+    });
+    return `${intro ? `${intro}\n\n` : ''}\\begin{questions}\n\n${sections.join('\n\n')}\n\n\\end{questions}`;
+  });
+
+  const looseSolutions = pages
+    .filter(page => !page.document && page.solutionHtml)
+    .map(page => htmlToLatex(page.solutionHtml!, store));
+
+  const text = `% Generated by Snap2Print. Compile with pdflatex; uncomment \\printanswers to include the solutions.
+\\documentclass[11pt,a4paper]{exam}
+\\usepackage[utf8]{inputenc}
+\\usepackage[T1]{fontenc}
+\\usepackage[margin=2cm]{geometry}
+\\usepackage{amsmath,amssymb}
+\\usepackage{graphicx}
+\\usepackage{tabularx}
+
+% MathJax-style comparison macros, which the converted formulas use
+\\providecommand{\\lt}{<}
+\\providecommand{\\gt}{>}
+
+% \\printanswers
+\\pointpoints{Mark}{Marks}
+\\bracketedpoints
+
+\\begin{document}
+
+${header ? `${latexHeader(header, store)}\n` : ''}${body.join('\n\n\\bigskip\n\n')}
+${looseSolutions.length ? `
+\\ifprintanswers
+\\newpage
+\\section*{Solutions}
+
+${looseSolutions.join('\n\n')}
+\\fi
+` : ''}
+\\end{document}
+`;
+  return { text, figures: store.files };
+};
+
+/* ---------- Markdown ---------- */
+
+// Escapes Markdown syntax in text and rewrites formulas as $...$ and $$...$$
+const escapeMarkdown = (text: string): string =>
+  text.split(MATH).map((segment, i) => {
+    if (i % 2 === 1) return segment.startsWith('\\(') ? `$${segment.slice(2, -2).trim()}$` : `$$${segment.slice(2, -2).trim()}$$`;
+    return segment.replace(/([\\`*_[\]<>|])/g, '\\$1');
+  }).join('');
+
+const markdownTable = (rows: string[][]): string => {
+  const columns = Math.max(1, ...rows.map(r => r.length));
+  const pad = (r: string[]) => [...r, ...Array(columns - r.length).fill('')];
+  const line = (r: string[]) => `| ${pad(r).join(' | ')} |`;
+  const [head, ...rest] = rows;
+  return [line(head), `|${' --- |'.repeat(columns)}`, ...rest.map(line)].join('\n');
+};
+
+const htmlNodeToMarkdown = (node: Node, figures: FigureStore): string => {
+  if (node.nodeType === Node.TEXT_NODE) return escapeMarkdown((node.textContent || '').replace(/[ \t\n\r\f]+/g, ' '));
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+  const el = node as HTMLElement;
+  const inner = () => Array.from(el.childNodes).map(child => htmlNodeToMarkdown(child, figures)).join('');
+  const tag = el.localName;
+
+  // Emphasis markers must hug the text, so surrounding spaces move outside them
+  const wrap = (marker: string) => {
+    const content = inner();
+    const text = content.trim();
+    if (!text) return content;
+    return `${content.match(/^\s*/)![0]}${marker}${text}${marker}${content.match(/\s*$/)![0]}`;
+  };
+
+  switch (tag) {
+    case 'script':
+    case 'style':
+      return '';
+    case 'b':
+    case 'strong':
+      return wrap('**');
+    case 'i':
+    case 'em':
+      return wrap('*');
+    case 'sup':
+    case 'sub':
+      return `<${tag}>${inner()}</${tag}>`;
+    case 'br':
+      return '  \n';
+    case 'hr':
+      return '\n\n---\n\n';
+    case 'img': {
+      const path = figures.add(el.getAttribute('src') || '');
+      const alt = escapeMarkdown(el.getAttribute('alt') || 'Figure');
+      return path ? `![${alt}](${path})` : `*[${alt}]*`;
+    }
+    case 'ul':
+    case 'ol': {
+      const items = Array.from(el.children).filter(c => c.localName === 'li').map((li, i) => {
+        const marker = tag === 'ol' ? `${i + 1}.` : '-';
+        const content = htmlNodeToMarkdown(li, figures).trim().replace(/\n/g, `\n${' '.repeat(marker.length + 1)}`);
+        return `${marker} ${content}`;
+      });
+      return `\n\n${items.join('\n')}\n\n`;
+    }
+    case 'li':
+      return inner().replace(/\n{3,}/g, '\n\n');
+    case 'table': {
+      const rows = Array.from((el as HTMLTableElement).rows).map(row => Array.from(row.cells).map(cell => {
+        const content = Array.from(cell.childNodes).map(child => htmlNodeToMarkdown(child, figures)).join('').trim();
+        return content.replace(/\s*\n\s*/g, '<br>');
+      }));
+      const caption = (el as HTMLTableElement).caption?.textContent?.trim();
+      return rows.length ? `\n\n${caption ? `**${escapeMarkdown(caption)}**\n\n` : ''}${markdownTable(rows)}\n\n` : '';
+    }
+    case 'caption':
+      return '';
+    default: {
+      const heading = tag.match(/^h([1-6])$/);
+      if (heading) return `\n\n${'#'.repeat(Number(heading[1]))} ${inner().trim()}\n\n`;
+      return isBlockElement(el) ? `\n\n${inner().trim()}\n\n` : inner();
+    }
+  }
+};
+
+// Blank lines between blocks; trailing spaces are dropped except for hard line breaks
+const tidyMarkdown = (markdown: string): string =>
+  markdown.replace(/[ \t]+\n/g, match => (match.startsWith('  ') ? '  \n' : '\n')).replace(/\n{3,}/g, '\n\n').trim();
+
+const htmlToMarkdown = (html: string, figures: FigureStore): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return tidyMarkdown(Array.from(doc.body.childNodes).map(node => htmlNodeToMarkdown(node, figures)).join(''));
+};
+
+const markdownHeader = (header: SourceHeader, figures: FigureStore): string => {
+  const field = (html: string) => htmlToMarkdown(html, figures).replace(/\n+/g, ' ');
+  return [
+    `**${field(header.logoText)}**  \n${field(header.logoSubText)}`,
+    `# ${field(header.subjectTitle)}`,
+    `**${field(header.courseName)}** · **${field(header.seriesName)}** · ${field(header.marksTime)}`,
+    [header.instruction1, header.instruction2].filter(Boolean).map(i => `> **${field(i)}**`).join('\n>\n'),
+    '---',
+  ].filter(Boolean).join('\n\n');
+};
+
+const markdownOptions = (options: QuestionOption[], store: FigureStore, indent = '') =>
+  options.map(o => `${indent}- (${escapeMarkdown(o.label)}) ${htmlToMarkdown(o.text, store).replace(/\n+/g, ' ')}`).join('\n');
+
+const markdownQuestion = (question: PaperQuestion, solutionHtml: string | undefined, store: FigureStore): string => {
+  const marks = (m?: number) => (m !== undefined ? ` *[${m} Mark${m === 1 ? '' : 's'}]*` : '');
+  const blocks = [`**${escapeMarkdown(question.number)}.** ${htmlToMarkdown(question.text, store)}${marks(question.marks)}`];
+  (question.tables || []).forEach(t => {
+    const cell = (html: string) => htmlToMarkdown(html, store).replace(/\n+/g, '<br>');
+    blocks.push(`${t.caption ? `**${cell(t.caption)}**\n\n` : ''}${markdownTable([t.headers.map(cell), ...t.rows.map(r => r.map(cell))])}`);
+  });
+  (question.figures || []).forEach(f => {
+    const path = store.add(f.src);
+    blocks.push(path ? `![${escapeMarkdown(f.description)}](${path})` : `*[Figure: ${escapeMarkdown(f.description)}]*`);
+  });
+  if ((question.options?.length || 0) > 1) blocks.push(markdownOptions(question.options!, store));
+  if (question.subParts?.length) {
+    blocks.push(question.subParts.map(part => {
+      const options = (part.options?.length || 0) > 1 ? `\n${markdownOptions(part.options!, store, '    ')}` : '';
+      return `- (${escapeMarkdown(part.label)}) ${htmlToMarkdown(part.text, store).replace(/\n+/g, ' ')}${marks(part.marks)}${options}`;
+    }).join('\n'));
+  }
+
+  // The worked solution (with its answer-key line), folded away
+  const steps = getSolutionSteps(solutionHtml);
+  if (steps) blocks.push(`<details>\n<summary>Solution</summary>\n\n${htmlToMarkdown(steps, store)}\n\n</details>`);
+  return blocks.join('\n\n');
+};
+
+/** Markdown with figures as relative image links and solutions in collapsible <details> blocks. */
+export const buildMarkdown = (pages: SourcePage[], header?: SourceHeader): SourceExport => {
+  const store = createFigureStore();
+
+  const body = pages.map(page => {
+    if (!page.document) return htmlToMarkdown(page.html, store);
+    const questions = getAllQuestions(page.document);
+    const solutions = matchSolutionBlocks(page.solutionHtml, questions.map(q => q.number));
+    let index = 0;
+    const doc = page.document;
+    return [
+      doc.title ? `## ${htmlToMarkdown(doc.title, store)}` : '',
+      ...(doc.instructions || []).map(i => `*${htmlToMarkdown(i, store)}*`),
+      ...doc.sections.flatMap(section => [
+        section.title ? `### ${htmlToMarkdown(section.title, store)}` : '',
+        section.instructions ? `*${htmlToMarkdown(section.instructions, store)}*` : '',
+        ...section.questions.map(q => markdownQuestion(q, solutions[index++], store)),
+      ]),
+    ].filter(Boolean).join('\n\n');
+  });
+
+  const looseSolutions = pages
+    .filter(page => !page.document && page.solutionHtml)
+    .map(page => htmlToMarkdown(page.solutionHtml!, store));
+
+  const text = [
+    header ? markdownHeader(header, store) : '',
+    body.join('\n\n---\n\n'),
+    looseSolutions.length ? `## Solutions\n\n${looseSolutions.join('\n\n')}` : '',
+  ].filter(Boolean).join('\n\n');
+  return { text: `${text}\n`, figures: store.files };
+};
@@ -0,0 +1,172 @@
+import { VerificationCheck, VerificationReport } from '../types';
+import type { VerificationCheckSpec } from '../services/verificationSchema';
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+
+/**
+ * Evaluates plain arithmetic without `eval`: numbers, + - * / ^ %, parentheses and the functions
+ * above. `%` after a number means percent (25% = 0.25). Commas only separate function arguments,
+ * so amounts must be written without thousands separators.
+ */
+export const evaluateExpression = (expression: string): number => {
+  const source = expression.replace(/×/g, '*').replace(/÷/g, '/').replace(/\s+/g, '');
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`${message} at position ${pos + 1} in "${expression}"`);
+  };
+
+  const peek = () => source[pos];
+
+  const parseNumber = (): number => {
+    const match = /^\d*\.?\d+(e[+-]?\d+)?/i.exec(source.slice(pos));
+    if (!match) return fail('Expected a number');
+    pos += match[0].length;
+    return parseFloat(match[0]);
+  };
+
+  const parsePrimary = (): number => {
+    if (peek() === '(') {
+      pos++;
+      const value = parseSum();
+      if (peek() !== ')') fail('Missing )');
+      pos++;
+      return value;
+    }
+    const name = /^[a-z]+/i.exec(source.slice(pos));
+    if (name) {
+      const fn = FUNCTIONS[name[0].toLowerCase()];
+      if (!fn) fail(`Unknown function "${name[0]}"`);
+      pos += name[0].length;
+      if (peek() !== '(') fail('Expected (');
+      pos++;
+      const args = [parseSum()];
+      while (peek() === ',') {
+        pos++;
+        args.push(parseSum());
+      }
+      if (peek() !== ')') fail('Missing )');
+      pos++;
+      return fn(...args);
+    }
+    return parseNumber();
+  };
+
+  const parsePostfix = (): number => {
+    let value = parsePrimary();
+    while (peek() === '%') {
+      pos++;
+      value /= 100;
+    }
+    return value;
+  };
+
+  const parseUnary = (): number => {
+    if (peek() === '-') { pos++; return -parseUnary(); }
+    if (peek() === '+') { pos++; return parseUnary(); }
+    return parsePower();
+  };
+
+  // Right associative: 2^3^2 = 2^9
+  const parsePower = (): number => {
+    const base = parsePostfix();
+    if (peek() === '^') {
+      pos++;
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+
+  const parseProduct = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/') {
+      const op = source[pos++];
+      const right = parseUnary();
+      value = op === '*' ? value * right : value / right;
+    }
+    return value;
+  };
+
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      const op = source[pos++];
+      const right = parseProduct();
+      value = op === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  if (!source) fail('Empty expression');
+  const result = parseSum();
+  if (pos < source.length) fail(`Unexpected "${source[pos]}"`);
+  if (!Number.isFinite(result)) throw new Error(`"${expression}" does not evaluate to a finite number`);
+  return result;
+};
+
+// Rounding noise from floating point must not count as a mismatch; amounts are compared to the paisa
+const nearlyEqual = (a: number, b: number) => Math.abs(a - b) <= Math.max(0.005, Math.abs(b) * 1e-9);
+
+const formatNumber = (value: number) =>
+  Number.isInteger(value) ? value.toLocaleString('en-IN') : value.toLocaleString('en-IN', { maximumFractionDigits: 4 });
+
+const checkExpression = (spec: VerificationCheckSpec): Pick<VerificationCheck, 'passed' | 'detail'> => {
+  if (!spec.expression) return { passed: false, detail: 'No expression given' };
+  const computed = evaluateExpression(spec.expression);
+  const problems: string[] = [];
+
+  if (spec.expected !== undefined && !nearlyEqual(computed, spec.expected)) {
+    problems.push(`computed ${formatNumber(computed)} but the paper states ${formatNumber(spec.expected)}`);
+  }
+  if (spec.decimals !== undefined) {
+    const factor = Math.pow(10, Math.max(0, spec.decimals));
+    if (Math.abs(Math.round(computed * factor) - computed * factor) > 1e-6) {
+      problems.push(`${formatNumber(computed)} is not a clean answer (more than ${spec.decimals} decimals)`);
+    }
+  }
+  if (spec.options && spec.options.length > 0 && !spec.options.some(o => nearlyEqual(computed, o))) {
+    problems.push(`${formatNumber(computed)} is not among the options ${spec.options.map(formatNumber).join(', ')}`);
+  }
+
+  return problems.length > 0
+    ? { passed: false, detail: problems.join('; ') }
+    : { passed: true, detail: `${spec.expression} = ${formatNumber(computed)}` };
+};
+
+const checkLedger = (spec: VerificationCheckSpec): Pick<VerificationCheck, 'passed' | 'detail'> => {
+  if (!spec.debits?.length || !spec.credits?.length) return { passed: false, detail: 'Debit or credit side is missing' };
+  const debit = spec.debits.reduce((sum, amount) => sum + evaluateExpression(amount), 0);
+  const credit = spec.credits.reduce((sum, amount) => sum + evaluateExpression(amount), 0);
+  return nearlyEqual(debit, credit)
+    ? { passed: true, detail: `Dr ${formatNumber(debit)} = Cr ${formatNumber(credit)}` }
+    : { passed: false, detail: `Dr ${formatNumber(debit)} does not equal Cr ${formatNumber(credit)} (difference ${formatNumber(Math.abs(debit - credit))})` };
+};
+
+/**
+ * Recomputes every check locally. A check the evaluator cannot parse counts as failed,
+ * so a malformed claim is reviewed by a person rather than silently trusted.
+ */
+export const runVerificationChecks = (specs: VerificationCheckSpec[]): VerificationReport => {
+  const checks: VerificationCheck[] = specs.map(spec => {
+    let result: Pick<VerificationCheck, 'passed' | 'detail'>;
+    try {
+      result = spec.kind === 'ledger' ? checkLedger(spec) : checkExpression(spec);
+    } catch (e: any) {
+      result = { passed: false, detail: e.message || 'Could not evaluate' };
+    }
+    return { question: spec.question, description: spec.description, kind: spec.kind, ...result };
+  });
+  return { checks, failed: checks.filter(c => !c.passed).length };
+};